@@ -133,10 +133,13 @@ pub fn build(b: *Build) !void {
     const run_tests = b.addRunArtifact(tests);
     test_step.dependOn(&run_tests.step); 
     if (yarn) {
-        // Also run linter for the frontend during testing
+        // Also run linter and unit tests for the frontend during testing
         const yarn_lint = b.addSystemCommand(&[_][]const u8{ "yarn", "lint" });
         yarn_lint.setCwd(b.path("www"));
         test_step.dependOn(&yarn_lint.step);
+        const yarn_test = b.addSystemCommand(&[_][]const u8{ "yarn", "test" });
+        yarn_test.setCwd(b.path("www"));
+        test_step.dependOn(&yarn_test.step);
     }
 
     // Documentation (generation) step
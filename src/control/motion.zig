@@ -4,13 +4,16 @@
 const std = @import("std");
 const fmt = std.fmt;
 const log = std.log.scoped(.motion);
+const math = std.math;
 const time = std.time;
 
 pub const quad = @import("quad.zig");
+pub const tuning = @import("tuning.zig");
 
 pub const pixy = @import("../device/pixy.zig");
 pub const ultrasonic = @import("../device/ultrasonic.zig");
 
+pub const math3d = @import("../lib/math3d.zig");
 pub const PID = @import("../lib/pid.zig");
 
 pub const sockets = @import("../remote/sockets.zig");
@@ -26,6 +29,8 @@ const MotionState = enum {
 
 // Quadcopter's altitude, in cm (read-write).
 pub var alt: f32 = 0.0;
+// Quadcopter's altitude as last measured by the ultrasonic sensor, in cm (read-only).
+pub var meas_alt: f32 = 0.0;
 
 // -- Time constants --
 const MAX_UPDATE_RATE = 200; // update will be throttled to this rate if needed, hz
@@ -38,16 +43,35 @@ const IGNORE_XY_GUIDANCE_BELOW_ALT = 10.0; // cm
 const INITIAL_HOVER_ALT = 50.0; // cm
 const MAX_ALT = 350.0; // cm
 
+// -- Teleop constants --
+const CONTROL_TIMEOUT = 500; // Time without a fresh `move` after which teleop input is considered lost, in ms
+const MAX_CONTROL_DELAY = 250; // Delay (beyond the lowest seen) after which a `move` is considered stale, in ms
+const MAX_CLIMB_RATE = 50.0; // Fastest climb/descent a `move` can command, in cm/s
+const MAX_YAW_RATE = 90.0; // Fastest turn a `move` can command, in degrees/s
+const MIN_TELEOP_ALT = 15.0; // Lowest altitude setpoint reachable by descending in teleop (landing is done with `land`), in cm
+const MAX_TELEOP_ALT = MAX_ALT - 50.0; // Highest altitude setpoint reachable by climbing in teleop, clear of the automatic landing, in cm
+
 // -- Thrust constants --
 const ALT_OFFSET = 7.0; // Offset from ultrasonic sensor to ground, in cm
 const CUTOFF_THRUST = 10.0; // Thrust at which to cut motors, in percent
 
+var alloc: std.mem.Allocator = undefined;
+var status_data: sockets.SocketData = undefined; // SocketData used to send the motion status
+
 var sonar = ultrasonic.HC_SR04{ .trig = 17, .echo = 27 };
 var prev_update: i64 = 0; // Time of the previous call to update()
 var state = MotionState.IDLE; // Current state of the motion controller
 
+// Teleop control stream, see /www/src/helpers/control.ts
+var last_seq: i64 = -1; // Sequence number of the last accepted `move`
+var last_move: i64 = 0; // Time the last `move` was accepted
+var min_latency: i64 = math.maxInt(i64); // Lowest seen difference between receive and client send time, absorbs clock offset
+var control_neutral = true; // Whether the last accepted `move` was neutral
+var climb_rate: f32 = 0.0; // Rate the altitude setpoint is moved at in teleop, in cm/s
+var yaw_rate: f32 = 0.0; // Rate the yaw setpoint is turned at in teleop, in degrees/s
+
 // PID controllers for X, Y, and Z movement
-// TODO: tune params
+// TODO: tune params (they can be tuned live, see tuning.zig)
 var pid_x = PID.Controller {
     .kp = 0.1,
     .ki = 0.0,
@@ -73,6 +97,29 @@ var pid_z = PID.Controller {
     .lim_max = 60.0,
 };
 
+/// Event dispatcher for the `status` event.
+fn statusEvent(send: sockets.SendFn) !void {
+    const FmtStr = [fmt.format_float.min_buffer_size]u8;
+    const FmtOpts: fmt.format_float.FormatOptions = .{ .mode = .decimal, .precision = 1 };
+    const MOTORS = [_][]const u8{ "fl", "fr", "bl", "br" }; // Same order as quad.motorThrusts()
+
+    status_data.event = "status";
+
+    var alt_buf: FmtStr = undefined;
+    var target_buf: FmtStr = undefined;
+    var base_buf: FmtStr = undefined;
+    var motor_bufs: [MOTORS.len]FmtStr = undefined;
+    try status_data.data.map.put(alloc, "state", @tagName(state));
+    try status_data.data.map.put(alloc, "alt", try fmt.formatFloat(&alt_buf, meas_alt, FmtOpts));
+    try status_data.data.map.put(alloc, "target_alt", try fmt.formatFloat(&target_buf, alt, FmtOpts));
+    try status_data.data.map.put(alloc, "base", try fmt.formatFloat(&base_buf, quad.base, FmtOpts));
+    const thrusts = quad.motorThrusts();
+    for (MOTORS, thrusts, &motor_bufs) |name, thrust, *buf|
+        try status_data.data.map.put(alloc, name, try fmt.formatFloat(buf, thrust, FmtOpts));
+
+    try send(status_data);
+}
+
 /// Event handler for the `takeoff` event.
 fn takeoffEvent(_: sockets.SocketData) !void {
     if (state == .IDLE)
@@ -85,8 +132,36 @@ fn landEvent(_: sockets.SocketData) !void {
 }
 
 /// Event handler for the `move` event.
+/// Moves are streamed at a fixed rate while the client is in control; out-of-order and stale
+/// ones are dropped, and `update()` levels out if the stream stops mid-maneuver.
+/// Roll and pitch are attitude setpoints, `climb` and `yaw_rate` move the altitude and yaw setpoints
+/// (see `update()`); fields a client doesn't send are left as they are.
 fn moveEvent(event: sockets.SocketData) !void {
     const map = event.data.map;
+    const now = time.milliTimestamp();
+
+    const seq = try fmt.parseInt(i64, map.get("seq") orelse return error.MissingField, 10);
+    const ts = try fmt.parseInt(i64, map.get("ts") orelse return error.MissingField, 10);
+    // A gap this long means a new stream (e.g. the client reconnected), which restarts its sequence
+    if (now - last_move > CONTROL_TIMEOUT) {
+        last_seq = -1;
+        min_latency = math.maxInt(i64);
+    }
+    if (seq <= last_seq) {
+        log.debug("dropping out-of-order move (seq {}, last {})", .{ seq, last_seq });
+        return;
+    }
+    if (last_seq >= 0 and seq > last_seq + 1)
+        log.debug("missed {} move(s)", .{ seq - last_seq - 1 });
+    last_seq = seq;
+    // Client and server clocks aren't synced, so only compare against the lowest latency seen
+    const latency = now - ts;
+    min_latency = @min(min_latency, latency);
+    if (latency - min_latency > MAX_CONTROL_DELAY) {
+        log.warn("dropping stale move ({}ms late)", .{ latency - min_latency });
+        return;
+    }
+    last_move = now;
 
     // Possible cases for automatically switching into teleop
     switch (state) {
@@ -101,15 +176,26 @@ fn moveEvent(event: sockets.SocketData) !void {
         quad.roll = try fmt.parseFloat(@TypeOf(quad.roll), roll);
     if (map.get("pitch")) |pitch|
         quad.pitch = try fmt.parseFloat(@TypeOf(quad.pitch), pitch);
+    if (map.get("climb")) |climb|
+        climb_rate = math.clamp(try fmt.parseFloat(f32, climb), -MAX_CLIMB_RATE, MAX_CLIMB_RATE);
+    if (map.get("yaw_rate")) |rate|
+        yaw_rate = math.clamp(try fmt.parseFloat(f32, rate), -MAX_YAW_RATE, MAX_YAW_RATE);
+    control_neutral = quad.roll == 0.0 and quad.pitch == 0.0 and climb_rate == 0.0 and yaw_rate == 0.0;
 }
 
 /// Initialize the motion controller.
 pub fn init(allocator: std.mem.Allocator) !void {
     try quad.init(allocator);
     try sonar.init();
+    alloc = allocator;
+    status_data = try sockets.SocketData.init();
+    try sockets.subscribe("status", statusEvent, .Dispatch);
     try sockets.subscribe("takeoff", takeoffEvent, .Receive);
     try sockets.subscribe("land", landEvent, .Receive);
     try sockets.subscribe("move", moveEvent, .Receive);
+    try tuning.register("x", &pid_x);
+    try tuning.register("y", &pid_y);
+    try tuning.register("z", &pid_z);
 }
 
 /// Deinitialize the motion controller.
@@ -117,10 +203,17 @@ pub fn deinit() void {
     sockets.unsubscribe("move");
     sockets.unsubscribe("land");
     sockets.unsubscribe("takeoff");
+    sockets.unsubscribe("status");
+    status_data.deinit(alloc);
     sonar.deinit();
     quad.deinit();
 }
 
+/// Whether the quadcopter is (or is about to be) off the ground.
+pub fn isAirborne() bool {
+    return state != .IDLE;
+}
+
 /// Initiate takeoff of the quadcopter.
 /// This function blocks for a significant amount of time (~2s) while the
 /// quadcopter prepares for takeoff.
@@ -159,7 +252,7 @@ pub fn update() !void {
         return;
 
     // Get altitude from ultrasonic sensor
-    const meas_alt = try sonar.measure() - ALT_OFFSET;
+    meas_alt = try sonar.measure() - ALT_OFFSET;
     if (meas_alt > MAX_ALT) {
         log.warn("altitude too high, landing...", .{});
         land();
@@ -202,7 +295,25 @@ pub fn update() !void {
             quad.roll = @floatCast(pid_x.out);
             quad.pitch = @floatCast(pid_y.out);
         },
-        .TELEOP => {}, // All movement for teleop happens in the move event handler
+        .TELEOP => {
+            // Setpoints are set by the move event handler, this is the failsafe for when the control
+            // stream stops while the drone isn't level (or still climbing/turning); it stays in teleop,
+            // hovering at its current altitude and heading until the stream comes back
+            if (!control_neutral and time.milliTimestamp() - last_move > CONTROL_TIMEOUT) {
+                log.warn("teleop input lost, leveling out", .{});
+                quad.roll = 0.0;
+                quad.pitch = 0.0;
+                climb_rate = 0.0;
+                yaw_rate = 0.0;
+                control_neutral = true;
+            } else {
+                // Rates move the setpoints; the first update after a pause doesn't make up for it
+                const dt = @as(f32, @floatFromInt(@min(time.milliTimestamp() - prev_update, CONTROL_TIMEOUT))) / time.ms_per_s;
+                alt = math.clamp(alt + climb_rate * dt, MIN_TELEOP_ALT, MAX_TELEOP_ALT);
+                // Kept within ±180° however long it turns, quad.zig takes the short way to it
+                quad.yaw = math3d.wrapAngle(quad.yaw + yaw_rate * dt);
+            }
+        },
         .LAND => {
             if (meas_alt < LANDED_ALT) {
                 log.info("landed!", .{});
@@ -7,6 +7,7 @@ const math = std.math;
 const time = std.time;
 
 pub const motion = @import("motion.zig");
+pub const tuning = @import("tuning.zig");
 
 pub const motor = @import("../device/motor.zig");
 pub const mpu = @import("../device/mpu6050.zig");
@@ -40,7 +41,7 @@ var offsets = math3d.Vec3{ 0.0, 0.0, 0.0 }; // Angle offsets set by zeroAttitude
 var prev_update: i64 = 0; // Time of the previous call to update()
 
 // PID controllers for roll, pitch, and yaw
-// TODO: tune params
+// TODO: tune params (they can be tuned live, see tuning.zig)
 var pid_roll = PID.Controller {
     .kp = 0.5,
     .ki = 0.0,
@@ -106,6 +107,9 @@ pub fn init(allocator: std.mem.Allocator) !void {
     alloc = allocator;
     orient_data = try sockets.SocketData.init();
     try sockets.subscribe("orient", orientEvent, .Dispatch);
+    try tuning.register("roll", &pid_roll);
+    try tuning.register("pitch", &pid_pitch);
+    try tuning.register("yaw", &pid_yaw);
 }
 
 /// Deinitialize all quadcopter motors.
@@ -117,6 +121,14 @@ pub fn deinit() void {
     log.info("all motors deinitialized", .{});
 }
 
+/// Get the current thrust of each motor, in the order front left, front right, back left, back right.
+pub fn motorThrusts() [4]f32 {
+    var out: [motors.len]f32 = undefined;
+    for (motors, &out) |m, *thrust|
+        thrust.* = m.thrust;
+    return out;
+}
+
 /// Rev all motors in a sequence.
 /// This function blocks for a significant amount of time (~2s) during the
 /// sequence.
@@ -161,7 +173,8 @@ pub fn update() !void {
 
     pid_roll.update(@floatCast(roll), @floatCast(angles[0]));
     pid_pitch.update(@floatCast(pitch), @floatCast(angles[1]));
-    pid_yaw.update(@floatCast(yaw), @floatCast(angles[2]));
+    // Yaw wraps around at ±180°, so its error is taken the short way (the setpoint is moved next to the measurement)
+    pid_yaw.update(@floatCast(angles[2] + math3d.wrapAngle(yaw - angles[2])), @floatCast(angles[2]));
 
     var thrusts = [_]f32{ 0.0, 0.0, 0.0, 0.0 };
     thrusts[0] = @floatCast(base + pid_roll.out + pid_pitch.out + pid_yaw.out);
@@ -0,0 +1,120 @@
+//! Live tuning of the PID controllers over the websocket.
+//! Controllers are registered under a name by the modules that own them. Clients send `pid_get` to
+//! have the current (`pid`) and compiled-in (`pid_default`) parameters of every controller sent,
+//! and `pid_set` to change the parameters of one; the applied parameters are sent back as `pid`.
+
+const std = @import("std");
+const fmt = std.fmt;
+const log = std.log.scoped(.tuning);
+
+pub const PID = @import("../lib/pid.zig");
+
+pub const sockets = @import("../remote/sockets.zig");
+
+const MAX_CONTROLLERS = 8; // Maximum number of controllers that can be registered
+
+const Entry = struct {
+    name: []const u8,
+    pid: *PID.Controller,
+    default: PID.Params, // Parameters at registration, i.e. the compiled-in ones
+    dirty: bool = false, // Whether the parameters have to be sent
+};
+
+var alloc: std.mem.Allocator = undefined;
+var pid_data: sockets.SocketData = undefined; // SocketData used to send parameters
+var entries = std.BoundedArray(Entry, MAX_CONTROLLERS){};
+var send_defaults = false; // Whether to also send the default parameters of dirty controllers
+
+/// Find a registered controller by name.
+fn find(name: []const u8) ?*Entry {
+    for (entries.slice()) |*entry| {
+        if (std.mem.eql(u8, entry.name, name))
+            return entry;
+    }
+    return null;
+}
+
+/// Send the parameters of a controller.
+fn sendParams(send: sockets.SendFn, event: []const u8, name: []const u8, params: PID.Params) !void {
+    const FmtStr = [fmt.format_float.min_buffer_size]u8;
+    const FmtOpts: fmt.format_float.FormatOptions = .{ .mode = .decimal };
+    const fields = std.meta.fields(PID.Params);
+
+    pid_data.event = event;
+    try pid_data.data.map.put(alloc, "name", name);
+    var bufs: [fields.len]FmtStr = undefined;
+    inline for (fields, 0..) |field, i|
+        try pid_data.data.map.put(alloc, field.name, try fmt.formatFloat(&bufs[i], @field(params, field.name), FmtOpts));
+
+    try send(pid_data);
+}
+
+/// Event dispatcher for the `pid` and `pid_default` events.
+fn pidEvent(send: sockets.SendFn) !void {
+    for (entries.slice()) |*entry| {
+        if (!entry.dirty)
+            continue;
+        try sendParams(send, "pid", entry.name, entry.pid.params());
+        if (send_defaults)
+            try sendParams(send, "pid_default", entry.name, entry.default);
+        entry.dirty = false;
+    }
+    send_defaults = false;
+}
+
+/// Event handler for the `pid_get` event.
+fn pidGetEvent(_: sockets.SocketData) !void {
+    for (entries.slice()) |*entry|
+        entry.dirty = true;
+    send_defaults = true;
+}
+
+/// Event handler for the `pid_set` event.
+/// Parameters missing from the event are kept as they are.
+fn pidSetEvent(event: sockets.SocketData) !void {
+    const map = event.data.map;
+    const name = map.get("name") orelse return error.MissingField;
+    const entry = find(name) orelse {
+        log.warn("no controller named '{s}' to tune", .{ name });
+        return error.UnknownController;
+    };
+
+    var params = entry.pid.params();
+    inline for (std.meta.fields(PID.Params)) |field| {
+        if (map.get(field.name)) |value|
+            @field(params, field.name) = try fmt.parseFloat(f64, value);
+    }
+    if (!params.isValid()) {
+        log.warn("refusing invalid parameters for '{s}'", .{ name });
+        return error.InvalidParams;
+    }
+    entry.pid.tune(params);
+    entry.dirty = true; // Echo the applied parameters back
+    log.info("tuned '{s}' (kp {d}, ki {d}, kd {d}, tau {d}, limits {d} to {d})", .{
+        name, params.kp, params.ki, params.kd, params.tau, params.lim_min, params.lim_max,
+    });
+}
+
+/// Register a controller for tuning, its current parameters are kept as its defaults.
+/// `name` must outlive the registration.
+pub fn register(name: []const u8, pid: *PID.Controller) !void {
+    try entries.append(Entry{ .name = name, .pid = pid, .default = pid.params() });
+}
+
+/// Initialize live tuning.
+pub fn init(allocator: std.mem.Allocator) !void {
+    alloc = allocator;
+    pid_data = try sockets.SocketData.init();
+    try sockets.subscribe("pid", pidEvent, .Dispatch);
+    try sockets.subscribe("pid_get", pidGetEvent, .Receive);
+    try sockets.subscribe("pid_set", pidSetEvent, .Receive);
+}
+
+/// Deinitialize live tuning.
+pub fn deinit() void {
+    sockets.unsubscribe("pid_set");
+    sockets.unsubscribe("pid_get");
+    sockets.unsubscribe("pid");
+    pid_data.deinit(alloc);
+    entries.resize(0) catch unreachable;
+}
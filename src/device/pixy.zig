@@ -49,7 +49,8 @@ const CRP_UINT32: u8 = 0x04;
 const CRP_INT32 = CRP_UINT32;
 
 var alloc: mem.Allocator = undefined;
-var frame_data: sockets.SocketData = undefined; // SocketData used to send frames
+var frame_data: sockets.SocketData = undefined; // SocketData used to send frames to clients without binary support
+var frame_seq: u32 = 0; // Sequence number of the next binary frame
 
 /// Check the return value of a Pixy function and return the appropriate error.
 fn check(res: c_int) PixyError!c_int {
@@ -68,8 +69,9 @@ fn check(res: c_int) PixyError!c_int {
 }
 
 /// Event dispatcher for the `frame` event.
-fn frameEvent(send: sockets.SendFn) !void {
-    frame_data.event = "frame";
+/// Frames are sent as binary messages to the clients that accept them, and as JSON to the others,
+/// so the usual `send` isn't used.
+fn frameEvent(_: sockets.SendFn) !void {
     // Get a raw image frame from the Pixy
     var raw_frame: Frame = undefined;
     try getFrame(&raw_frame);
@@ -86,19 +88,49 @@ fn frameEvent(send: sockets.SendFn) !void {
     //         frame[(FRAME_WIDTH * y + x) * 3 + 3] = 255;
     //     }
     // }
+    // Get any blocks detected by the Pixy
+    var buf: [MAX_BLOCKS]Block = undefined;
+    const blocks = try getBlocks(&buf);
+
+    // Binary message: header, then each block as seven 16-bit fields, then the frame as-is
+    var message: [sockets.Header.SIZE + MAX_BLOCKS * 14 + raw_frame.len]u8 = undefined;
+    const header = sockets.Header{
+        .event = .Frame,
+        .format = .Bayer,
+        .seq = frame_seq,
+        .ts = @floatFromInt(std.time.milliTimestamp()),
+        .width = FRAME_WIDTH,
+        .height = FRAME_HEIGHT,
+        .count = @intCast(blocks.len),
+    };
+    header.write(message[0..sockets.Header.SIZE]);
+    var len: usize = sockets.Header.SIZE;
+    for (blocks) |block| {
+        const fields = [_]u16{ block.type, block.signature, block.x, block.y, block.width, block.height, @bitCast(block.angle) };
+        for (fields) |field| {
+            mem.writeInt(u16, message[len..][0..2], field, .little);
+            len += 2;
+        }
+    }
+    @memcpy(message[len..][0..raw_frame.len], &raw_frame);
+    len += raw_frame.len;
+    try sockets.sendBinary(message[0..len]);
+    frame_seq +%= 1;
+
+    if (sockets.fallbackClients() == 0)
+        return;
+    frame_data.event = "frame";
     // Yes, I am sending base64 encoded camera data over a websocket
     // No, you will not complain about it
+    // (Only to clients that don't accept binary messages, these days)
     var encoded: [base64.calcSize(raw_frame.len)]u8 = undefined;
     _ = base64.encode(&encoded, &raw_frame);
     try frame_data.data.map.put(alloc, "raw", &encoded);
-    // Get any blocks detected by the Pixy
-    var buf: [MAX_BLOCKS]Block = undefined;
-    const blocks = try getBlocks(&buf);
     var blocks_str = std.ArrayList(u8).init(alloc);
     defer blocks_str.deinit();
     try std.json.stringify(blocks, .{}, blocks_str.writer());
     try frame_data.data.map.put(alloc, "blocks", blocks_str.items);
-    try send(frame_data);
+    try sockets.sendFallback(frame_data);
 }
 
 /// Initialize the Pixy camera.
@@ -6,6 +6,11 @@ const time = std.time;
 
 pub const Vec3 = @Vector(3, f32);
 
+/// Wrap an angle, in degrees, into [-180, 180).
+pub fn wrapAngle(deg: f32) f32 {
+    return @mod(deg + 180.0, 360.0) - 180.0;
+}
+
 pub const Quaternion = struct {
     w: f32 = 1.0,
     x: f32 = 0.0,
@@ -172,3 +177,10 @@ test "quaternion to euler" {
             try std.testing.expectApproxEqAbs(euler[i], q_euler[i], 0.01);
     }
 }
+
+test "wrap angle" {
+    const angles = [_]f32{ 0.0, 90.0, 180.0, -180.0, 270.0, -270.0, 725.0, -3.5 };
+    const wrapped = [_]f32{ 0.0, 90.0, -180.0, -180.0, -90.0, 90.0, 5.0, -3.5 };
+    for (angles, wrapped) |angle, expected|
+        try std.testing.expectApproxEqAbs(expected, wrapAngle(angle), 0.001);
+}
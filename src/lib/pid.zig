@@ -4,13 +4,32 @@
 const std = @import("std");
 const testing = std.testing;
 
+// Tunable parameters of a controller.
+pub const Params = struct {
+    kp: f64,
+    ki: f64,
+    kd: f64,
+    tau: f64,
+    lim_min: f64,
+    lim_max: f64,
+
+    /// Whether the parameters make a usable controller.
+    pub fn isValid(self: @This()) bool {
+        inline for (std.meta.fields(@This())) |field| {
+            if (!std.math.isFinite(@field(self, field.name)))
+                return false;
+        }
+        return self.tau > 0.0 and self.lim_min <= self.lim_max;
+    }
+};
+
 pub const Controller = struct {
-    kp: f64, // kP gain (read-only after init)
-    ki: f64, // kI gain (read-only after init)
-    kd: f64, // kD gain (read-only after init)
-    tau: f64, // Derivative low-pass filter time constant (read-only after init)
-    lim_min: f64, // Output lower limit (read-only after init)
-    lim_max: f64, // Output upper limit (read-only after init)
+    kp: f64, // kP gain (read-only after init, see tune())
+    ki: f64, // kI gain (read-only after init, see tune())
+    kd: f64, // kD gain (read-only after init, see tune())
+    tau: f64, // Derivative low-pass filter time constant (read-only after init, see tune())
+    lim_min: f64, // Output lower limit (read-only after init, see tune())
+    lim_max: f64, // Output upper limit (read-only after init, see tune())
     out: f64 = 0.0, // Controller output (read-only)
     // -- private --
     integrator: f64 = 0.0,
@@ -53,6 +72,30 @@ pub const Controller = struct {
         self.prev_measurement = measurement;
         self.prev_time = std.time.microTimestamp();
     }
+
+    /// Get the current parameters of the controller.
+    pub fn params(self: *const @This()) Params {
+        return Params{
+            .kp = self.kp,
+            .ki = self.ki,
+            .kd = self.kd,
+            .tau = self.tau,
+            .lim_min = self.lim_min,
+            .lim_max = self.lim_max,
+        };
+    }
+
+    /// Replace the parameters of the controller, keeping its state.
+    /// The integrator is clamped to the new limits so that lowering them takes effect immediately.
+    pub fn tune(self: *@This(), p: Params) void {
+        self.kp = p.kp;
+        self.ki = p.ki;
+        self.kd = p.kd;
+        self.tau = p.tau;
+        self.lim_min = p.lim_min;
+        self.lim_max = p.lim_max;
+        self.integrator = std.math.clamp(self.integrator, p.lim_min, p.lim_max);
+    }
 };
 
 /// Update a PID controller num `times` (testing helper).
@@ -97,3 +140,28 @@ test "kp term with limiting" {
     updateXTimes(&pid, 0.0, -5.0, 50);
     try testing.expectApproxEqRel(1.0, pid.out, 0.01);
 }
+
+test "tune" {
+    var pid = Controller {
+        .kp = 0.1,
+        .ki = 0.0,
+        .kd = 0.0,
+        .tau = 1.0,
+        .lim_min = -1.0,
+        .lim_max = 1.0,
+    };
+    updateXTimes(&pid, 0.0, 1.0, 50);
+    try testing.expectApproxEqRel(-0.1, pid.out, 0.01);
+    var p = pid.params();
+    p.kp = 0.2;
+    try testing.expect(p.isValid());
+    pid.tune(p);
+    updateXTimes(&pid, 0.0, 1.0, 50);
+    try testing.expectApproxEqRel(-0.2, pid.out, 0.01);
+
+    p.lim_min = 2.0;
+    try testing.expect(!p.isValid());
+    p.lim_min = -1.0;
+    p.tau = 0.0;
+    try testing.expect(!p.isValid());
+}
@@ -7,6 +7,7 @@ const time = std.time;
 // This is done in all files.
 
 pub const motion = @import("control/motion.zig");
+pub const tuning = @import("control/tuning.zig");
 
 pub const pixy = @import("device/pixy.zig");
 
@@ -14,11 +15,18 @@ pub const err = @import("lib/err.zig");
 pub const pigpio = @cImport({ @cInclude("pigpio.h"); });
 pub const signal = @import("lib/signal.zig");
 
+pub const logs = @import("remote/logs.zig");
+pub const pilot = @import("remote/pilot.zig");
 pub const server = @import("remote/server.zig");
 pub const sockets = @import("remote/sockets.zig");
 
 pub const drone = @import("drone.zig");
 
+// Log output is also forwarded to clients, see logs.zig
+pub const std_options: std.Options = .{
+    .logFn = logs.logFn,
+};
+
 pub fn main() !void {
     // killHost() is deferred at the start of main() so it is called last,
     // and will only kill the host if it has been requested to do so
@@ -39,6 +47,11 @@ pub fn main() !void {
     // This is done now so that other modules can subscribe to websocket events
     try server.start(alloc);
     defer server.stop();
+    try logs.init(alloc);
+    defer logs.deinit();
+    // Only one client at a time may control the drone, see pilot.zig
+    try pilot.init(alloc);
+    defer pilot.deinit();
     // Subscribe to kill and shutdown events so the drone/system can be safely shut down
     try sockets.subscribe("kill", killEvent, .Receive);
     defer sockets.unsubscribe("kill");
@@ -59,6 +72,8 @@ pub fn main() !void {
         return e;
     };
     defer pixy.deinit();
+    try tuning.init(alloc);
+    defer tuning.deinit();
     try motion.init(alloc);
     defer motion.deinit();
     // -- more hardware initialization can go here --
@@ -90,5 +105,10 @@ fn killEvent(_: sockets.SocketData) !void {
 
 /// Event receiver for the 'shutdown' event.
 fn shutdownEvent(_: sockets.SocketData) !void {
+    // Powering off the host mid-flight would drop the drone out of the sky, `kill` is for emergencies
+    if (motion.isAirborne()) {
+        log.warn("refusing to shut down while airborne, land first", .{});
+        return;
+    }
     drone.shutdownHost();
 }
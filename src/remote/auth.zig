@@ -0,0 +1,208 @@
+//! Authentication of clients.
+//! Clients exchange the pre-shared passphrase for a session token (`POST /auth`, see server.zig), which
+//! they then pass when opening the websocket (`/ws?token=<token>`); connections without a valid token
+//! are refused, and connections are closed once their session expires (see sockets.zig).
+//! Guessing is slowed down by refusing logins from a client for a while after it got the passphrase wrong.
+//! The passphrase is read from the `NWDRONE_PASSPHRASE` environment variable, or generated (and printed)
+//! for the run if it isn't set.
+
+const std = @import("std");
+const crypto = std.crypto;
+const fmt = std.fmt;
+const log = std.log.scoped(.auth);
+const mem = std.mem;
+const net = std.net;
+const testing = std.testing;
+const time = std.time;
+const Sha256 = crypto.hash.sha2.Sha256;
+
+pub const TOKEN_LEN = 32; // Length of tokens, in hex characters
+pub const TOKEN_TTL = 12 * time.ms_per_hour; // Time a token is valid for after being issued, in ms
+const MAX_SESSIONS = 32; // Maximum number of sessions, logging in once more ends the one expiring first
+const LOGIN_COOLDOWN = 1000; // Time a client is refused for after a wrong passphrase, in ms
+const MAX_FAILURES = 32; // Maximum number of clients whose last wrong passphrase is remembered
+const PASSPHRASE_ENV = "NWDRONE_PASSPHRASE"; // Environment variable the passphrase is read from
+
+pub const Session = struct {
+    token: [TOKEN_LEN]u8,
+    expires: i64, // Time the session expires at, in ms since the epoch
+};
+
+pub const LoginError = error{
+    WrongPassphrase,
+    TooManyAttempts, // The client got the passphrase wrong too recently
+};
+
+// Last wrong passphrase given by a client.
+const Failure = struct {
+    host: [16]u8, // Address of the client, see `host()`
+    time: i64, // Time it was given at, in ms since the epoch
+};
+
+var passphrase_hash: [Sha256.digest_length]u8 = undefined;
+// Sessions are created and checked from the server threads
+var mutex = std.Thread.Mutex{};
+var sessions = [_]?Session{ null } ** MAX_SESSIONS;
+var failures = [_]?Failure{ null } ** MAX_FAILURES;
+
+/// Get the time a session expires at, for finding the one to replace.
+fn expiry(session: ?Session) i64 {
+    return if (session) |s| s.expires else std.math.minInt(i64);
+}
+
+/// Get the part of an address identifying a client, its IP (without the port, which changes with every connection).
+fn host(address: net.Address) [16]u8 {
+    var buf = [_]u8{ 0 } ** 16;
+    switch (address.any.family) {
+        std.posix.AF.INET => @memcpy(buf[0..4], mem.asBytes(&address.in.sa.addr)),
+        std.posix.AF.INET6 => buf = address.in6.sa.addr,
+        else => {},
+    }
+    return buf;
+}
+
+/// Get the time a failure was recorded at, for finding the one to replace.
+fn failedAt(failure: ?Failure) i64 {
+    return if (failure) |f| f.time else std.math.minInt(i64);
+}
+
+/// Initialize authentication, reading the passphrase.
+/// This must be done before log output is forwarded to clients, so a generated passphrase is only printed.
+pub fn init(alloc: mem.Allocator) !void {
+    const passphrase = std.process.getEnvVarOwned(alloc, PASSPHRASE_ENV) catch |err| switch (err) {
+        error.EnvironmentVariableNotFound => {
+            var bytes: [6]u8 = undefined;
+            crypto.random.bytes(&bytes);
+            var generated: [bytes.len * 2]u8 = undefined;
+            _ = fmt.bufPrint(&generated, "{}", .{ fmt.fmtSliceHexLower(&bytes) }) catch unreachable;
+            log.warn("{s} is not set, the passphrase for this run is '{s}'", .{ PASSPHRASE_ENV, generated });
+            Sha256.hash(&generated, &passphrase_hash, .{});
+            return;
+        },
+        else => return err,
+    };
+    defer alloc.free(passphrase);
+    if (passphrase.len == 0) {
+        log.err("{s} is empty", .{ PASSPHRASE_ENV });
+        return error.EmptyPassphrase;
+    }
+    Sha256.hash(passphrase, &passphrase_hash, .{});
+    log.info("passphrase read from {s}", .{ PASSPHRASE_ENV });
+}
+
+/// Exchange the passphrase for a new session.
+/// `client` is the address the passphrase was sent from, used to refuse it for a while if it is wrong.
+pub fn login(client: net.Address, passphrase: []const u8) LoginError!Session {
+    const client_host = host(client);
+    const now = time.milliTimestamp();
+    mutex.lock();
+    defer mutex.unlock();
+
+    var failure: ?*?Failure = null; // Slot of the client's last failure, if remembered
+    for (&failures) |*slot| {
+        const f = slot.* orelse continue;
+        if (mem.eql(u8, &f.host, &client_host))
+            failure = slot;
+    }
+    if (failure) |slot| {
+        if (now - slot.*.?.time < LOGIN_COOLDOWN)
+            return error.TooManyAttempts;
+    }
+
+    var hash: [Sha256.digest_length]u8 = undefined;
+    Sha256.hash(passphrase, &hash, .{});
+    // Compared in constant time, so how long a refusal takes says nothing about the passphrase
+    if (!crypto.utils.timingSafeEql([Sha256.digest_length]u8, hash, passphrase_hash)) {
+        // Remember the failure in the client's slot, or else the one of the oldest failure
+        const slot = failure orelse blk: {
+            var oldest = &failures[0];
+            for (&failures) |*f| {
+                if (failedAt(f.*) < failedAt(oldest.*))
+                    oldest = f;
+            }
+            break :blk oldest;
+        };
+        slot.* = .{ .host = client_host, .time = now };
+        return error.WrongPassphrase;
+    }
+    if (failure) |slot|
+        slot.* = null;
+
+    var bytes: [TOKEN_LEN / 2]u8 = undefined;
+    crypto.random.bytes(&bytes);
+    var session = Session{ .token = undefined, .expires = now + TOKEN_TTL };
+    _ = fmt.bufPrint(&session.token, "{}", .{ fmt.fmtSliceHexLower(&bytes) }) catch unreachable;
+
+    // Take a free slot, or else the session expiring first
+    var slot: usize = 0;
+    for (sessions, 0..) |s, i| {
+        if (expiry(s) < expiry(sessions[slot]))
+            slot = i;
+    }
+    sessions[slot] = session;
+    return session;
+}
+
+/// Check a token.
+/// Returns the time its session expires at (in ms since the epoch), or null if it isn't valid (anymore).
+pub fn validate(token: []const u8) ?i64 {
+    if (token.len != TOKEN_LEN)
+        return null;
+    mutex.lock();
+    defer mutex.unlock();
+    const now = time.milliTimestamp();
+    for (&sessions) |*slot| {
+        const session = slot.* orelse continue;
+        if (session.expires <= now) {
+            slot.* = null;
+            continue;
+        }
+        if (crypto.utils.timingSafeEql([TOKEN_LEN]u8, session.token, token[0..TOKEN_LEN].*))
+            return session.expires;
+    }
+    return null;
+}
+
+/// Revoke a token, ending its session.
+/// Connections already opened with it stay open until the session would have expired.
+pub fn revoke(token: []const u8) void {
+    mutex.lock();
+    defer mutex.unlock();
+    for (&sessions) |*slot| {
+        const session = slot.* orelse continue;
+        if (mem.eql(u8, &session.token, token))
+            slot.* = null;
+    }
+}
+
+test "login and validate" {
+    Sha256.hash("hunter2", &passphrase_hash, .{});
+    defer sessions = [_]?Session{ null } ** MAX_SESSIONS;
+    defer failures = [_]?Failure{ null } ** MAX_FAILURES;
+    const client = try net.Address.parseIp4("10.0.0.2", 50000);
+
+    try testing.expectError(error.WrongPassphrase, login(client, "hunter3"));
+    failures[0].?.time -= LOGIN_COOLDOWN; // Skip the cooldown
+    const session = try login(client, "hunter2");
+    try testing.expectEqual(session.expires, validate(&session.token).?);
+    try testing.expect(validate("0" ** TOKEN_LEN) == null);
+    try testing.expect(validate(session.token[1..]) == null);
+
+    revoke(&session.token);
+    try testing.expect(validate(&session.token) == null);
+}
+
+test "login cooldown" {
+    Sha256.hash("hunter2", &passphrase_hash, .{});
+    defer sessions = [_]?Session{ null } ** MAX_SESSIONS;
+    defer failures = [_]?Failure{ null } ** MAX_FAILURES;
+    const client = try net.Address.parseIp4("10.0.0.2", 50000);
+    const other = try net.Address.parseIp4("10.0.0.3", 50000);
+
+    try testing.expectError(error.WrongPassphrase, login(client, "hunter3"));
+    // Refused even with the right passphrase, from any port
+    try testing.expectError(error.TooManyAttempts, login(client, "hunter2"));
+    try testing.expectError(error.TooManyAttempts, login(try net.Address.parseIp4("10.0.0.2", 50001), "hunter2"));
+    // Other clients aren't affected
+    _ = try login(other, "hunter2");
+}
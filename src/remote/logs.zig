@@ -0,0 +1,127 @@
+//! Forwards log output to the websocket.
+//! `logFn` is installed as the log function (see `std_options` in main.zig), so everything logged
+//! with `std.log` is still printed as usual, and also buffered to be sent as `log` events on the
+//! next dispatch.
+
+const std = @import("std");
+const fmt = std.fmt;
+const time = std.time;
+
+pub const sockets = @import("sockets.zig");
+
+const MAX_PENDING = 32; // Maximum number of messages buffered between dispatches, the oldest are dropped first
+const MAX_MESSAGE_LEN = 256; // Messages longer than this are truncated, in bytes
+
+const Entry = struct {
+    level: std.log.Level,
+    scope: []const u8,
+    ts: i64, // Time the message was logged, in ms since the epoch
+    buf: [MAX_MESSAGE_LEN]u8,
+    len: usize,
+};
+
+var alloc: std.mem.Allocator = undefined;
+var log_data: sockets.SocketData = undefined; // SocketData used to send log messages
+// Messages can be logged from any thread (e.g. websocket handlers), so the buffer is locked
+var mutex = std.Thread.Mutex{};
+var pending: [MAX_PENDING]Entry = undefined; // Ring buffer of messages to send
+var head: usize = 0; // Index of the oldest message in `pending`
+var count: usize = 0; // Number of messages in `pending`
+var dropped: usize = 0; // Number of messages dropped since the last dispatch
+var enabled = false; // Whether messages are buffered, only once the dispatcher is registered
+
+/// Log function forwarding messages to the websocket, in addition to the default output.
+pub fn logFn(
+    comptime level: std.log.Level,
+    comptime scope: @Type(.EnumLiteral),
+    comptime format: []const u8,
+    args: anytype,
+) void {
+    std.log.defaultLog(level, scope, format, args);
+    // The websocket's own chatter (e.g. a line for every received event) would drown everything else
+    if (scope == .sockets and @intFromEnum(level) > @intFromEnum(std.log.Level.warn))
+        return;
+
+    mutex.lock();
+    defer mutex.unlock();
+    if (!enabled)
+        return;
+    if (count == MAX_PENDING) {
+        head = (head + 1) % MAX_PENDING;
+        count -= 1;
+        dropped += 1;
+    }
+    const entry = &pending[(head + count) % MAX_PENDING];
+    entry.level = level;
+    entry.scope = @tagName(scope);
+    entry.ts = time.milliTimestamp();
+    const message = fmt.bufPrint(&entry.buf, format, args) catch blk: {
+        // The buffer was filled up to its end, mark it as truncated
+        @memcpy(entry.buf[MAX_MESSAGE_LEN - 3 ..], "...");
+        break :blk entry.buf[0..];
+    };
+    entry.len = message.len;
+    count += 1;
+}
+
+/// Send a single log message.
+fn sendMessage(send: sockets.SendFn, level: []const u8, scope: []const u8, ts: i64, message: []const u8) !void {
+    var ts_buf: [24]u8 = undefined;
+
+    log_data.event = "log";
+    try log_data.data.map.put(alloc, "level", level);
+    try log_data.data.map.put(alloc, "scope", scope);
+    try log_data.data.map.put(alloc, "message", message);
+    try log_data.data.map.put(alloc, "ts", try fmt.bufPrint(&ts_buf, "{}", .{ ts }));
+
+    try send(log_data);
+}
+
+/// Event dispatcher for the `log` event.
+fn logEvent(send: sockets.SendFn) !void {
+    // Take the messages out first, sending may log (and the lock isn't reentrant)
+    var entries: [MAX_PENDING]Entry = undefined;
+    var n: usize = 0;
+    var lost: usize = 0;
+    {
+        mutex.lock();
+        defer mutex.unlock();
+        while (n < count) : (n += 1)
+            entries[n] = pending[(head + n) % MAX_PENDING];
+        head = 0;
+        count = 0;
+        lost = dropped;
+        dropped = 0;
+    }
+
+    if (lost > 0) {
+        var buf: [64]u8 = undefined;
+        const message = try fmt.bufPrint(&buf, "{} message(s) dropped, too many to forward", .{ lost });
+        try sendMessage(send, std.log.Level.warn.asText(), "logs", time.milliTimestamp(), message);
+    }
+    for (entries[0..n]) |*entry|
+        try sendMessage(send, entry.level.asText(), entry.scope, entry.ts, entry.buf[0..entry.len]);
+}
+
+/// Initialize log forwarding.
+/// Messages logged before this are only printed.
+pub fn init(allocator: std.mem.Allocator) !void {
+    alloc = allocator;
+    log_data = try sockets.SocketData.init();
+    try sockets.subscribe("log", logEvent, .Dispatch);
+    mutex.lock();
+    defer mutex.unlock();
+    enabled = true;
+}
+
+/// Deinitialize log forwarding.
+pub fn deinit() void {
+    {
+        mutex.lock();
+        defer mutex.unlock();
+        enabled = false;
+        count = 0;
+    }
+    sockets.unsubscribe("log");
+    log_data.deinit(alloc);
+}
@@ -0,0 +1,267 @@
+//! Arbitrates control of the drone between clients.
+//! One client at a time is the pilot, and only its control events (see `CONTROL_EVENTS`) are passed on
+//! to receivers; everyone else is an observer. Observers can ask the pilot for control, which the pilot
+//! grants or denies, or take it over without asking in an emergency. While nobody is in control, the first
+//! client to send a control event takes it.
+//! Clients are told apart by the session the websocket stamps on everything they send (see `sockets.Handler`).
+
+const std = @import("std");
+const log = std.log.scoped(.pilot);
+const mem = std.mem;
+const time = std.time;
+
+pub const sockets = @import("sockets.zig");
+
+const MAX_NAME_LEN = 32; // Names longer than this are truncated, in bytes
+const RECONNECT_GRACE = 5000; // Time the pilot keeps control while disconnected, so a dropped link can be re-established, in ms
+
+// Events only the pilot may send
+const CONTROL_EVENTS = [_][]const u8{ "move", "takeoff", "land", "kill", "shutdown", "pid_set" };
+
+const Client = struct {
+    session: [sockets.SESSION_LEN]u8,
+    name_buf: [MAX_NAME_LEN]u8,
+    name_len: usize,
+
+    /// Initialize a client from its session, which must be `SESSION_LEN` long, and name.
+    fn init(session: []const u8, client_name: []const u8) Client {
+        var self = Client{
+            .session = undefined,
+            .name_buf = undefined,
+            .name_len = @min(client_name.len, MAX_NAME_LEN),
+        };
+        @memcpy(&self.session, session);
+        @memcpy(self.name_buf[0..self.name_len], client_name[0..self.name_len]);
+        return self;
+    }
+
+    /// Get the client that sent some data.
+    fn from(data: sockets.SocketData) !Client {
+        const session = data.data.map.get("session") orelse return error.NoSession;
+        if (session.len != sockets.SESSION_LEN)
+            return error.NoSession;
+        return init(session, data.data.map.get("name") orelse "");
+    }
+
+    /// Check whether this client is the one with a session.
+    fn is(self: *const Client, session: []const u8) bool {
+        return mem.eql(u8, &self.session, session);
+    }
+
+    /// Get the public part of the client's session.
+    fn id(self: *const Client) []const u8 {
+        return self.session[0..sockets.SESSION_ID_LEN];
+    }
+
+    /// Get the name the client gave itself, possibly empty.
+    fn name(self: *const Client) []const u8 {
+        return self.name_buf[0..self.name_len];
+    }
+};
+
+var alloc: mem.Allocator = undefined;
+var pilot_data: sockets.SocketData = undefined; // SocketData used to send the pilot state
+// Receivers and the guard run on the websocket threads, the dispatcher on the main thread
+var mutex = std.Thread.Mutex{};
+var pilot: ?Client = null; // Client in control
+var requester: ?Client = null; // Client asking the pilot for control
+var pilot_lost: ?i64 = null; // Time the pilot was first seen disconnected, null while it is connected
+
+/// Guard refusing control events from anyone but the pilot.
+/// If nobody is in control, the client sending the event takes it.
+fn guard(session: []const u8, event: []const u8) bool {
+    for (CONTROL_EVENTS) |control| {
+        if (!mem.eql(u8, control, event))
+            continue;
+        mutex.lock();
+        defer mutex.unlock();
+        if (pilot) |*current| {
+            if (current.is(session))
+                return true;
+            log.warn("refused '{s}' from an observer", .{ event });
+            return false;
+        }
+        // The guard doesn't get the client's name, so it is shown by its id
+        pilot = Client.init(session, "");
+        pilot_lost = null;
+        if (requester) |*current| {
+            if (current.is(session))
+                requester = null;
+        }
+        log.info("{s} took control with '{s}', nobody was in control", .{ pilot.?.id(), event });
+        return true;
+    }
+    return true;
+}
+
+/// Check whether a session is the pilot's.
+/// The lock must be held.
+fn isPilot(session: []const u8) bool {
+    if (pilot) |*current|
+        return current.is(session);
+    return false;
+}
+
+/// Hand control to the requester, if any.
+/// The lock must be held.
+fn handOver() void {
+    pilot = requester;
+    requester = null;
+    pilot_lost = null;
+    if (pilot) |*current|
+        log.info("{s} is now in control", .{ current.name() });
+}
+
+/// Event receiver for the `pilot_request` event.
+fn requestEvent(data: sockets.SocketData) !void {
+    const client = try Client.from(data);
+    mutex.lock();
+    defer mutex.unlock();
+    if (pilot) |*current| {
+        if (current.is(&client.session))
+            return;
+        requester = client;
+        log.info("{s} asked {s} for control", .{ client.name(), current.name() });
+        return;
+    }
+    // Nobody is in control, no need to ask
+    requester = client;
+    handOver();
+}
+
+/// Event receiver for the `pilot_release` event.
+/// The requester can also use it to withdraw its request.
+fn releaseEvent(data: sockets.SocketData) !void {
+    const client = try Client.from(data);
+    mutex.lock();
+    defer mutex.unlock();
+    if (requester) |*current| {
+        if (current.is(&client.session)) {
+            requester = null;
+            return;
+        }
+    }
+    if (!isPilot(&client.session))
+        return;
+    log.info("{s} released control", .{ client.name() });
+    handOver();
+}
+
+/// Event receiver for the `pilot_grant` event.
+fn grantEvent(data: sockets.SocketData) !void {
+    const client = try Client.from(data);
+    mutex.lock();
+    defer mutex.unlock();
+    if (!isPilot(&client.session) or requester == null)
+        return;
+    handOver();
+}
+
+/// Event receiver for the `pilot_deny` event.
+fn denyEvent(data: sockets.SocketData) !void {
+    const client = try Client.from(data);
+    mutex.lock();
+    defer mutex.unlock();
+    if (!isPilot(&client.session))
+        return;
+    if (requester) |*current|
+        log.info("{s} denied control to {s}", .{ client.name(), current.name() });
+    requester = null;
+}
+
+/// Event receiver for the `pilot_takeover` event.
+fn takeoverEvent(data: sockets.SocketData) !void {
+    const client = try Client.from(data);
+    mutex.lock();
+    defer mutex.unlock();
+    if (isPilot(&client.session))
+        return;
+    log.warn("{s} took control by force", .{ client.name() });
+    pilot = client;
+    requester = null;
+    pilot_lost = null;
+}
+
+/// Event dispatcher for the `pilot` event.
+fn pilotEvent(send: sockets.SendFn) !void {
+    // Take the state out first, sending may log (and the lock isn't reentrant)
+    var current: ?Client = null;
+    var asking: ?Client = null;
+    {
+        mutex.lock();
+        defer mutex.unlock();
+        if (pilot) |*p| {
+            const now = time.milliTimestamp();
+            if (sockets.connected(&p.session)) {
+                pilot_lost = null;
+            } else if (pilot_lost == null) {
+                pilot_lost = now;
+            } else if (now - pilot_lost.? > RECONNECT_GRACE) {
+                log.warn("{s} lost control, disconnected", .{ p.name() });
+                pilot = null;
+                pilot_lost = null;
+            }
+        }
+        if (requester) |*r| {
+            if (!sockets.connected(&r.session))
+                requester = null;
+        }
+        current = pilot;
+        asking = requester;
+    }
+
+    pilot_data.event = "pilot";
+    try pilot_data.data.map.put(alloc, "pilot", if (current) |*p| p.id() else "");
+    try pilot_data.data.map.put(alloc, "pilot_name", if (current) |*p| p.name() else "");
+    try pilot_data.data.map.put(alloc, "requester", if (asking) |*r| r.id() else "");
+    try pilot_data.data.map.put(alloc, "requester_name", if (asking) |*r| r.name() else "");
+    try send(pilot_data);
+}
+
+/// Initialize control arbitration.
+/// Until then, control events from any client are passed on.
+pub fn init(allocator: mem.Allocator) !void {
+    alloc = allocator;
+    pilot_data = try sockets.SocketData.init();
+    try sockets.subscribe("pilot_request", requestEvent, .Receive);
+    try sockets.subscribe("pilot_release", releaseEvent, .Receive);
+    try sockets.subscribe("pilot_grant", grantEvent, .Receive);
+    try sockets.subscribe("pilot_deny", denyEvent, .Receive);
+    try sockets.subscribe("pilot_takeover", takeoverEvent, .Receive);
+    try sockets.subscribe("pilot", pilotEvent, .Dispatch);
+    sockets.setGuard(guard);
+}
+
+/// Deinitialize control arbitration.
+pub fn deinit() void {
+    sockets.setGuard(null);
+    sockets.unsubscribe("pilot_request");
+    sockets.unsubscribe("pilot_release");
+    sockets.unsubscribe("pilot_grant");
+    sockets.unsubscribe("pilot_deny");
+    sockets.unsubscribe("pilot_takeover");
+    sockets.unsubscribe("pilot");
+    pilot_data.deinit(alloc);
+}
+
+test "first control event takes control" {
+    const a = "a" ** sockets.SESSION_LEN;
+    const b = "b" ** sockets.SESSION_LEN;
+    pilot = null;
+    requester = null;
+    defer pilot = null;
+
+    // Anything but control events goes through without taking control
+    try std.testing.expect(guard(b, "pilot_request"));
+    try std.testing.expect(pilot == null);
+    // Nobody is in control, the first to fly takes it
+    try std.testing.expect(guard(a, "move"));
+    try std.testing.expect(pilot.?.is(a));
+    try std.testing.expect(guard(a, "land"));
+    try std.testing.expect(!guard(b, "takeoff"));
+    try std.testing.expect(pilot.?.is(a));
+    // Once released, anyone can again
+    pilot = null;
+    try std.testing.expect(guard(b, "shutdown"));
+    try std.testing.expect(pilot.?.is(b));
+}
@@ -6,6 +6,7 @@ const fs = std.fs;
 const log = std.log.scoped(.server);
 const mem = std.mem;
 
+pub const auth = @import("auth.zig");
 pub const sockets = @import("sockets.zig");
 
 const ADDRESS = "0.0.0.0"; // IPv4 address to bind to
@@ -56,9 +57,80 @@ fn staticFile(req: *httpz.Request, res: *httpz.Response) !void {
     }
 }
 
+// Body of `POST /auth` requests.
+const LoginRequest = struct {
+    passphrase: []const u8,
+};
+
+/// Get the token passed with a request, as `Authorization: Bearer <token>`.
+fn bearer(req: *httpz.Request) []const u8 {
+    const header = req.header("authorization") orelse return "";
+    const prefix = "Bearer ";
+    return if (mem.startsWith(u8, header, prefix)) header[prefix.len..] else "";
+}
+
+/// Login handler, exchanging the passphrase for a session token.
+/// The auth endpoints don't allow cross-origin requests, so only the app served by the drone can use them.
+/// Answers `{"token": ..., "ttl": ...}`, where `ttl` is the time left before the token expires, in ms.
+fn login(req: *httpz.Request, res: *httpz.Response) !void {
+    const body = (req.json(LoginRequest) catch null) orelse {
+        res.status = 400;
+        return res.json(.{ .@"error" = "expected {\"passphrase\": \"...\"}" }, .{});
+    };
+    const session = auth.login(req.address, body.passphrase) catch |err| switch (err) {
+        error.WrongPassphrase => {
+            log.warn("refused login, wrong passphrase", .{});
+            res.status = 401;
+            return res.json(.{ .@"error" = "wrong passphrase" }, .{});
+        },
+        error.TooManyAttempts => {
+            res.status = 429;
+            return res.json(.{ .@"error" = "too many attempts, try again in a moment" }, .{});
+        },
+    };
+    log.info("new session", .{});
+    try res.json(.{ .token = &session.token, .ttl = session.expires - std.time.milliTimestamp() }, .{});
+}
+
+/// Session check handler, telling clients whether their token is still valid.
+/// Answers `{"ttl": ...}` like `login()` if it is.
+fn check(req: *httpz.Request, res: *httpz.Response) !void {
+    const expires = auth.validate(bearer(req)) orelse {
+        res.status = 401;
+        return res.json(.{ .@"error" = "invalid or expired session" }, .{});
+    };
+    try res.json(.{ .ttl = expires - std.time.milliTimestamp() }, .{});
+}
+
+/// Logout handler, revoking the token.
+fn logout(req: *httpz.Request, res: *httpz.Response) !void {
+    auth.revoke(bearer(req));
+    res.status = 204;
+}
+
 /// Websocket upgrade handler.
+/// Clients must pass a valid session token with `/ws?token=<token>` (see `login()`).
+/// Clients connecting with `binary=1` are sent large streams (camera frames) as binary messages,
+/// and identify themselves with `session=<id>` (`sockets.SESSION_LEN` hex characters).
 fn ws(req: *httpz.Request, res: *httpz.Response) !void {
-    if (!(try httpz.upgradeWebsocket(sockets.Handler, req, res, sockets.Context{ .alloc = alloc }))) {
+    const query = try req.query();
+    const expires = auth.validate(query.get("token") orelse "") orelse {
+        res.status = 401;
+        res.body = "Invalid or expired session";
+        return;
+    };
+    var ctx = sockets.Context{ .alloc = alloc, .expires = expires };
+    ctx.binary = if (query.get("binary")) |value| mem.eql(u8, value, "1") else false;
+    const session = query.get("session") orelse "";
+    if (session.len == sockets.SESSION_LEN) {
+        @memcpy(&ctx.session, session);
+    } else {
+        // Clients that don't identify themselves get a session of their own, they just won't know it
+        var bytes: [sockets.SESSION_LEN / 2]u8 = undefined;
+        std.crypto.random.bytes(&bytes);
+        _ = std.fmt.bufPrint(&ctx.session, "{}", .{ std.fmt.fmtSliceHexLower(&bytes) }) catch unreachable;
+    }
+    if (!(try httpz.upgradeWebsocket(sockets.Handler, req, res, ctx))) {
         res.status = 400;
         res.body = "Invalid websocket handshake";
         return;
@@ -78,7 +150,11 @@ pub fn start(allocator: mem.Allocator) !void {
 
     router.get("/*", staticFile);
     router.get("/ws", ws);
+    router.post("/auth", login);
+    router.get("/auth", check);
+    router.delete("/auth", logout);
 
+    try auth.init(alloc);
     sockets.init(alloc);
 
     const thread = try server.listenInNewThread();
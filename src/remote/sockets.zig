@@ -13,6 +13,9 @@ const websocket = httpz.websocket;
 
 const MIN_SOCKET_UPDATE_RATE = 2; // Minimum rate at which to update the websocket, in Hz
 const MIN_SOCKET_UPDATE_INTERVAL = time.ms_per_s / MIN_SOCKET_UPDATE_RATE;
+pub const SESSION_LEN = 32; // Length of session ids, in hex characters
+pub const SESSION_ID_LEN = 8; // Length of the public part of session ids (their start), in hex characters
+const CLOSE_POLICY_VIOLATION = 1008; // Close code for connections whose session expired, so clients know to log in again
 
 // The type for data sent/received over the websocket.
 // An equivalent type is defined in the client code (/www/src/helpers/socket.ts).
@@ -37,6 +40,45 @@ pub const SocketData = struct {
     }
 };
 
+// Events that can be sent as binary messages, the value is the id sent in the header.
+pub const BinaryEvent = enum(u8) {
+    Frame = 1,
+};
+
+// Format of frame data in binary messages.
+pub const FrameFormat = enum(u8) {
+    Bayer = 0, // One byte per pixel
+    Rgb = 1, // Three bytes per pixel
+};
+
+// Header of binary messages, used for streams too large to send efficiently as JSON (camera frames).
+// An equivalent layout is defined in the client code (/www/src/helpers/binary.ts).
+pub const Header = struct {
+    pub const VERSION = 1; // Version of the header format
+    pub const SIZE = 24; // Size of the serialized header, in bytes
+
+    event: BinaryEvent,
+    format: FrameFormat = .Bayer,
+    seq: u32, // Incremented for every message of the event
+    ts: f64, // Time the data was captured, in ms since the epoch
+    width: u16 = 0,
+    height: u16 = 0,
+    count: u16 = 0, // Number of items between the header and the payload, e.g. blocks
+
+    /// Serialize the header, all numbers are little-endian.
+    pub fn write(self: @This(), buf: *[SIZE]u8) void {
+        @memset(buf, 0); // Reserved bytes
+        buf[0] = VERSION;
+        buf[1] = @intFromEnum(self.event);
+        buf[2] = @intFromEnum(self.format);
+        mem.writeInt(u32, buf[4..8], self.seq, .little);
+        mem.writeInt(u64, buf[8..16], @bitCast(self.ts), .little);
+        mem.writeInt(u16, buf[16..18], self.width, .little);
+        mem.writeInt(u16, buf[18..20], self.height, .little);
+        mem.writeInt(u16, buf[20..22], self.count, .little);
+    }
+};
+
 // Type of event to subscribe to.
 pub const EventType = enum {
     Receive,
@@ -51,10 +93,20 @@ pub const ReceiveCallback = *const fn(event: SocketData) anyerror!void;
 pub const DispatchCallback = *const fn(send: SendFn) anyerror!void;
 // Function type for sending data over the websocket.
 pub const SendFn = *const fn(data: SocketData) anyerror!void;
+// Function type for guards, deciding whether received data is passed on to receivers.
+// `session` is the session of the connection the data was received from.
+pub const GuardFn = *const fn(session: []const u8, event: []const u8) bool;
 
 // Arbitrary context for the websocket handler.
 pub const Context = struct {
     alloc: mem.Allocator,
+    // Whether the client accepts binary messages, which it asks for with `?binary=1` when connecting
+    binary: bool = false,
+    // Session of the client, which it passes with `?session=<id>` when connecting (see server.zig)
+    // Only its first `SESSION_ID_LEN` characters should ever be sent out, the rest keeps it from being impersonated
+    session: [SESSION_LEN]u8 = undefined,
+    // Time the client's authenticated session expires at, in ms since the epoch (see auth.zig)
+    expires: i64,
 };
 
 // Websocket handler, responsible for processing messages sent over the websocket.
@@ -62,6 +114,7 @@ pub const Context = struct {
 pub const Handler = struct {
     ctx: Context,
     conn: *websocket.Conn,
+    closing: bool = false, // Whether the connection is being closed, it is not sent anything anymore
 
     /// Is run when a new websocket connection is established.
     pub fn init(conn: *websocket.Conn, ctx: Context) !@This() {
@@ -70,17 +123,31 @@ pub const Handler = struct {
             .ctx = ctx,
             .conn = conn,
         };
+        mutex.lock();
+        defer mutex.unlock();
         try handlers.append(self);
         return self;
     }
 
     /// Is run when a message is received over the websocket.
+    /// The data is stamped with the session of the connection (as its `session` key) before being passed on,
+    /// so receivers can tell clients apart.
     pub fn handle(self: *const @This(), message: websocket.Message) !void {
-        const parsed = json.parseFromSlice(SocketData, self.ctx.alloc, message.data, .{}) catch |err| {
+        var parsed = json.parseFromSlice(SocketData, self.ctx.alloc, message.data, .{}) catch |err| {
             log.warn("failed to parse message '{s}' ({})", .{ message.data, err });
             return err;
         };
         defer parsed.deinit();
+        if (time.milliTimestamp() >= self.ctx.expires) {
+            log.warn("ignoring '{s}', session expired", .{ parsed.value.event });
+            expire(self.conn);
+            return;
+        }
+        try parsed.value.data.map.put(parsed.arena.allocator(), "session", &self.ctx.session);
+        if (guard) |allowed| {
+            if (!allowed(&self.ctx.session, parsed.value.event))
+                return;
+        }
         notify_receivers(parsed.value);
     }
 
@@ -92,11 +159,18 @@ pub const Handler = struct {
         try buf.flush();
     }
 
+    /// Write a binary message to the websocket connection.
+    pub fn writeBinary(self: *@This(), data: []const u8) !void {
+        try self.conn.writeBin(data);
+    }
+
     /// Is run when the websocket connection is closed.
     pub fn close(self: *@This()) void {
         // Remove this handler from the list of handlers
+        mutex.lock();
+        defer mutex.unlock();
         for (handlers.items, 0..) |handler, i| {
-            if (std.meta.eql(handler, self.*)) {
+            if (handler.conn == self.conn) {
                 _ = handlers.swapRemove(i);
                 log.info("connection closed", .{});
                 return;
@@ -106,13 +180,24 @@ pub const Handler = struct {
     }
 };
 
+/// Close a connection whose session expired.
+fn expire(conn: *websocket.Conn) void {
+    conn.writeCloseWithCode(CLOSE_POLICY_VIOLATION) catch |err| {
+        log.warn("failed to send close frame ({})", .{ err });
+    };
+    conn.close();
+}
+
 var handlers: std.ArrayList(Handler) = undefined; // List of websocket handlers
+// Guards `handlers`, which the websocket threads add to and remove from while the main thread sends
+var mutex = std.Thread.Mutex{};
 // To match the client-side implementation, this hashmap should technically
 // contain an ArrayList of *Callbacks and not just a single *Callback,
 // but I spent a few too many hours trying to get that to work and I'd rather
 // focus on more useful things.
 var receivers: std.StringHashMap(ReceiveCallback) = undefined; 
 var dispatchers: std.StringArrayHashMap(DispatchCallback) = undefined;
+var guard: ?GuardFn = null; // Guard applied to all received data, if any
 var last_send: i64 = 0; // Last time data was sent (via update())
 
 /// Initialize the websocket backend.
@@ -158,6 +243,37 @@ pub fn unsubscribe(event: []const u8) void {
     log.warn("nothing to unregister for event '{s}'", .{ event });
 }
 
+/// Set the guard deciding whether received data is passed on to receivers, replacing any previous one.
+/// Pass null to pass everything on again.
+pub fn setGuard(callback: ?GuardFn) void {
+    guard = callback;
+}
+
+/// Check whether a client is connected.
+pub fn connected(session: []const u8) bool {
+    mutex.lock();
+    defer mutex.unlock();
+    for (handlers.items) |handler| {
+        if (mem.eql(u8, &handler.ctx.session, session))
+            return true;
+    }
+    return false;
+}
+
+/// Close the connections whose session expired, so they aren't sent anything anymore.
+fn closeExpired() void {
+    mutex.lock();
+    defer mutex.unlock();
+    const now = time.milliTimestamp();
+    for (handlers.items) |*handler| {
+        if (handler.closing or now < handler.ctx.expires)
+            continue;
+        log.info("closing connection, session expired", .{});
+        expire(handler.conn);
+        handler.closing = true;
+    }
+}
+
 /// Update the websocket backend.
 /// This function will invoke, if necessary, all registered dispatchers
 /// which may block for a significant period of time.
@@ -165,6 +281,8 @@ pub fn update() void {
     if (time.milliTimestamp() - last_send < MIN_SOCKET_UPDATE_INTERVAL)
         return;
 
+    closeExpired();
+
     for (dispatchers.values()) |callback| {
         callback(send) catch |err| {
             log.warn("unhandled exception in dispatch callback: {}", .{ err });
@@ -180,8 +298,47 @@ pub fn update() void {
 
 /// Send data to all open websocket connections.
 fn send(data: SocketData) !void {
-    for (0..handlers.items.len) |i|
-        try handlers.items[i].write(data);
+    mutex.lock();
+    defer mutex.unlock();
+    for (0..handlers.items.len) |i| {
+        if (!handlers.items[i].closing)
+            try handlers.items[i].write(data);
+    }
+}
+
+/// Send a binary message to all open websocket connections that accept them.
+/// The message should start with a `Header`; connections that don't accept binary messages
+/// should be sent the same data as JSON with `sendFallback()`.
+pub fn sendBinary(data: []const u8) !void {
+    mutex.lock();
+    defer mutex.unlock();
+    for (0..handlers.items.len) |i| {
+        if (handlers.items[i].ctx.binary and !handlers.items[i].closing)
+            try handlers.items[i].writeBinary(data);
+    }
+}
+
+/// Send data to all open websocket connections that don't accept binary messages.
+pub fn sendFallback(data: SocketData) !void {
+    mutex.lock();
+    defer mutex.unlock();
+    for (0..handlers.items.len) |i| {
+        if (!handlers.items[i].ctx.binary and !handlers.items[i].closing)
+            try handlers.items[i].write(data);
+    }
+}
+
+/// Get the number of open websocket connections that don't accept binary messages,
+/// so that dispatchers can skip encoding data nobody will receive as JSON.
+pub fn fallbackClients() usize {
+    mutex.lock();
+    defer mutex.unlock();
+    var n: usize = 0;
+    for (handlers.items) |handler| {
+        if (!handler.ctx.binary and !handler.closing)
+            n += 1;
+    }
+    return n;
 }
 
 /// Notify all relavent receivers of new data.
@@ -212,6 +369,28 @@ test "data serialize" {
     try testing.expectEqualSlices(u8, expected, actual.items);
 }
 
+test "header serialize" {
+    const header = Header{
+        .event = .Frame,
+        .seq = 258,
+        .ts = 1.5,
+        .width = 320,
+        .height = 200,
+        .count = 2,
+    };
+    var actual: [Header.SIZE]u8 = undefined;
+    header.write(&actual);
+
+    const expected = [_]u8{
+        1, 1, 0, 0, // version, event, format, reserved
+        2, 1, 0, 0, // seq
+        0, 0, 0, 0, 0, 0, 0xf8, 0x3f, // ts
+        0x40, 1, 200, 0, // width, height
+        2, 0, 0, 0, // count, reserved
+    };
+    try testing.expectEqualSlices(u8, &expected, &actual);
+}
+
 test "data deserialize" {
     const alloc = testing.allocator;
 
@@ -8,5 +8,7 @@ comptime {
     _ = @import("hw/pwm.zig");
     _ = @import("lib/math3d.zig");
     _ = @import("lib/pid.zig");
+    _ = @import("remote/auth.zig");
+    _ = @import("remote/pilot.zig");
     _ = @import("remote/sockets.zig");
 }
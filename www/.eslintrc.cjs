@@ -25,6 +25,9 @@ module.exports = {
         '@typescript-eslint/no-non-null-assertion': 0,
         'no-use-before-define': 0,
         '@typescript-eslint/no-use-before-define': 'warn',
+        // The base rule doesn't know about parameter properties, which make constructors useful
+        'no-useless-constructor': 0,
+        '@typescript-eslint/no-useless-constructor': 'warn',
         '@typescript-eslint/no-unused-vars': ['warn', { argsIgnorePattern: '^_', varsIgnorePattern: '^_' }],
         '@typescript-eslint/ban-ts-comment': ['error', { 'ts-expect-error': 'allow-with-description' }],
     },
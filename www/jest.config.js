@@ -0,0 +1,24 @@
+// Unit tests of the web UI, next to the modules they test (`*.test.ts`).
+// They run in Node without a browser, against an in-memory transport instead of a drone (see src/helpers/transport.ts).
+// Tests rendering components (`*.test.tsx`) run in a simulated DOM instead, see the `@jest-environment` comment atop them.
+
+/** @type {import("jest").Config} */
+export default {
+    testEnvironment: "node",
+    // The simulated DOM would otherwise load the browser builds of packages, which are ES modules Jest can't run
+    testEnvironmentOptions: { customExportConditions: ["node", "node-addons"] },
+    roots: ["<rootDir>/src"],
+    // Icons and the router only come as ES modules, so they are compiled like the sources
+    moduleNameMapper: {
+        "^preact-heroicons$":
+            "<rootDir>/node_modules/preact-heroicons/dist/index.js",
+    },
+    transform: {
+        "^.+\\.tsx?$": "<rootDir>/jest.transform.cjs",
+        "/node_modules/(preact-heroicons|wouter-preact)/.+\\.jsx?$":
+            "<rootDir>/jest.transform.cjs",
+    },
+    transformIgnorePatterns: [
+        "/node_modules/(?!(preact-heroicons|wouter-preact)/)",
+    ],
+};
@@ -0,0 +1,25 @@
+// Jest transformer compiling TypeScript (and packages only shipping ES modules) with esbuild, the same compiler Vite uses.
+
+const { extname } = require("path");
+const { transformSync } = require("esbuild");
+
+module.exports = {
+    /**
+     * @param {string} source source of the file
+     * @param {string} path path of the file
+     * @returns {{ code: string, map: string }} the file compiled to CommonJS, which Jest runs
+     */
+    process(source, path) {
+        return transformSync(source, {
+            loader: /** @type {"ts" | "tsx" | "js" | "jsx"} */ (
+                extname(path).slice(1)
+            ),
+            format: "cjs",
+            target: "node18",
+            jsx: "automatic",
+            jsxImportSource: "preact",
+            sourcemap: true,
+            sourcefile: path,
+        });
+    },
+};
@@ -0,0 +1,67 @@
+// Vite plugin making the build an installable app that works offline, see sw.js.
+// Browsers only run it over HTTPS or on localhost, so not when the drone serves the app (plain HTTP).
+// The service worker is generated with the list of files of the build, so each build is cached as a whole
+// and replaces the previous one.
+
+import { createHash } from "node:crypto";
+import { readFileSync, readdirSync } from "node:fs";
+import { join, relative } from "node:path";
+import { Plugin } from "vite";
+
+const TEMPLATE = new URL("./sw.js", import.meta.url); // Service worker template
+const SW_FILE = "sw.js"; // Name of the generated service worker, registered in /src/main.tsx
+
+/**
+ * @param dir directory to list
+ * @returns paths of all files in the directory and its subdirectories
+ */
+function listFiles(dir: string): string[] {
+    return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const path = join(dir, entry.name);
+        return entry.isDirectory() ? listFiles(path) : [path];
+    });
+}
+
+/**
+ * @returns the PWA plugin
+ */
+export default function pwa(): Plugin {
+    let publicDir = "";
+
+    return {
+        name: "nwdrone-pwa",
+        apply: "build",
+        enforce: "post", // After index.html is generated
+        configResolved(config) {
+            publicDir = config.publicDir;
+        },
+        generateBundle(_, bundle) {
+            const hash = createHash("sha256");
+            const files: string[] = [];
+            for (const output of Object.values(bundle)) {
+                files.push(`/${output.fileName}`);
+                hash.update(
+                    output.type === "chunk" ? output.code : output.source,
+                );
+            }
+            // Public files are copied to the build as they are, without being part of the bundle
+            if (publicDir) {
+                for (const path of listFiles(publicDir)) {
+                    files.push(
+                        `/${relative(publicDir, path).split("\\").join("/")}`,
+                    );
+                    hash.update(readFileSync(path));
+                }
+            }
+            files.sort();
+
+            const source = readFileSync(TEMPLATE, "utf8")
+                .replace(
+                    "__VERSION__",
+                    JSON.stringify(hash.digest("hex").slice(0, 16)),
+                )
+                .replace("__FILES__", JSON.stringify(files));
+            this.emitFile({ type: "asset", fileName: SW_FILE, source });
+        },
+    };
+}
@@ -0,0 +1,4 @@
+// Placeholders of the service worker template, filled in by the plugin in index.ts.
+
+declare const __VERSION__: string;
+declare const __FILES__: string[];
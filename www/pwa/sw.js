@@ -0,0 +1,55 @@
+// Service worker letting the app load without internet access, or with a flaky connection to the drone.
+// Generated from this template by the plugin in index.ts, which fills in the files of the build.
+// Every file is cached when the worker is installed and served from the cache from then on. A new build
+// is installed in the background and only takes over once every page using the old one is closed, so
+// the app never reloads by itself (e.g. mid-flight).
+
+const VERSION = __VERSION__; // Hash of the build
+const FILES = __FILES__; // Paths of all files of the build
+const CACHE_PREFIX = "nwdrone-";
+const CACHE = CACHE_PREFIX + VERSION;
+const INDEX = "/index.html"; // Pages are all routed by the app, see main.tsx
+
+// The worker's global scope, typed as a service worker rather than any worker
+const worker = /** @type {ServiceWorkerGlobalScope} */ (
+    /** @type {unknown} */ (self)
+);
+
+worker.addEventListener("install", event => {
+    event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(FILES)));
+});
+
+worker.addEventListener("activate", event => {
+    // Drop the files of previous builds
+    event.waitUntil(
+        caches
+            .keys()
+            .then(keys =>
+                Promise.all(
+                    keys
+                        .filter(
+                            key =>
+                                key.startsWith(CACHE_PREFIX) && key !== CACHE,
+                        )
+                        .map(key => caches.delete(key)),
+                ),
+            ),
+    );
+});
+
+worker.addEventListener("fetch", event => {
+    const { request } = event;
+    const url = new URL(request.url);
+    if (request.method !== "GET" || url.origin !== worker.location.origin) {
+        return;
+    }
+    const path = request.mode === "navigate" ? INDEX : url.pathname;
+    if (!FILES.includes(path)) {
+        return; // Not part of the app (e.g. /auth), left to the network
+    }
+    event.respondWith(
+        caches
+            .match(path, { cacheName: CACHE })
+            .then(cached => cached ?? fetch(request)),
+    );
+});
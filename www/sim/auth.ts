@@ -0,0 +1,138 @@
+// Simulated authentication, same as /src/remote/auth.zig and the `/auth` handlers in /src/remote/server.zig.
+
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+
+const TOKEN_TTL = 12 * 60 * 60 * 1000; // ms, same as /src/remote/auth.zig
+const LOGIN_COOLDOWN = 1000; // ms, same as /src/remote/auth.zig
+const PASSPHRASE_ENV = "NWDRONE_PASSPHRASE";
+const DEFAULT_PASSPHRASE = "nwdrone"; // Unlike the drone, the simulator doesn't need a secret passphrase
+
+/**
+ * @param value string to hash
+ * @returns the SHA-256 hash of the string, so strings of any length can be compared in constant time
+ */
+function hash(value: string): Buffer {
+    return createHash("sha256").update(value).digest();
+}
+
+export class Authenticator {
+    public readonly passphrase =
+        process.env[PASSPHRASE_ENV] || DEFAULT_PASSPHRASE;
+    private sessions = new Map<string, number>(); // Tokens to the time they expire at
+    private failures = new Map<string, number>(); // Client addresses to the time they got the passphrase wrong
+
+    /**
+     * @param client address of the client
+     * @param passphrase passphrase given by the client
+     * @returns a new session, or why it was refused
+     */
+    login(
+        client: string,
+        passphrase: string,
+    ): { token: string; expires: number } | "wrong" | "cooldown" {
+        const now = Date.now();
+        if (now - (this.failures.get(client) ?? -Infinity) < LOGIN_COOLDOWN) {
+            return "cooldown";
+        }
+        if (!timingSafeEqual(hash(passphrase), hash(this.passphrase))) {
+            this.failures.set(client, now);
+            return "wrong";
+        }
+        this.failures.delete(client);
+        const token = randomBytes(16).toString("hex");
+        const expires = Date.now() + TOKEN_TTL;
+        this.sessions.set(token, expires);
+        return { token, expires };
+    }
+
+    /**
+     * @param token token given by the client
+     * @returns the time its session expires at, or null if it isn't valid (anymore)
+     */
+    validate(token: string): number | null {
+        const expires = this.sessions.get(token);
+        if (expires === undefined) {
+            return null;
+        }
+        if (expires <= Date.now()) {
+            this.sessions.delete(token);
+            return null;
+        }
+        return expires;
+    }
+
+    /**
+     * Handle a request to `/auth`, answering like the drone does.
+     * @param req request
+     * @param res response
+     */
+    handle(req: IncomingMessage, res: ServerResponse): void {
+        const header = req.headers.authorization ?? "";
+        const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+        const reply = (status: number, body?: object) => {
+            res.statusCode = status;
+            if (body) {
+                res.setHeader("Content-Type", "application/json");
+            }
+            res.end(body && JSON.stringify(body));
+        };
+
+        switch (req.method) {
+            case "POST": {
+                let body = "";
+                req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+                req.on("end", () => {
+                    let passphrase: unknown;
+                    try {
+                        passphrase = (
+                            JSON.parse(body) as Record<string, unknown>
+                        ).passphrase;
+                    } catch {
+                        // Answered below
+                    }
+                    if (typeof passphrase !== "string") {
+                        reply(400, {
+                            error: 'expected {"passphrase": "..."}',
+                        });
+                        return;
+                    }
+                    const session = this.login(
+                        req.socket.remoteAddress ?? "",
+                        passphrase,
+                    );
+                    if (session === "wrong") {
+                        reply(401, { error: "wrong passphrase" });
+                        return;
+                    }
+                    if (session === "cooldown") {
+                        reply(429, {
+                            error: "too many attempts, try again in a moment",
+                        });
+                        return;
+                    }
+                    reply(200, {
+                        token: session.token,
+                        ttl: session.expires - Date.now(),
+                    });
+                });
+                break;
+            }
+            case "GET": {
+                const expires = this.validate(token);
+                if (expires === null) {
+                    reply(401, { error: "invalid or expired session" });
+                } else {
+                    reply(200, { ttl: expires - Date.now() });
+                }
+                break;
+            }
+            case "DELETE":
+                this.sessions.delete(token);
+                reply(204);
+                break;
+            default:
+                reply(405);
+        }
+    }
+}
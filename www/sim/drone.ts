@@ -0,0 +1,356 @@
+// Simulated drone, standing in for the backend in /src.
+// Mirrors the motion controller's state machine (/src/control/motion.zig) closely enough
+// to exercise the UI, but the "physics" are nothing more than a few first-order lags.
+
+import { Block, EventMap, MotionState } from "../src/helpers/events";
+import { PidParams } from "../src/helpers/tuning";
+
+// Same as /src/device/pixy.zig
+export const FRAME_WIDTH = 320;
+export const FRAME_HEIGHT = 200;
+
+// -- Altitude constants (/src/control/motion.zig) --
+const LANDED_ALT = 5.0; // cm
+const IGNORE_XY_GUIDANCE_BELOW_ALT = 10.0; // cm
+const INITIAL_HOVER_ALT = 50.0; // cm
+const MAX_ALT = 350.0; // cm
+
+// -- Teleop constants (/src/control/motion.zig) --
+const MAX_CLIMB_RATE = 50.0; // cm/s
+const MAX_YAW_RATE = 90.0; // degrees/s
+const MIN_TELEOP_ALT = 15.0; // cm
+const MAX_TELEOP_ALT = MAX_ALT - 50.0; // cm
+
+// -- Simulation constants --
+const REV_TIME = 2.0; // Time spent revving the motors before takeoff (quad.rev() blocks for ~2s), s
+const CLIMB_RATE = 25.0; // Maximum vertical speed, cm/s
+const ATTITUDE_TAU = 0.25; // Time constant of the attitude response, s
+const CONTROL_TIMEOUT = 0.5; // Same as CONTROL_TIMEOUT in /src/control/motion.zig, s
+const HOVER_THRUST = 35.0; // Base thrust needed to hover, %
+const CUTOFF_THRUST = 10.0; // Same as CUTOFF_THRUST in /src/control/motion.zig, %
+
+// Compiled-in parameters of the PID controllers registered in /src/control/tuning.zig.
+// Only the kP and limits of x/y are simulated (by BLOCKLOCK), the rest can merely be tuned.
+export const PID_DEFAULTS: { [name: string]: PidParams } = {
+    roll: { kp: 0.5, ki: 0.0, kd: 0.2, tau: 0.5, lim_min: -5.0, lim_max: 5.0 },
+    pitch: { kp: 0.5, ki: 0.0, kd: 0.2, tau: 0.5, lim_min: -5.0, lim_max: 5.0 },
+    yaw: { kp: 1.0, ki: 0.0, kd: 0.0, tau: 0.5, lim_min: -5.0, lim_max: 5.0 },
+    x: { kp: 0.1, ki: 0.0, kd: 0.2, tau: 0.5, lim_min: -3.0, lim_max: 3.0 },
+    y: { kp: 0.1, ki: 0.0, kd: 0.2, tau: 0.5, lim_min: -3.0, lim_max: 3.0 },
+    z: { kp: 0.1, ki: 0.3, kd: 0.5, tau: 0.5, lim_min: 0.0, lim_max: 60.0 },
+};
+
+// Colors of the simulated blocks' signatures, as RGB
+const SIGNATURE_COLORS: { [signature: number]: [number, number, number] } = {
+    1: [220, 40, 40],
+    2: [40, 200, 60],
+};
+
+/**
+ * Wrap an angle into [-180, 180), like wrapAngle() in /src/lib/math3d.zig.
+ * @param deg angle, degrees
+ * @returns the wrapped angle
+ */
+function wrapAngle(deg: number): number {
+    return ((((deg + 180) % 360) + 360) % 360) - 180;
+}
+
+export class Drone {
+    public state: MotionState = "IDLE";
+    public alt = 0.0; // Measured altitude, cm
+    public targetAlt = 0.0; // Altitude setpoint, cm
+    public roll = 0.0; // Attitude, degrees
+    public pitch = 0.0;
+    public yaw = 0.0;
+    public pids: { [name: string]: PidParams } = { ...PID_DEFAULTS }; // Current PID parameters (read-only)
+    private targetRoll = 0.0; // Attitude setpoint, degrees
+    private targetPitch = 0.0;
+    private climbRate = 0.0; // Rate the altitude setpoint is moved at in teleop, cm/s
+    private yawRate = 0.0; // Turn rate in teleop, degrees/s
+    private stateTime = 0.0; // Time spent in the current state, s
+    private lastSeq = -1; // Sequence number of the last accepted move
+    private lastMove = -Infinity; // Time the last move was accepted, s
+    private time = 0.0; // Total simulated time, s
+
+    /**
+     * Handle a `takeoff` event.
+     */
+    takeoff(): void {
+        if (this.state === "IDLE") {
+            this.setState("REV");
+        }
+    }
+
+    /**
+     * Handle a `land` event.
+     */
+    land(): void {
+        this.setState("LAND");
+        this.targetAlt = 0.0;
+        this.climbRate = this.yawRate = 0.0;
+    }
+
+    /**
+     * Handle a `move` event.
+     * @param move payload of the event
+     */
+    move(move: EventMap["move"]): void {
+        // Drop out-of-order moves, unless the gap means a new stream (stale moves aren't simulated)
+        if (
+            move.seq <= this.lastSeq &&
+            this.time - this.lastMove <= CONTROL_TIMEOUT
+        ) {
+            return;
+        }
+        this.lastSeq = move.seq;
+        this.lastMove = this.time;
+
+        // Possible cases for automatically switching into teleop
+        switch (this.state) {
+            case "IDLE":
+                this.takeoff();
+                break;
+            case "BLOCKLOCK":
+                this.setState("TELEOP");
+                break;
+        }
+        if (this.state !== "TELEOP") {
+            return;
+        }
+        this.targetRoll = move.roll;
+        this.targetPitch = move.pitch;
+        const clamp = (v: number, max: number) =>
+            Math.min(Math.max(v, -max), max);
+        this.climbRate = clamp(move.climb, MAX_CLIMB_RATE);
+        this.yawRate = clamp(move.yaw_rate, MAX_YAW_RATE);
+    }
+
+    /**
+     * Handle a `pid_set` event, like pidSetEvent() in /src/control/tuning.zig.
+     * @param name name of the controller
+     * @param params new parameters
+     * @returns whether the parameters were applied
+     */
+    tune(name: string, params: PidParams): boolean {
+        if (
+            !(name in this.pids) ||
+            !Object.values(params).every(Number.isFinite) ||
+            params.tau <= 0 ||
+            params.lim_min > params.lim_max
+        ) {
+            return false;
+        }
+        this.pids[name] = params;
+        return true;
+    }
+
+    /**
+     * Handle a `kill` event.
+     * The real backend exits, here the drone just drops back to idle.
+     */
+    kill(): void {
+        this.setState("IDLE");
+        this.alt = this.targetAlt = 0.0;
+        this.targetRoll = this.targetPitch = 0.0;
+        this.climbRate = this.yawRate = 0.0;
+    }
+
+    /**
+     * Advance the simulation.
+     * @param dt time step, s
+     */
+    update(dt: number): void {
+        this.time += dt;
+        this.stateTime += dt;
+
+        switch (this.state) {
+            case "IDLE":
+                this.targetRoll = this.targetPitch = 0.0;
+                break;
+            case "REV":
+                if (this.stateTime >= REV_TIME) {
+                    this.targetAlt = INITIAL_HOVER_ALT;
+                    this.setState("TAKEOFF");
+                }
+                break;
+            case "TAKEOFF":
+                if (this.alt > INITIAL_HOVER_ALT - 5.0) {
+                    this.setState("BLOCKLOCK");
+                }
+                break;
+            case "BLOCKLOCK": {
+                // Lock onto the largest block, like motion.update() does
+                const blocks = this.blocks();
+                let target = { x: FRAME_WIDTH / 2, y: FRAME_HEIGHT / 2 };
+                if (
+                    blocks.length > 0 &&
+                    this.targetAlt > IGNORE_XY_GUIDANCE_BELOW_ALT
+                ) {
+                    target = blocks.reduce((a, b) =>
+                        b.width * b.height > a.width * a.height ? b : a,
+                    );
+                }
+                const { x, y } = this.pids;
+                const output = (pid: PidParams, error: number) =>
+                    Math.min(
+                        Math.max(pid.kp * error, pid.lim_min),
+                        pid.lim_max,
+                    );
+                this.targetRoll = output(x, FRAME_WIDTH / 2 - target.x);
+                this.targetPitch = output(y, FRAME_HEIGHT / 2 - target.y);
+                break;
+            }
+            case "TELEOP":
+                // Setpoints are updated by move(), this is the failsafe for a lost stream (hovering in teleop)
+                if (
+                    (this.targetRoll !== 0 ||
+                        this.targetPitch !== 0 ||
+                        this.climbRate !== 0 ||
+                        this.yawRate !== 0) &&
+                    this.time - this.lastMove > CONTROL_TIMEOUT
+                ) {
+                    this.targetRoll = this.targetPitch = 0.0;
+                    this.climbRate = this.yawRate = 0.0;
+                } else {
+                    this.targetAlt = Math.min(
+                        Math.max(
+                            this.targetAlt + this.climbRate * dt,
+                            MIN_TELEOP_ALT,
+                        ),
+                        MAX_TELEOP_ALT,
+                    );
+                    // Turning is taken as immediate
+                    this.yaw = wrapAngle(this.yaw + this.yawRate * dt);
+                }
+                break;
+            case "LAND":
+                this.targetRoll = this.targetPitch = 0.0;
+                if (this.alt < LANDED_ALT) {
+                    this.setState("IDLE");
+                }
+                break;
+        }
+
+        // Altitude moves towards its setpoint at a limited rate
+        const climb = Math.min(
+            Math.max(this.targetAlt - this.alt, -CLIMB_RATE * dt),
+            CLIMB_RATE * dt,
+        );
+        this.alt = Math.max(this.alt + climb, 0.0);
+        // Attitude follows its setpoint with a small lag, plus a bit of noise in flight
+        const k = 1 - Math.exp(-dt / ATTITUDE_TAU);
+        const noise = () => (this.alt > LANDED_ALT ? Math.random() - 0.5 : 0);
+        this.roll += (this.targetRoll - this.roll) * k + noise() * 0.2;
+        this.pitch += (this.targetPitch - this.pitch) * k + noise() * 0.2;
+        this.yaw += noise() * 0.1;
+    }
+
+    /**
+     * @returns the current attitude, as the `orient` event
+     */
+    orient(): EventMap["orient"] {
+        return { roll: this.roll, pitch: this.pitch, yaw: this.yaw };
+    }
+
+    /**
+     * @returns the motion controller's state, altitude and thrust, as the `status` event
+     */
+    status(): EventMap["status"] {
+        // Base thrust is a hover thrust nudged by the altitude error, like pid_z's output
+        const { z, roll, pitch } = this.pids;
+        const clamp = (pid: PidParams, v: number) =>
+            Math.min(Math.max(v, pid.lim_min), pid.lim_max);
+        let base = 0.0;
+        if (this.state !== "IDLE" && this.state !== "REV") {
+            base = clamp(z, HOVER_THRUST + z.kp * (this.targetAlt - this.alt));
+            if (base < CUTOFF_THRUST) {
+                base = 0.0;
+            }
+        }
+        // Mixed like quad.update() in /src/control/quad.zig
+        const r =
+            base > 0 ? clamp(roll, roll.kp * (this.targetRoll - this.roll)) : 0;
+        const p =
+            base > 0
+                ? clamp(pitch, pitch.kp * (this.targetPitch - this.pitch))
+                : 0;
+        const motor = (v: number) => Math.min(Math.max(v, 0.0), 100.0);
+        return {
+            state: this.state,
+            alt: this.alt,
+            target_alt: this.targetAlt,
+            base,
+            fl: motor(base + r + p),
+            fr: motor(base - r + p),
+            bl: motor(base + r - p),
+            br: motor(base - r - p),
+        };
+    }
+
+    /**
+     * @returns the current (Bayer) camera frame and blocks
+     */
+    frame(): { raw: Uint8Array; blocks: Block[] } {
+        const blocks = this.blocks();
+        const raw = new Uint8Array(FRAME_WIDTH * FRAME_HEIGHT);
+        for (let y = 0; y < FRAME_HEIGHT; y++) {
+            for (let x = 0; x < FRAME_WIDTH; x++) {
+                // Dim gradient background, tinted by the attitude so the frame visibly reacts
+                let rgb: [number, number, number] = [
+                    40 + y / 4 + this.roll * 4,
+                    50 + x / 8,
+                    70 + this.pitch * 4,
+                ];
+                for (const block of blocks) {
+                    if (
+                        Math.abs(x - block.x) <= block.width / 2 &&
+                        Math.abs(y - block.y) <= block.height / 2
+                    ) {
+                        rgb = SIGNATURE_COLORS[block.signature];
+                    }
+                }
+                // BGGR pattern, see demosaic() in /www/src/helpers/bayer.ts
+                const channel = y & 1 ? (x & 1 ? 0 : 1) : x & 1 ? 1 : 2;
+                const value = rgb[channel] + (Math.random() - 0.5) * 8;
+                raw[y * FRAME_WIDTH + x] = Math.min(Math.max(value, 0), 255);
+            }
+        }
+        return { raw, blocks };
+    }
+
+    /**
+     * @returns the blocks currently "seen" by the camera, orbiting around the frame
+     */
+    private blocks(): Block[] {
+        const t = this.time;
+        return [
+            {
+                type: 0,
+                signature: 1,
+                x: Math.round(FRAME_WIDTH / 2 + Math.cos(t * 0.5) * 100),
+                y: Math.round(FRAME_HEIGHT / 2 + Math.sin(t * 0.5) * 60),
+                width: 40,
+                height: 30,
+                angle: 0,
+            },
+            {
+                type: 0,
+                signature: 2,
+                x: Math.round(FRAME_WIDTH / 2 + Math.cos(-t * 0.3) * 60),
+                y: Math.round(FRAME_HEIGHT / 2 + Math.sin(-t * 0.3) * 40),
+                width: 24,
+                height: 24,
+                angle: 0,
+            },
+        ];
+    }
+
+    /**
+     * Switch to a new state.
+     * @param state state to switch to
+     */
+    private setState(state: MotionState): void {
+        this.state = state;
+        this.stateTime = 0.0;
+    }
+}
@@ -0,0 +1,265 @@
+// Vite plugin serving a simulated drone on `/ws`, for developing the UI without any hardware.
+// Run with `yarn sim` (which is `vite --mode sim`).
+
+import { randomBytes } from "node:crypto";
+import { Plugin } from "vite";
+
+import { Authenticator } from "./auth";
+import { Drone, FRAME_HEIGHT, FRAME_WIDTH, PID_DEFAULTS } from "./drone";
+import { Arbiter } from "./pilot";
+import { Connection } from "./websocket";
+import { buildFrame } from "../src/helpers/binary";
+import {
+    DecodeError,
+    EventMap,
+    EventName,
+    LogLevel,
+    decode,
+    encode,
+    isEventName,
+} from "../src/helpers/events";
+import { SocketData } from "../src/helpers/socket";
+
+const UPDATE_RATE = 50; // Rate at which the simulation is advanced, in Hz
+const DISPATCH_RATE = 2; // Rate at which events are dispatched, same as MIN_SOCKET_UPDATE_RATE in /src/remote/sockets.zig
+const CLOSE_POLICY_VIOLATION = 1008; // Close code for connections whose session expired, same as /src/remote/sockets.zig
+
+/**
+ * @returns the simulator plugin
+ */
+export default function simulator(): Plugin {
+    return {
+        name: "nwdrone-sim",
+        apply: "serve",
+        configureServer(server) {
+            const logger = server.config.logger;
+            const log = (msg: string) =>
+                logger.info(`[sim] ${msg}`, { timestamp: true });
+            const drone = new Drone();
+            const authenticator = new Authenticator();
+            const connections = new Set<Connection>();
+            const binaryConnections = new Set<Connection>(); // Connections that asked for binary messages
+            const sessions = new Map<Connection, string>(); // Session of each connection, see server.zig
+            const expiries = new Map<Connection, number>(); // Time the login of each connection expires at
+            let frameSeq = 0;
+
+            // Same as send() in /src/remote/sockets.zig, data is sent to all connections
+            const send = <E extends EventName>(
+                event: E,
+                payload: EventMap[E],
+            ) => {
+                const data: SocketData = {
+                    event,
+                    data: encode(event, payload),
+                };
+                const message = JSON.stringify(data);
+                connections.forEach(conn => conn.send(message));
+            };
+
+            // Same as frameEvent() in /src/device/pixy.zig, binary to connections that asked for it
+            // and JSON to the others
+            const sendFrame = () => {
+                const { raw, blocks } = drone.frame();
+                const binary = buildFrame({
+                    header: {
+                        event: "frame",
+                        format: "bayer",
+                        seq: frameSeq++,
+                        ts: Date.now(),
+                        width: FRAME_WIDTH,
+                        height: FRAME_HEIGHT,
+                        count: blocks.length,
+                    },
+                    blocks,
+                    raw,
+                });
+                binaryConnections.forEach(conn => conn.sendBinary(binary));
+                if (binaryConnections.size === connections.size) {
+                    return;
+                }
+                const message = JSON.stringify({
+                    event: "frame",
+                    data: encode("frame", {
+                        raw: Buffer.from(raw).toString("base64"),
+                        blocks,
+                    }),
+                });
+                connections.forEach(
+                    conn => binaryConnections.has(conn) || conn.send(message),
+                );
+            };
+
+            // Same as logFn() in /src/remote/logs.zig, messages are printed and forwarded
+            const forward = (
+                level: LogLevel,
+                scope: string,
+                message: string,
+            ) => {
+                log(`${level}(${scope}): ${message}`);
+                send("log", { level, scope, message, ts: Date.now() });
+            };
+
+            const arbiter = new Arbiter((level, message) =>
+                forward(level, "pilot", message),
+            );
+
+            // Same as Handler.handle() and notify_receivers() in /src/remote/sockets.zig
+            const receive = (message: string, session: string) => {
+                let data: SocketData;
+                try {
+                    data = JSON.parse(message) as SocketData;
+                } catch {
+                    log(`failed to parse message '${message}'`);
+                    return;
+                }
+                if (!isEventName(data.event)) {
+                    return;
+                }
+                if (data.event !== "move") {
+                    log(`received event '${data.event}'`); // Moves are streamed, too many to log
+                }
+                if (!arbiter.allows(session, data.event)) {
+                    return;
+                }
+                try {
+                    switch (data.event) {
+                        case "pilot_request":
+                        case "pilot_release":
+                        case "pilot_grant":
+                        case "pilot_deny":
+                        case "pilot_takeover":
+                            arbiter.receive(data.event, {
+                                session,
+                                name: data.data.name ?? "",
+                            });
+                            break;
+                        case "takeoff":
+                            drone.takeoff();
+                            break;
+                        case "land":
+                            drone.land();
+                            break;
+                        case "move":
+                            drone.move(decode("move", data.data));
+                            break;
+                        case "kill":
+                            drone.kill();
+                            break;
+                        case "pid_get":
+                            for (const [name, params] of Object.entries(
+                                drone.pids,
+                            )) {
+                                send("pid", { name, ...params });
+                                send("pid_default", {
+                                    name,
+                                    ...PID_DEFAULTS[name],
+                                });
+                            }
+                            break;
+                        case "pid_set": {
+                            const { name, ...params } = decode(
+                                "pid_set",
+                                data.data,
+                            );
+                            if (drone.tune(name, params)) {
+                                send("pid", { name, ...drone.pids[name] });
+                            } else {
+                                forward(
+                                    "warning",
+                                    "tuning",
+                                    `refusing invalid parameters for '${name}'`,
+                                );
+                            }
+                            break;
+                        }
+                        case "shutdown":
+                            log("shutdown requested, ignoring");
+                            break;
+                    }
+                } catch (err) {
+                    if (!(err instanceof DecodeError)) {
+                        throw err;
+                    }
+                    log(`invalid '${data.event}' event (${err.message})`);
+                }
+            };
+
+            let prevState = drone.state;
+            const updateTimer = setInterval(() => {
+                drone.update(1 / UPDATE_RATE);
+                if (drone.state !== prevState) {
+                    forward("info", "motion", `${prevState} -> ${drone.state}`);
+                    prevState = drone.state;
+                }
+            }, 1000 / UPDATE_RATE);
+            const dispatchTimer = setInterval(() => {
+                // Same as closeExpired() in /src/remote/sockets.zig
+                expiries.forEach((expires, conn) => {
+                    if (expires <= Date.now()) {
+                        log("closing connection, session expired");
+                        conn.close(CLOSE_POLICY_VIOLATION);
+                    }
+                });
+                if (connections.size === 0) {
+                    return;
+                }
+                send("orient", drone.orient());
+                send("status", drone.status());
+                sendFrame();
+                send(
+                    "pilot",
+                    arbiter.state(session =>
+                        [...sessions.values()].includes(session),
+                    ),
+                );
+            }, 1000 / DISPATCH_RATE);
+
+            server.middlewares.use("/auth", (req, res) =>
+                authenticator.handle(req, res),
+            );
+            server.httpServer?.on("upgrade", (req, socket) => {
+                const url = new URL(req.url ?? "", "http://localhost");
+                if (url.pathname !== "/ws") {
+                    return; // Probably Vite's own HMR websocket
+                }
+                const expires = authenticator.validate(
+                    url.searchParams.get("token") ?? "",
+                );
+                if (expires === null) {
+                    log("refused connection, invalid or expired session");
+                    socket.end(
+                        "HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n",
+                    );
+                    return;
+                }
+                const conn = new Connection(req, socket);
+                connections.add(conn);
+                if (url.searchParams.get("binary") === "1") {
+                    binaryConnections.add(conn);
+                }
+                const session =
+                    url.searchParams.get("session") ??
+                    randomBytes(16).toString("hex");
+                sessions.set(conn, session);
+                expiries.set(conn, expires);
+                log("new connection");
+                conn.onmessage = message => receive(message, session);
+                conn.onclose = () => {
+                    connections.delete(conn);
+                    binaryConnections.delete(conn);
+                    sessions.delete(conn);
+                    expiries.delete(conn);
+                    log("connection closed");
+                };
+            });
+            server.httpServer?.on("close", () => {
+                clearInterval(updateTimer);
+                clearInterval(dispatchTimer);
+                connections.forEach(conn => conn.close());
+            });
+            log(
+                `simulated drone listening on /ws, passphrase is '${authenticator.passphrase}'`,
+            );
+        },
+    };
+}
@@ -0,0 +1,152 @@
+// Simulated control arbitration, same as /src/remote/pilot.zig.
+
+import { EventMap } from "../src/helpers/events";
+
+const SESSION_ID_LEN = 8; // Same as /src/remote/sockets.zig
+const RECONNECT_GRACE = 5000; // ms
+const CONTROL_EVENTS = [
+    "move",
+    "takeoff",
+    "land",
+    "kill",
+    "shutdown",
+    "pid_set",
+];
+
+interface Client {
+    session: string;
+    name: string;
+}
+
+export class Arbiter {
+    private pilot: Client | null = null;
+    private requester: Client | null = null;
+    private pilotLost: number | null = null; // Time the pilot was first seen disconnected
+
+    /**
+     * @param log function to log messages with
+     */
+    constructor(
+        private log: (level: "info" | "warning", message: string) => void,
+    ) {}
+
+    /**
+     * If nobody is in control, the client sending a control event takes it.
+     * @param session session the event was received from
+     * @param event received event
+     * @returns whether the event may be passed on
+     */
+    allows(session: string, event: string): boolean {
+        if (
+            !CONTROL_EVENTS.includes(event) ||
+            this.pilot?.session === session
+        ) {
+            return true;
+        }
+        if (!this.pilot) {
+            this.pilot = { session, name: "" };
+            this.pilotLost = null;
+            if (this.requester?.session === session) {
+                this.requester = null;
+            }
+            this.log(
+                "info",
+                `${session.slice(0, SESSION_ID_LEN)} took control with '${event}', nobody was in control`,
+            );
+            return true;
+        }
+        this.log("warning", `refused '${event}' from an observer`);
+        return false;
+    }
+
+    /**
+     * Handle a `pilot_*` event.
+     * @param event received event
+     * @param client client it was received from
+     */
+    receive(event: string, client: Client): void {
+        const isPilot = this.pilot?.session === client.session;
+        switch (event) {
+            case "pilot_request":
+                if (isPilot) {
+                    return;
+                }
+                this.requester = client;
+                if (this.pilot) {
+                    this.log(
+                        "info",
+                        `${client.name} asked ${this.pilot.name} for control`,
+                    );
+                } else {
+                    this.handOver();
+                }
+                break;
+            case "pilot_release":
+                if (this.requester?.session === client.session) {
+                    this.requester = null;
+                } else if (isPilot) {
+                    this.log("info", `${client.name} released control`);
+                    this.handOver();
+                }
+                break;
+            case "pilot_grant":
+                if (isPilot && this.requester) {
+                    this.handOver();
+                }
+                break;
+            case "pilot_deny":
+                if (isPilot) {
+                    this.requester = null;
+                }
+                break;
+            case "pilot_takeover":
+                if (!isPilot) {
+                    this.log("warning", `${client.name} took control by force`);
+                    this.pilot = client;
+                    this.requester = null;
+                    this.pilotLost = null;
+                }
+                break;
+        }
+    }
+
+    /**
+     * @param connected whether a session is still connected
+     * @returns the `pilot` event
+     */
+    state(connected: (session: string) => boolean): EventMap["pilot"] {
+        if (this.pilot) {
+            const now = Date.now();
+            if (connected(this.pilot.session)) {
+                this.pilotLost = null;
+            } else if (this.pilotLost === null) {
+                this.pilotLost = now;
+            } else if (now - this.pilotLost > RECONNECT_GRACE) {
+                this.log(
+                    "warning",
+                    `${this.pilot.name} lost control, disconnected`,
+                );
+                this.pilot = null;
+                this.pilotLost = null;
+            }
+        }
+        if (this.requester && !connected(this.requester.session)) {
+            this.requester = null;
+        }
+        return {
+            pilot: this.pilot?.session.slice(0, SESSION_ID_LEN) ?? "",
+            pilot_name: this.pilot?.name ?? "",
+            requester: this.requester?.session.slice(0, SESSION_ID_LEN) ?? "",
+            requester_name: this.requester?.name ?? "",
+        };
+    }
+
+    private handOver(): void {
+        this.pilot = this.requester;
+        this.requester = null;
+        this.pilotLost = null;
+        if (this.pilot) {
+            this.log("info", `${this.pilot.name} is now in control`);
+        }
+    }
+}
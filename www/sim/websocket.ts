@@ -0,0 +1,169 @@
+// Minimal websocket (RFC 6455) server-side connection, just enough for the simulator.
+// Only unfragmented messages are supported; the client only ever sends text ones.
+
+import { createHash } from "node:crypto";
+import { IncomingMessage } from "node:http";
+import { Duplex } from "node:stream";
+
+const GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"; // Magic string from the RFC
+
+// Frame opcodes
+const OP_TEXT = 0x1;
+const OP_BINARY = 0x2;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+export class Connection {
+    public onmessage: ((message: string) => void) | null = null;
+    public onclose: (() => void) | null = null;
+    private buffer = Buffer.alloc(0); // Received bytes not yet parsed into a frame
+    private closed = false;
+
+    /**
+     * Accept a websocket upgrade request.
+     * @param req upgrade request
+     * @param socket socket the request was received on
+     */
+    constructor(
+        req: IncomingMessage,
+        private socket: Duplex,
+    ) {
+        const key = req.headers["sec-websocket-key"];
+        const accept = createHash("sha1")
+            .update(`${String(key)}${GUID}`)
+            .digest("base64");
+        socket.write(
+            "HTTP/1.1 101 Switching Protocols\r\n" +
+                "Upgrade: websocket\r\n" +
+                "Connection: Upgrade\r\n" +
+                `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+        );
+        socket.on("data", (chunk: Buffer) => {
+            this.buffer = Buffer.concat([this.buffer, chunk]);
+            this.parse();
+        });
+        socket.on("close", () => this.handleClose());
+        socket.on("error", () => this.handleClose());
+    }
+
+    /**
+     * Send a text message.
+     * @param message message to send
+     */
+    send(message: string): void {
+        this.write(OP_TEXT, Buffer.from(message));
+    }
+
+    /**
+     * Send a binary message.
+     * @param message message to send
+     */
+    sendBinary(message: ArrayBuffer): void {
+        this.write(OP_BINARY, Buffer.from(message));
+    }
+
+    /**
+     * Close the connection.
+     * @param code close code to send, if any
+     */
+    close(code?: number): void {
+        const payload = Buffer.alloc(code === undefined ? 0 : 2);
+        if (code !== undefined) {
+            payload.writeUInt16BE(code);
+        }
+        this.write(OP_CLOSE, payload);
+        this.socket.end();
+        this.handleClose();
+    }
+
+    /**
+     * Write a single (unmasked) frame.
+     * @param opcode opcode of the frame
+     * @param payload payload of the frame
+     */
+    private write(opcode: number, payload: Buffer): void {
+        if (this.closed) {
+            return;
+        }
+        let header: Buffer;
+        if (payload.length < 126) {
+            header = Buffer.from([0x80 | opcode, payload.length]);
+        } else if (payload.length < 0x10000) {
+            header = Buffer.alloc(4);
+            header[0] = 0x80 | opcode;
+            header[1] = 126;
+            header.writeUInt16BE(payload.length, 2);
+        } else {
+            header = Buffer.alloc(10);
+            header[0] = 0x80 | opcode;
+            header[1] = 127;
+            header.writeBigUInt64BE(BigInt(payload.length), 2);
+        }
+        this.socket.write(Buffer.concat([header, payload]));
+    }
+
+    /**
+     * Parse as many complete frames as possible out of the receive buffer.
+     */
+    private parse(): void {
+        while (this.buffer.length >= 2) {
+            const opcode = this.buffer[0] & 0x0f;
+            const masked = (this.buffer[1] & 0x80) !== 0;
+            let length = this.buffer[1] & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+                if (this.buffer.length < 4) {
+                    return;
+                }
+                length = this.buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (this.buffer.length < 10) {
+                    return;
+                }
+                length = Number(this.buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+            const maskOffset = offset;
+            if (masked) {
+                offset += 4;
+            }
+            if (this.buffer.length < offset + length) {
+                return; // Wait for the rest of the frame
+            }
+            const payload = Buffer.from(
+                this.buffer.subarray(offset, offset + length),
+            );
+            if (masked) {
+                for (let i = 0; i < payload.length; i++) {
+                    payload[i] ^= this.buffer[maskOffset + (i % 4)];
+                }
+            }
+            this.buffer = this.buffer.subarray(offset + length);
+
+            switch (opcode) {
+                case OP_TEXT:
+                    this.onmessage?.(payload.toString());
+                    break;
+                case OP_CLOSE:
+                    this.close();
+                    return;
+                case OP_PING:
+                    this.write(OP_PONG, payload);
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Mark the connection as closed and notify the owner (only once).
+     */
+    private handleClose(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.onclose?.();
+    }
+}
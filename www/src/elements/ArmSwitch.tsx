@@ -0,0 +1,36 @@
+import preact from "preact";
+
+import classNames from "../helpers/classNames";
+import { useDrone, useSafety } from "../helpers/hooks";
+
+// Toggle to arm/disarm the drone, which must be armed before it will take off.
+const ArmSwitch: preact.FunctionComponent = () => {
+    const { safety } = useDrone();
+    const { armed, airborne } = useSafety();
+
+    return (
+        <label
+            className={classNames(
+                "flex items-center gap-x-2 p-2 rounded text-white",
+                armed ? "bg-yellow-600" : "bg-gray-800",
+            )}
+            title={
+                airborne
+                    ? "Can't disarm while airborne"
+                    : "Allow the drone to take off"
+            }
+        >
+            <input
+                type="checkbox"
+                checked={armed}
+                disabled={airborne}
+                onChange={e =>
+                    e.currentTarget.checked ? safety.arm() : safety.disarm()
+                }
+            />
+            {armed ? "Armed" : "Disarmed"}
+        </label>
+    );
+};
+
+export default ArmSwitch;
@@ -0,0 +1,129 @@
+import preact from "preact";
+
+import LayerToggles from "./LayerToggles";
+
+import { Block } from "../helpers/events";
+import {
+    BLOCKTYPE_COLOR_CODE,
+    OverlayLayers,
+    lockTarget,
+    signatureColor,
+    signatureLabel,
+    trackingError,
+} from "../helpers/overlay";
+
+// Toggles for each overlay layer, in the order they are shown
+const LAYERS: { key: keyof OverlayLayers; label: string }[] = [
+    { key: "boxes", label: "Boxes" },
+    { key: "labels", label: "Labels" },
+    { key: "lock", label: "Lock target" },
+    { key: "crosshair", label: "Crosshair" },
+    { key: "error", label: "Error vector" },
+];
+
+// Signatures shown in the legend, color codes share a single color
+const LEGEND = [
+    ...[1, 2, 3, 4, 5, 6, 7].map(signature => ({ type: 0, signature })),
+    { type: BLOCKTYPE_COLOR_CODE, signature: 0 },
+];
+
+interface BlockPanelProps {
+    blocks: Block[];
+    layers: OverlayLayers;
+    setLayers: (layers: OverlayLayers) => void;
+    frameWidth: number;
+    frameHeight: number;
+}
+
+// Layer toggles, legend and table of the Pixy blocks shown on the camera overlay.
+const BlockPanel: preact.FunctionComponent<BlockPanelProps> = ({
+    blocks,
+    layers,
+    setLayers,
+    frameWidth,
+    frameHeight,
+}) => {
+    const target = lockTarget(blocks);
+    const error = target && trackingError(target, frameWidth, frameHeight);
+
+    return (
+        <div className="flex flex-col gap-2 my-2 text-sm text-gray-300">
+            <LayerToggles
+                title="Blocks"
+                options={LAYERS}
+                layers={layers}
+                setLayers={setLayers}
+            />
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                {LEGEND.map(block => (
+                    <span
+                        key={block.signature}
+                        className="flex items-center gap-x-1"
+                    >
+                        <span
+                            className="inline-block w-3 h-3 rounded-sm"
+                            style={{
+                                backgroundColor: signatureColor(block),
+                            }}
+                        />
+                        {block.type === BLOCKTYPE_COLOR_CODE
+                            ? "Color code"
+                            : signatureLabel(block)}
+                    </span>
+                ))}
+                <span className="flex items-center gap-x-1">
+                    <span className="inline-block w-3 h-3 border border-dashed border-white" />
+                    Lock target
+                </span>
+            </div>
+            {blocks.length > 0 && (
+                <table className="font-mono text-xs text-left">
+                    <thead>
+                        <tr>
+                            <th className="pr-4">Sig</th>
+                            <th className="pr-4">X</th>
+                            <th className="pr-4">Y</th>
+                            <th className="pr-4">W</th>
+                            <th className="pr-4">H</th>
+                            <th className="pr-4">Area</th>
+                            <th className="pr-4">Angle</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {blocks.map((block, i) => (
+                            <tr
+                                key={i}
+                                className={
+                                    block === target ? "bg-white/10" : ""
+                                }
+                            >
+                                <td
+                                    className="pr-4"
+                                    style={{ color: signatureColor(block) }}
+                                >
+                                    {signatureLabel(block)}
+                                    {block === target && " (lock)"}
+                                </td>
+                                <td className="pr-4">{block.x}</td>
+                                <td className="pr-4">{block.y}</td>
+                                <td className="pr-4">{block.width}</td>
+                                <td className="pr-4">{block.height}</td>
+                                <td className="pr-4">
+                                    {block.width * block.height}
+                                </td>
+                                <td className="pr-4">{block.angle}°</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            {error && (
+                <div className="font-mono text-xs">
+                    Tracking error: x {error.x}px, y {error.y}px
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BlockPanel;
@@ -0,0 +1,167 @@
+import preact from "preact";
+import { useEffect, useState } from "preact/hooks";
+import {
+    ArrowDownTrayOutline,
+    CameraOutline,
+    StopOutline,
+    TrashOutline,
+    VideoCameraOutline,
+} from "preact-heroicons";
+
+import Alert from "./Alert";
+
+import { Capture } from "../helpers/capture";
+import { useDrone, useFileDownload, useSettings } from "../helpers/hooks";
+import { settings } from "../helpers/settings";
+
+// Controls for taking snapshots and recording videos of the camera feed, and a gallery of this session's captures.
+const CameraCapture: preact.FunctionComponent = () => {
+    const { capture } = useDrone();
+    const [, setRevision] = useState(0); // Bumped to re-render when the captures change
+    const [error, setError] = useState<string | null>(null);
+
+    const { downloadFile } = useFileDownload({
+        filename: "nwdrone-capture",
+        filetype: "application/octet-stream",
+    });
+
+    useEffect(() => {
+        const onChange = () => setRevision(r => r + 1);
+        capture.subscribe(onChange);
+        return () => capture.unsubscribe(onChange);
+    }, [capture]);
+
+    const takeSnapshot = () => {
+        capture
+            .snapshot()
+            .then(c => setError(c ? null : "No camera frame to capture yet"))
+            .catch((err: Error) =>
+                setError(`Failed to take snapshot: ${err.message}`),
+            );
+    };
+
+    const toggleRecording = () => {
+        if (capture.recording) {
+            capture.stopRecording();
+            return;
+        }
+        try {
+            capture.startRecording();
+            setError(null);
+        } catch (err) {
+            setError(`Failed to start recording: ${(err as Error).message}`);
+        }
+    };
+
+    /**
+     * @param c capture to download
+     */
+    const download = (c: Capture) => downloadFile(c.blob, c.filename);
+
+    const buttonClass =
+        "flex items-center gap-x-1 p-2 bg-gray-800 text-white rounded disabled:opacity-50";
+    const { capture: options } = useSettings();
+
+    return (
+        <div className="flex flex-col gap-2 m-4">
+            <div className="flex flex-wrap items-center gap-2 text-gray-300">
+                <button
+                    onClick={takeSnapshot}
+                    className={buttonClass}
+                    title="Take a PNG snapshot of the camera"
+                >
+                    <CameraOutline className="h-5 w-5" />
+                    Snapshot
+                </button>
+                <button
+                    onClick={toggleRecording}
+                    className={buttonClass}
+                    title={
+                        capture.recording
+                            ? "Stop recording"
+                            : "Record a WebM video of the camera"
+                    }
+                >
+                    {capture.recording ? (
+                        <StopOutline className="h-5 w-5 text-red-500" />
+                    ) : (
+                        <VideoCameraOutline className="h-5 w-5" />
+                    )}
+                    {capture.recording ? "Stop" : "Video"}
+                </button>
+                <label className="flex items-center gap-x-1 text-sm">
+                    <input
+                        type="checkbox"
+                        checked={options.overlay}
+                        onChange={e =>
+                            settings.update("capture", {
+                                overlay: e.currentTarget.checked,
+                            })
+                        }
+                    />
+                    Blocks
+                </label>
+                <label className="flex items-center gap-x-1 text-sm">
+                    <input
+                        type="checkbox"
+                        checked={options.watermark}
+                        onChange={e =>
+                            settings.update("capture", {
+                                watermark: e.currentTarget.checked,
+                            })
+                        }
+                    />
+                    Watermark
+                </label>
+            </div>
+            {capture.captures.length > 0 && (
+                <div className="flex gap-2 overflow-x-auto">
+                    {capture.captures.map(c => (
+                        <div
+                            key={c.id}
+                            className="flex flex-col shrink-0 gap-1 p-1 bg-gray-800 rounded"
+                        >
+                            {c.kind === "snapshot" ? (
+                                <img
+                                    src={c.url}
+                                    alt={c.filename}
+                                    className="w-40 h-24 object-contain"
+                                />
+                            ) : (
+                                <video
+                                    src={c.url}
+                                    controls
+                                    className="w-40 h-24 object-contain"
+                                />
+                            )}
+                            <div className="flex items-center justify-between text-xs text-gray-400">
+                                <span>{c.time.toLocaleTimeString()}</span>
+                                <span className="flex gap-x-1">
+                                    <button
+                                        onClick={() => download(c)}
+                                        title="Save to a file"
+                                    >
+                                        <ArrowDownTrayOutline className="h-4 w-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => capture.remove(c.id)}
+                                        title="Remove from the gallery"
+                                    >
+                                        <TrashOutline className="h-4 w-4" />
+                                    </button>
+                                </span>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+            {error && (
+                <Alert type="danger" onClose={() => setError(null)}>
+                    {error}
+                </Alert>
+            )}
+        </div>
+    );
+};
+
+export default CameraCapture;
@@ -1,235 +1,229 @@
 import preact from "preact";
 import { useEffect, useRef, useState } from "preact/hooks";
 
-import { socket } from "../helpers/socket";
+import BlockPanel from "./BlockPanel";
+import HudOverlay from "./HudOverlay";
+import LayerToggles from "./LayerToggles";
+
+import { Quality } from "../helpers/bayer";
+import { BinaryMessage, parseFrame } from "../helpers/binary";
+import type { FrameRequest, FrameResponse } from "../helpers/camera.worker";
+import { Block, DecodeError } from "../helpers/events";
+import { useDrone, useSettings } from "../helpers/hooks";
+import { HudLayers } from "../helpers/hud";
+import { drawOverlay } from "../helpers/overlay";
+import { settings } from "../helpers/settings";
+import { EventData } from "../helpers/socket";
 
 const FRAME_WIDTH = 320;
 const FRAME_HEIGHT = 200;
 
-// See lib/pixyusb/include/pixy.h
-interface Block {
-    type: number;
-    signature: number;
-    x: number;
-    y: number;
+// Toggles for each HUD element, in the order they are shown
+const HUD_LAYERS: { key: keyof HudLayers; label: string }[] = [
+    { key: "horizon", label: "Horizon" },
+    { key: "ladder", label: "Pitch ladder" },
+    { key: "heading", label: "Heading" },
+    { key: "command", label: "Commanded" },
+    { key: "status", label: "Status" },
+];
+
+// A frame to process, from either a JSON or a binary `frame` message.
+interface Frame {
+    raw: string | Uint8Array;
+    blocks: Block[];
     width: number;
     height: number;
-    angle: number;
+    mode: "bayer" | "rgb";
 }
 
+// Props override the camera settings.
 interface CameraStreamProps {
     displayMode?: "bayer" | "rgb";
     displayFps?: boolean;
+    quality?: Quality;
 }
 
-/**
- * @param base64 base64 encoded string
- * @returns a Uint8Array representing the binary data of `base64`
- */
-function base64ToUint8Array(base64: string): Uint8Array {
-    const binary = atob(base64);
-    const len = binary.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        bytes[i] = binary.charCodeAt(i);
-    }
-    return bytes;
-}
-
-/**
- * Perform Bayer interpolation on a pixel.
- * @param width width of the frame
- * @param x x-coordinate of the pixel
- * @param y y-coordinate of the pixel
- * @param pixelIndex index of the pixel in the raw data
- * @param raw raw data of the frame
- * @returns RGB interpolated values of the pixel
- */
-function interpolateBayer(
-    width: number,
-    x: number,
-    y: number,
-    pixelIndex: number,
-    raw: Uint8Array,
-): { r: number; g: number; b: number } {
-    let r = 0,
-        g = 0,
-        b = 0;
-    const pixel = raw[pixelIndex];
-
-    if (y & 1) {
-        if (x & 1) {
-            r = pixel;
-            g =
-                (raw[pixelIndex - 1] +
-                    raw[pixelIndex + 1] +
-                    raw[pixelIndex + width] +
-                    raw[pixelIndex - width]) >>
-                2;
-            b =
-                (raw[pixelIndex - width - 1] +
-                    raw[pixelIndex - width + 1] +
-                    raw[pixelIndex + width - 1] +
-                    raw[pixelIndex + width + 1]) >>
-                2;
-        } else {
-            r = (raw[pixelIndex - 1] + raw[pixelIndex + 1]) >> 1;
-            g = pixel;
-            b = (raw[pixelIndex - width] + raw[pixelIndex + width]) >> 1;
-        }
-    } else if (x & 1) {
-        r = (raw[pixelIndex - width] + raw[pixelIndex + width]) >> 1;
-        g = pixel;
-        b = (raw[pixelIndex - 1] + raw[pixelIndex + 1]) >> 1;
-    } else {
-        r =
-            (raw[pixelIndex - width - 1] +
-                raw[pixelIndex - width + 1] +
-                raw[pixelIndex + width - 1] +
-                raw[pixelIndex + width + 1]) >>
-            2;
-        g =
-            (raw[pixelIndex - 1] +
-                raw[pixelIndex + 1] +
-                raw[pixelIndex + width] +
-                raw[pixelIndex - width]) >>
-            2;
-        b = pixel;
-    }
-
-    return { r, g, b };
-}
-
-/**
- * Process RGB frame data.
- * @param width width of the frame
- * @param height height of the frame
- * @param raw raw RGB data of the frame
- * @returns ImageData object for rendering
- */
-function processRgbData(
-    width: number,
-    height: number,
-    raw: Uint8Array,
-): ImageData {
-    const imageData = new ImageData(width, height);
-    for (let i = 0; i < raw.length; i += 3) {
-        const r = raw[i];
-        const g = raw[i + 1];
-        const b = raw[i + 2];
-        const index = (i / 3) * 4;
-        imageData.data[index] = r;
-        imageData.data[index + 1] = g;
-        imageData.data[index + 2] = b;
-        imageData.data[index + 3] = 255; // Alpha channel
-    }
-    return imageData;
-}
-
-const CameraStream: preact.FunctionComponent<CameraStreamProps> = ({
-    displayMode = "bayer",
-    displayFps = false,
-}) => {
+// Live camera feed with the detected blocks drawn on top, and a panel to inspect them.
+// Frames are decoded and demosaiced in a worker (see camera.worker.ts); while it is busy only the
+// latest frame is kept, so a slow device drops frames instead of falling further and further behind.
+// Frames arrive as binary messages when the server supports them (see binary.ts), as JSON otherwise;
+// binary frames carry their own format, so `displayMode` only applies to JSON ones.
+const CameraStream: preact.FunctionComponent<CameraStreamProps> = props => {
+    const { camera } = useSettings();
+    const { socket, capture } = useDrone();
+    const {
+        displayMode = camera.displayMode,
+        displayFps = camera.displayFps,
+        quality = camera.quality,
+    } = props;
+    const { blocks: layers, hud } = camera;
     const canvas = useRef<HTMLCanvasElement>(null);
-    const [fps, setFps] = useState(0);
+    const [shownBlocks, setShownBlocks] = useState<Block[]>([]); // Blocks of the frame on screen
+    const layersRef = useRef(layers);
+    layersRef.current = layers;
 
     useEffect(() => {
+        const worker = new Worker(
+            new URL("../helpers/camera.worker.ts", import.meta.url),
+            { type: "module" },
+        );
+        let busy = false; // Whether the worker is processing a frame
+        let pending: Frame | null = null; // Latest frame received while busy
+        let blocks: Block[] = []; // Blocks of the frame being processed
         let lastFrameTime = performance.now();
         let frameCount = 0;
-
-        socket.subscribe("frame", event => {
-            if (!canvas.current) {
-                return;
-            }
-            const ctx = canvas.current.getContext("2d");
+        let fps = 0;
+
+        /**
+         * Send a frame to the worker.
+         * @param frame frame to process
+         */
+        const process = (frame: Frame) => {
+            busy = true;
+            blocks = frame.blocks;
+            // Binary frames are views into a message other taps (e.g. the recorder) may hold on to, so the
+            // worker is given a copy of just the pixels, transferred rather than cloned once more
+            const raw =
+                typeof frame.raw === "string" ? frame.raw : frame.raw.slice();
+            const request: FrameRequest = {
+                raw,
+                width: frame.width,
+                height: frame.height,
+                mode: frame.mode,
+                quality,
+            };
+            worker.postMessage(request, {
+                transfer: typeof raw === "string" ? [] : [raw.buffer],
+            });
+        };
+
+        /**
+         * Draw a processed frame and its blocks.
+         * @param bitmap processed frame
+         */
+        const draw = (bitmap: ImageBitmap) => {
+            const ctx = canvas.current?.getContext("2d");
             if (!ctx) {
+                bitmap.close();
                 return;
             }
-
-            const rawData = base64ToUint8Array(event.data.raw);
-            const imageData = ctx.createImageData(FRAME_WIDTH, FRAME_HEIGHT);
-            switch (displayMode) {
-                case "bayer": {
-                    const rgbData = new Uint8ClampedArray(
-                        FRAME_WIDTH * FRAME_HEIGHT * 4,
-                    ); // RGBA
-                    // Interpolate RGB pixel data
-                    for (let y = 0; y < FRAME_HEIGHT; y++) {
-                        for (let x = 0; x < FRAME_WIDTH; x++) {
-                            const pixelIndex = y * FRAME_WIDTH + x;
-                            const { r, g, b } = interpolateBayer(
-                                FRAME_WIDTH,
-                                x,
-                                y,
-                                pixelIndex,
-                                rawData,
-                            );
-                            const rgbIndex = pixelIndex * 4;
-                            rgbData[rgbIndex] = r;
-                            rgbData[rgbIndex + 1] = g;
-                            rgbData[rgbIndex + 2] = b;
-                            rgbData[rgbIndex + 3] = 255; // Alpha channel
-                        }
-                    }
-                    // Render on canvas
-                    imageData.data.set(rgbData);
-                    ctx.putImageData(imageData, 0, 0);
-                    break;
-                }
-                case "rgb": {
-                    const rgbData = processRgbData(
-                        FRAME_WIDTH,
-                        FRAME_HEIGHT,
-                        rawData,
-                    );
-                    ctx.putImageData(rgbData, 0, 0);
-                    break;
-                }
-            }
-
-            // Draw blocks as boxes
-            const blocks = JSON.parse(event.data.blocks) as Block[];
-            ctx.strokeStyle = "red";
-            ctx.lineWidth = 2;
-            blocks.forEach(block => {
-                const x = block.x - block.width / 2;
-                const y = block.y - block.height / 2;
-                ctx.strokeRect(x, y, block.width, block.height);
-                // Circle at the center of the block
-                const centerX = block.x;
-                const centerY = block.y;
-                const radius = 2;
-                ctx.beginPath();
-                ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-                ctx.fillStyle = "blue";
-                ctx.fill();
-            });
+            ctx.drawImage(bitmap, 0, 0);
+            capture.update(bitmap, blocks, layersRef.current);
+            bitmap.close();
+            drawOverlay(
+                ctx,
+                blocks,
+                layersRef.current,
+                FRAME_WIDTH,
+                FRAME_HEIGHT,
+            );
+            setShownBlocks(blocks);
 
             // Calculate and display FPS
             frameCount++;
             const now = performance.now();
             const delta = now - lastFrameTime;
             if (delta >= 1000) {
-                const currentFps = Math.round((frameCount * 1000) / delta);
-                setFps(currentFps);
+                fps = Math.round((frameCount * 1000) / delta);
                 frameCount = 0;
                 lastFrameTime = now;
             }
             if (displayFps) {
                 ctx.fillStyle = "white";
                 ctx.font = "16px Arial";
-                ctx.fillText(`FPS: ${fps}`, FRAME_WIDTH - 60, 20);
+                // Bottom right, out of the way of the HUD's status corners
+                ctx.fillText(`FPS: ${fps}`, FRAME_WIDTH - 60, FRAME_HEIGHT - 4);
+            }
+        };
+
+        worker.onmessage = (e: MessageEvent<FrameResponse>) => {
+            busy = false;
+            if ("error" in e.data) {
+                console.warn("failed to process frame: ", e.data.error);
+            } else {
+                draw(e.data.bitmap);
+            }
+            if (pending) {
+                const next = pending;
+                pending = null;
+                process(next);
+            }
+        };
+
+        /**
+         * Process a frame, or keep it for later if the worker is busy.
+         * @param frame received frame
+         */
+        const receive = (frame: Frame) => {
+            if (busy) {
+                pending = frame; // Replaces (drops) any older pending frame
+                return;
+            }
+            process(frame);
+        };
+
+        const onFrame = (event: EventData<"frame">) =>
+            receive({
+                ...event.data,
+                width: FRAME_WIDTH,
+                height: FRAME_HEIGHT,
+                mode: displayMode,
+            });
+
+        const onBinaryFrame = (message: BinaryMessage) => {
+            try {
+                const { header, blocks, raw } = parseFrame(message);
+                receive({
+                    raw,
+                    blocks,
+                    width: header.width,
+                    height: header.height,
+                    mode: header.format,
+                });
+            } catch (err) {
+                if (!(err instanceof DecodeError)) {
+                    throw err;
+                }
+                console.error(`rejected malformed frame: ${err.message}`);
             }
-        });
-    }, [fps]);
+        };
+
+        socket.subscribe("frame", onFrame);
+        socket.subscribeBinary("frame", onBinaryFrame);
+        return () => {
+            socket.unsubscribe("frame", onFrame);
+            socket.unsubscribeBinary("frame", onBinaryFrame);
+            worker.terminate();
+        };
+    }, [socket, capture, displayMode, displayFps, quality]);
 
     return (
-        <canvas
-            className="md:w-[640px] md:h-[400px]"
-            ref={canvas}
-            width="320"
-            height="200"
-        />
+        <div>
+            <div className="relative w-fit">
+                <canvas
+                    className="block md:w-[640px] md:h-[400px]"
+                    ref={canvas}
+                    width="320"
+                    height="200"
+                />
+                <HudOverlay layers={hud} />
+            </div>
+            <div className="my-2 text-sm text-gray-300">
+                <LayerToggles
+                    title="HUD"
+                    options={HUD_LAYERS}
+                    layers={hud}
+                    setLayers={hud => settings.update("camera", { hud })}
+                />
+            </div>
+            <BlockPanel
+                blocks={shownBlocks}
+                layers={layers}
+                setLayers={blocks => settings.update("camera", { blocks })}
+                frameWidth={FRAME_WIDTH}
+                frameHeight={FRAME_HEIGHT}
+            />
+        </div>
     );
 };
 
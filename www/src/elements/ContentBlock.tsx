@@ -7,16 +7,33 @@ import preact from "preact";
 import { useEffect, useState } from "preact/hooks";
 import { useSwipe } from "../helpers/hooks";
 import {
+    AdjustmentsHorizontalOutline,
     AdjustmentsVerticalOutline,
+    BugAntOutline,
+    Cog6ToothOutline,
+    DocumentTextOutline,
     PaperAirplaneOutline,
+    PresentationChartLineOutline,
+    WrenchScrewdriverOutline,
 } from "preact-heroicons";
 
+import EmergencyStop from "./EmergencyStop";
 import Sidebar, { SidebarNavigation } from "./Sidebar";
 import Spinner from "./Spinner";
 
 const sidebarNav: SidebarNavigation[] = [
     { name: "Dashboard", to: "/dashboard", icon: PaperAirplaneOutline },
     { name: "Actions", to: "/actions", icon: AdjustmentsVerticalOutline },
+    {
+        name: "Telemetry",
+        to: "/telemetry",
+        icon: PresentationChartLineOutline,
+    },
+    { name: "Controls", to: "/controls", icon: AdjustmentsHorizontalOutline },
+    { name: "Tuning", to: "/tuning", icon: WrenchScrewdriverOutline },
+    { name: "Settings", to: "/settings", icon: Cog6ToothOutline },
+    { name: "Logs", to: "/logs", icon: DocumentTextOutline },
+    { name: "Debug", to: "/debug", icon: BugAntOutline },
 ];
 
 interface ContentBlockProps {
@@ -57,6 +74,7 @@ const ContentBlock: preact.FunctionComponent<ContentBlockProps> = ({
             <div className="xl:pl-72 h-full">
                 {loading ? <Spinner /> : <div>{children}</div>}
             </div>
+            <EmergencyStop />
         </div>
     );
 };
@@ -0,0 +1,25 @@
+import preact from "preact";
+
+import HoldButton from "./HoldButton";
+
+import { useDrone } from "../helpers/hooks";
+
+const HOLD_TIME = 300; // Short enough to stay a single quick gesture, long enough to ignore brushes
+
+// Large emergency stop button, floating above the content of every page.
+const EmergencyStop: preact.FunctionComponent = () => {
+    const { safety } = useDrone();
+
+    return (
+        <HoldButton
+            onConfirm={() => safety.kill()}
+            holdTime={HOLD_TIME}
+            title="Emergency stop: kill the drone's motors and backing process"
+            className="fixed bottom-4 right-4 z-50 w-20 h-20 rounded-full bg-red-600 text-white font-bold shadow-lg ring-4 ring-red-900/60"
+        >
+            STOP
+        </HoldButton>
+    );
+};
+
+export default EmergencyStop;
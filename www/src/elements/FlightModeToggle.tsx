@@ -0,0 +1,35 @@
+import preact from "preact";
+
+import classNames from "../helpers/classNames";
+import { flightMode } from "../helpers/flightMode";
+import { useFlightMode } from "../helpers/hooks";
+
+// Button entering or leaving flight mode (fullscreen, landscape, screen kept awake).
+// Shows nothing on devices where flight mode wouldn't do anything.
+const FlightModeToggle: preact.FunctionComponent = () => {
+    const { active, awake } = useFlightMode();
+    if (!flightMode.supported) {
+        return null;
+    }
+
+    return (
+        <button
+            onClick={() =>
+                active ? flightMode.exit() : void flightMode.enter()
+            }
+            className={classNames(
+                "p-2 rounded text-white",
+                active ? "bg-blue-600" : "bg-gray-800",
+            )}
+            title={
+                active && !awake
+                    ? "The screen may still dim, keeping it awake needs HTTPS"
+                    : "Fullscreen and landscape, with the screen kept awake"
+            }
+        >
+            {active ? "Leave flight mode" : "Flight mode"}
+        </button>
+    );
+};
+
+export default FlightModeToggle;
@@ -0,0 +1,197 @@
+import preact from "preact";
+import { useEffect, useState } from "preact/hooks";
+import {
+    ArrowDownTrayOutline,
+    ArrowUpTrayOutline,
+    PauseOutline,
+    PlayOutline,
+    StopOutline,
+    VideoCameraOutline,
+    XMarkOutline,
+} from "preact-heroicons";
+
+import Alert from "./Alert";
+
+import { useDrone, useFileDownload, useFileUpload } from "../helpers/hooks";
+import { Session, parseSession } from "../helpers/recorder";
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4]; // Available playback speeds
+const POSITION_UPDATE_INTERVAL = 100; // Interval at which the seek bar is updated while playing, in ms
+
+/**
+ * @param ms duration in ms
+ * @returns the duration formatted as m:ss.s
+ */
+function formatTime(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    const seconds = ((ms % 60000) / 1000).toFixed(1).padStart(4, "0");
+    return `${minutes}:${seconds}`;
+}
+
+// Controls for recording telemetry to a file and replaying it.
+const FlightRecorder: preact.FunctionComponent = () => {
+    const { recorder, player } = useDrone();
+    const [, setRevision] = useState(0); // Bumped to re-render when the recorder/player changes
+    const [saved, setSaved] = useState<Session | null>(null); // Last recorded session, until saved
+    const [position, setPosition] = useState(player.position);
+    const [error, setError] = useState<string | null>(null);
+
+    const { downloadFile } = useFileDownload({
+        filename: `nwdrone-${saved?.start.replace(/[:.]/g, "-") ?? "session"}.json`,
+        filetype: "application/json",
+    });
+    const { openFilePicker } = useFileUpload({
+        accept: ".json,application/json",
+        onFileChange: file => {
+            file.text()
+                .then(text => {
+                    player.load(parseSession(text));
+                    setError(null);
+                })
+                .catch((err: Error) =>
+                    setError(`Failed to load session: ${err.message}`),
+                );
+        },
+    });
+
+    useEffect(() => {
+        const onChange = () => {
+            setRevision(r => r + 1);
+            setPosition(player.position);
+        };
+        recorder.subscribe(onChange);
+        player.subscribe(onChange);
+        return () => {
+            recorder.unsubscribe(onChange);
+            player.unsubscribe(onChange);
+        };
+    }, [recorder, player]);
+
+    const playing = player.playing;
+    useEffect(() => {
+        if (!playing) {
+            return;
+        }
+        const interval = window.setInterval(
+            () => setPosition(player.position),
+            POSITION_UPDATE_INTERVAL,
+        );
+        return () => window.clearInterval(interval);
+    }, [player, playing]);
+
+    const buttonClass =
+        "flex items-center gap-x-1 p-2 bg-gray-800 text-white rounded disabled:opacity-50";
+    const session = player.session;
+
+    return (
+        <div className="flex flex-col gap-2 m-4">
+            <div className="flex flex-wrap items-center gap-2">
+                {recorder.recording ? (
+                    <button
+                        onClick={() => setSaved(recorder.stop())}
+                        className={buttonClass}
+                        title="Stop recording"
+                    >
+                        <StopOutline className="h-5 w-5 text-red-500" />
+                        Stop ({recorder.length})
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => recorder.record()}
+                        disabled={!!session}
+                        className={buttonClass}
+                        title="Record all telemetry"
+                    >
+                        <VideoCameraOutline className="h-5 w-5" />
+                        Record
+                    </button>
+                )}
+                {saved && (
+                    <button
+                        onClick={() => {
+                            downloadFile(JSON.stringify(saved));
+                            setSaved(null);
+                        }}
+                        className={buttonClass}
+                        title="Save the last recording to a file"
+                    >
+                        <ArrowDownTrayOutline className="h-5 w-5" />
+                        Save
+                    </button>
+                )}
+                <button
+                    onClick={openFilePicker}
+                    disabled={recorder.recording}
+                    className={buttonClass}
+                    title="Load a recording to replay"
+                >
+                    <ArrowUpTrayOutline className="h-5 w-5" />
+                    Replay
+                </button>
+            </div>
+            {session && (
+                <div className="flex flex-wrap items-center gap-2 text-gray-300">
+                    <span className="px-2 py-1 text-xs font-bold bg-yellow-500 text-black rounded">
+                        REPLAY
+                    </span>
+                    <button
+                        onClick={() =>
+                            playing ? player.pause() : player.play()
+                        }
+                        className={buttonClass}
+                        title={playing ? "Pause" : "Play"}
+                    >
+                        {playing ? (
+                            <PauseOutline className="h-5 w-5" />
+                        ) : (
+                            <PlayOutline className="h-5 w-5" />
+                        )}
+                    </button>
+                    <input
+                        type="range"
+                        min={0}
+                        max={session.duration}
+                        step={10}
+                        value={position}
+                        onInput={e =>
+                            player.seek(Number(e.currentTarget.value))
+                        }
+                        className="flex-1 min-w-[8rem]"
+                    />
+                    <span className="font-mono text-sm">
+                        {formatTime(position)} / {formatTime(session.duration)}
+                    </span>
+                    <select
+                        value={player.speed}
+                        onChange={e =>
+                            player.setSpeed(Number(e.currentTarget.value))
+                        }
+                        className="p-1 bg-gray-800 rounded"
+                        title="Playback speed"
+                    >
+                        {SPEEDS.map(speed => (
+                            <option key={speed} value={speed}>
+                                {speed}x
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => player.unload()}
+                        className={buttonClass}
+                        title="Stop replaying and go back to live data"
+                    >
+                        <XMarkOutline className="h-5 w-5" />
+                        Live
+                    </button>
+                </div>
+            )}
+            {error && (
+                <Alert type="danger" onClose={() => setError(null)}>
+                    {error}
+                </Alert>
+            )}
+        </div>
+    );
+};
+
+export default FlightRecorder;
@@ -0,0 +1,73 @@
+import preact from "preact";
+import { useEffect, useState } from "preact/hooks";
+
+import { NEUTRAL_SETPOINT } from "../helpers/control";
+import { GamepadAction, GamepadState, pollGamepad } from "../helpers/gamepad";
+import { useDrone } from "../helpers/hooks";
+import { settings } from "../helpers/settings";
+
+// Flies the drone with a gamepad, if one is connected.
+// Sticks are mapped to the `move` event like the touch joystick, and buttons to actions.
+const GamepadControl: preact.FunctionComponent = () => {
+    const { control, safety } = useDrone();
+    const [id, setId] = useState<string | null>(null);
+
+    useEffect(() => {
+        let frame = 0;
+        let prev: GamepadState | null = null;
+
+        const poll = () => {
+            frame = requestAnimationFrame(poll);
+            // Read every poll so changes to the settings apply right away
+            const { gamepad: config, control: controlConfig } =
+                settings.current;
+            const state = pollGamepad(config);
+            setId(state?.id ?? null);
+            if (!state) {
+                // Also covers the gamepad being disconnected mid-flight
+                control.release("gamepad");
+                prev = null;
+                return;
+            }
+
+            // Centered sticks leave control to the other input sources
+            if (state.roll === 0 && state.pitch === 0) {
+                control.release("gamepad");
+            } else {
+                control.set("gamepad", {
+                    ...NEUTRAL_SETPOINT,
+                    roll: state.roll * controlConfig.maxOutput,
+                    pitch: state.pitch * controlConfig.maxOutput,
+                });
+            }
+
+            // Fire actions on the press (rising edge) of their button
+            for (const action of Object.keys(
+                config.buttons,
+            ) as GamepadAction[]) {
+                const index = config.buttons[action];
+                if (state.buttons[index] && !prev?.buttons[index]) {
+                    safety[action]();
+                }
+            }
+            prev = state;
+        };
+        frame = requestAnimationFrame(poll);
+
+        return () => {
+            cancelAnimationFrame(frame);
+            control.release("gamepad");
+        };
+    }, [control, safety]);
+
+    if (!id) {
+        return null;
+    }
+    return (
+        <div className="m-4 text-sm text-gray-400" title={id}>
+            Gamepad connected
+        </div>
+    );
+};
+
+export default GamepadControl;
@@ -0,0 +1,98 @@
+import preact from "preact";
+import { useEffect, useRef, useState } from "preact/hooks";
+
+import classNames from "../helpers/classNames";
+
+interface HoldButtonProps {
+    // Called once the button has been held for `holdTime`
+    onConfirm: () => void;
+    // Time the button must be held for, in ms
+    holdTime?: number;
+    disabled?: boolean;
+    title?: string;
+    className?: string;
+    children: preact.ComponentChildren;
+}
+
+// Button that only fires after being held down, so a stray tap (or a phone in a pocket) can't trigger it.
+// Works with pointers as well as the space/enter keys; the fill shows how far along the hold is.
+const HoldButton: preact.FunctionComponent<HoldButtonProps> = ({
+    onConfirm,
+    holdTime = 1500,
+    disabled,
+    title,
+    className,
+    children,
+}) => {
+    const [progress, setProgress] = useState(0); // 0-1
+    const frameRef = useRef(0);
+    const onConfirmRef = useRef(onConfirm);
+    onConfirmRef.current = onConfirm;
+
+    /**
+     * Start holding, firing once the hold time has passed.
+     */
+    const start = () => {
+        if (disabled || frameRef.current) {
+            return;
+        }
+        const startTime = performance.now();
+        const step = (now: number) => {
+            const p = Math.min((now - startTime) / holdTime, 1);
+            setProgress(p);
+            if (p >= 1) {
+                frameRef.current = 0;
+                setProgress(0);
+                onConfirmRef.current();
+                return;
+            }
+            frameRef.current = requestAnimationFrame(step);
+        };
+        frameRef.current = requestAnimationFrame(step);
+    };
+
+    /**
+     * Stop holding before the hold time has passed, cancelling.
+     */
+    const cancel = () => {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = 0;
+        setProgress(0);
+    };
+
+    useEffect(() => cancel, []);
+
+    const isHoldKey = (e: KeyboardEvent) => e.key === " " || e.key === "Enter";
+
+    return (
+        <button
+            onPointerDown={start}
+            onPointerUp={cancel}
+            onPointerLeave={cancel}
+            onPointerCancel={cancel}
+            onKeyDown={e => {
+                if (isHoldKey(e)) {
+                    e.preventDefault();
+                    start();
+                }
+            }}
+            onKeyUp={e => isHoldKey(e) && cancel()}
+            onBlur={cancel}
+            onContextMenu={e => e.preventDefault()} // Long presses open the context menu on touch devices
+            disabled={disabled}
+            title={title}
+            className={classNames(
+                "relative overflow-hidden select-none touch-none disabled:opacity-50",
+                className ?? "",
+            )}
+        >
+            <span
+                className="absolute inset-y-0 left-0 bg-black/30"
+                style={{ width: `${progress * 100}%` }}
+            />
+            <span className="relative">{children}</span>
+        </button>
+    );
+};
+
+export default HoldButton;
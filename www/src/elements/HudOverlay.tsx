@@ -0,0 +1,114 @@
+import preact from "preact";
+import { useCallback, useEffect, useRef } from "preact/hooks";
+
+import { decodeLegacy } from "../helpers/events";
+import { useSafety, useSocket, useSocketState } from "../helpers/hooks";
+import { HudLayers, HudState, drawHud } from "../helpers/hud";
+import { Direction, EventData, SocketData } from "../helpers/socket";
+
+interface HudOverlayProps {
+    layers: HudLayers;
+}
+
+// Heads-up display drawn over its (positioned) parent, sized to match it in CSS px.
+// Redraws at most once per animation frame, whenever anything it shows changes.
+const HudOverlay: preact.FunctionComponent<HudOverlayProps> = ({ layers }) => {
+    const canvas = useRef<HTMLCanvasElement>(null);
+    const socket = useSocket();
+    const connection = useSocketState();
+    const { armed, airborne } = useSafety();
+    const state = useRef<HudState>({
+        attitude: null,
+        command: null,
+        connection,
+        armed,
+        airborne,
+    });
+    const layersRef = useRef(layers);
+    const frame = useRef<number | null>(null);
+
+    /**
+     * Schedule a redraw for the next animation frame.
+     */
+    const redraw = useCallback(() => {
+        if (frame.current !== null) {
+            return;
+        }
+        frame.current = requestAnimationFrame(() => {
+            frame.current = null;
+            const el = canvas.current;
+            const ctx = el?.getContext("2d");
+            if (!el || !ctx) {
+                return;
+            }
+            const dpr = window.devicePixelRatio;
+            ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+            ctx.clearRect(0, 0, el.clientWidth, el.clientHeight);
+            drawHud(
+                ctx,
+                state.current,
+                layersRef.current,
+                el.clientWidth,
+                el.clientHeight,
+            );
+        });
+    }, []);
+
+    useEffect(() => {
+        state.current = { ...state.current, connection, armed, airborne };
+        layersRef.current = layers;
+        redraw();
+    }, [connection, armed, airborne, layers, redraw]);
+
+    useEffect(() => {
+        const el = canvas.current;
+        if (!el) {
+            return;
+        }
+        const resize = () => {
+            const dpr = window.devicePixelRatio;
+            el.width = Math.round(el.clientWidth * dpr);
+            el.height = Math.round(el.clientHeight * dpr);
+            redraw();
+        };
+        const observer = new ResizeObserver(resize);
+        observer.observe(el);
+
+        const onOrient = (event: EventData<"orient">) => {
+            state.current.attitude = event.data;
+            redraw();
+        };
+        const onData = (direction: Direction, raw: SocketData) => {
+            if (direction !== "out" || raw.event !== "move") {
+                return;
+            }
+            const move = decodeLegacy("move", raw.data);
+            if (!move) {
+                return; // e.g. replayed from a recording made before `move` had all its fields
+            }
+            state.current.command = { roll: move.roll, pitch: move.pitch };
+            redraw();
+        };
+        socket.subscribe("orient", onOrient);
+        socket.tap(onData);
+
+        return () => {
+            observer.disconnect();
+            socket.unsubscribe("orient", onOrient);
+            socket.untap(onData);
+            if (frame.current !== null) {
+                cancelAnimationFrame(frame.current);
+                frame.current = null;
+            }
+        };
+    }, [socket, redraw]);
+
+    return (
+        <canvas
+            ref={canvas}
+            className="absolute inset-0 w-full h-full pointer-events-none"
+        />
+    );
+};
+
+export default HudOverlay;
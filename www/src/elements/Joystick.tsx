@@ -1,46 +1,135 @@
 import nipplejs from "nipplejs";
 import { useEffect, useRef } from "preact/hooks";
 
-import { socket } from "../helpers/socket";
+import { useDrone, usePilot, useSettings } from "../helpers/hooks";
+import {
+    CENTER,
+    StickAxis,
+    StickPosition,
+    stickPosition,
+    sticksSetpoint,
+} from "../helpers/joystick";
+import { settings } from "../helpers/settings";
 
-const JOYSTICK_MAX_DIST = 50; // Maximum value of joystick distance
-const MAX_OUTPUT = 3; // For pitch/roll, degrees
+type Side = "left" | "right";
 
+// Axes of each stick, horizontal then vertical
+const STICK_AXES: Record<Side, [StickAxis, StickAxis]> = {
+    left: ["yaw", "climb"],
+    right: ["roll", "pitch"],
+};
+
+// Touch sticks, one for roll/pitch or two in "Mode 2" (see joystick.ts).
+// Both sticks feed a single input source, so they can be held at the same time.
 const Joystick = () => {
-    const joystickRef = useRef<HTMLDivElement>(null);
+    const { control, pilot } = useDrone();
+    const leftRef = useRef<HTMLDivElement>(null);
+    const rightRef = useRef<HTMLDivElement>(null);
+    const { role, current } = usePilot();
+    const { layout, axes } = useSettings().joystick;
 
     useEffect(() => {
-        const joystick = nipplejs.create({
-            zone: joystickRef.current,
-            mode: "static",
-            position: { left: "50%" },
-            color: "white",
-        });
+        const refs = { left: leftRef, right: rightRef };
+        const positions: Record<Side, StickPosition> = {
+            left: CENTER,
+            right: CENTER,
+        };
+        const held: Record<Side, boolean> = { left: false, right: false };
+
+        const update = () => {
+            const { joystick: config, control: controlConfig } =
+                settings.current;
+            const setpoint = sticksSetpoint(
+                positions.left,
+                positions.right,
+                config.axes,
+                controlConfig,
+            );
+            // Sticks left off-center keep control after being let go
+            if (
+                !held.left &&
+                !held.right &&
+                Object.values(setpoint).every(value => value === 0)
+            ) {
+                control.release("joystick");
+            } else {
+                control.set("joystick", setpoint);
+            }
+        };
 
-        joystick.on("move", (event, data) => {
-            const { angle, distance } = data;
+        // Let go of a stick, recentering the axes that spring back
+        const end = (side: Side) => {
+            const [xAxis, yAxis] = STICK_AXES[side];
+            const { x, y } = positions[side];
+            held[side] = false;
+            positions[side] = {
+                x: axes[xAxis].centering ? 0 : x,
+                y: axes[yAxis].centering ? 0 : y,
+            };
+        };
 
-            const normalizedDist = (distance / JOYSTICK_MAX_DIST) * MAX_OUTPUT; // Normalize to range [-MAX_OUTPUT, MAX_OUTPUT]
-            const roll = Math.cos(angle.radian) * normalizedDist;
-            const pitch = Math.sin(angle.radian) * normalizedDist;
-            socket.send({
-                event: "move",
-                data: { roll: roll.toFixed(3), pitch: (-pitch).toFixed(3) },
+        const sides: Side[] =
+            layout === "mode2" ? ["left", "right"] : ["right"];
+        const sticks = sides.map(side => {
+            const [xAxis, yAxis] = STICK_AXES[side];
+            const stick = nipplejs.create({
+                zone: refs[side].current,
+                mode: "static",
+                position: { left: "50%", top: "50%" },
+                color: "white",
+                restJoystick: {
+                    x: axes[xAxis].centering,
+                    y: axes[yAxis].centering,
+                },
             });
+            stick.on("move", (_, data) => {
+                held[side] = true;
+                positions[side] = stickPosition(
+                    data.angle.radian,
+                    data.distance,
+                    settings.current.joystick.maxDistance,
+                );
+                update();
+            });
+            stick.on("end", () => {
+                end(side);
+                update();
+            });
+            return stick;
         });
 
-        joystick.on("end", () => {
-            socket.send({ event: "move", data: { roll: "0.0", pitch: "0.0" } });
-        });
+        // nipplejs doesn't end the drag if the pointer is taken away (e.g. by a system gesture)
+        const cancel = () => {
+            sides.forEach(end);
+            update();
+        };
+        window.addEventListener("pointercancel", cancel);
+        window.addEventListener("touchcancel", cancel);
 
-        return () => joystick.destroy();
-    }, []);
+        return () => {
+            control.release("joystick");
+            window.removeEventListener("pointercancel", cancel);
+            window.removeEventListener("touchcancel", cancel);
+            sticks.forEach(stick => stick.destroy());
+        };
+    }, [control, layout, axes]);
 
     return (
         <div
-            ref={joystickRef}
+            className="flex"
             style={{ width: "100%", height: "100vh", position: "relative" }}
-        />
+        >
+            {layout === "mode2" && (
+                <div ref={leftRef} className="relative w-1/2 h-full" />
+            )}
+            <div ref={rightRef} className="relative flex-1 h-full" />
+            {/* Observers can't fly, cover the sticks so they can't be grabbed */}
+            {role === "observer" && (
+                <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/50 text-gray-300 text-sm">
+                    {`Observing, ${pilot.describe(current.pilot, current.pilot_name)} is in control`}
+                </div>
+            )}
+        </div>
     );
 };
 
@@ -0,0 +1,178 @@
+import preact, { Fragment } from "preact";
+import { useEffect, useState } from "preact/hooks";
+
+import classNames from "../helpers/classNames";
+import { NEUTRAL_SETPOINT } from "../helpers/control";
+import { useDrone } from "../helpers/hooks";
+import {
+    KEY_BINDINGS,
+    KeyboardAction,
+    actionForKey,
+    isTypingTarget,
+    rampToward,
+    targetFromKeys,
+} from "../helpers/keyboard";
+import { settings } from "../helpers/settings";
+
+// Legend rows, in the order they are shown
+const LEGEND: { action: KeyboardAction; label: string }[] = [
+    { action: "pitchForward", label: "Forward" },
+    { action: "pitchBack", label: "Back" },
+    { action: "rollLeft", label: "Left" },
+    { action: "rollRight", label: "Right" },
+    { action: "takeoff", label: "Takeoff" },
+    { action: "land", label: "Land" },
+    { action: "kill", label: "Kill" },
+];
+
+/**
+ * @param code `KeyboardEvent.code` of a key
+ * @returns a short human-readable name for the key
+ */
+function keyName(code: string): string {
+    return code
+        .replace(/^Key/, "")
+        .replace(/^Arrow(.*)$/, (_, dir: string) => `${dir} arrow`);
+}
+
+// Flies the drone with the keyboard.
+// Held keys set a target roll/pitch which the output ramps toward, feeding the same control loop as the touch joystick.
+const KeyboardControl: preact.FunctionComponent = () => {
+    const { control, safety } = useDrone();
+    const [held, setHeld] = useState<ReadonlySet<KeyboardAction>>(new Set());
+    const [typing, setTyping] = useState(false);
+
+    useEffect(() => {
+        const keys = new Set<KeyboardAction>();
+        let frame = 0;
+        let last = performance.now();
+        let roll = 0; // Current output, -1 to 1
+        let pitch = 0;
+
+        const update = () => setHeld(new Set(keys));
+
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (
+                isTypingTarget(e.target) ||
+                e.ctrlKey ||
+                e.metaKey ||
+                e.altKey
+            ) {
+                return;
+            }
+            const action = actionForKey(e.code);
+            if (!action) {
+                return;
+            }
+            e.preventDefault(); // Keep the arrow keys from scrolling the page
+            if (e.repeat) {
+                return;
+            }
+            switch (action) {
+                case "takeoff":
+                case "land":
+                case "kill":
+                    safety[action]();
+                    break;
+                default:
+                    keys.add(action);
+                    update();
+            }
+        };
+        const onKeyUp = (e: KeyboardEvent) => {
+            const action = actionForKey(e.code);
+            if (action && keys.delete(action)) {
+                update();
+            }
+        };
+        // Release everything when focus leaves the page or moves into a form field,
+        // as the matching keyup events will never arrive
+        const release = () => {
+            keys.clear();
+            update();
+        };
+        const onFocusIn = (e: FocusEvent) => {
+            const isTyping = isTypingTarget(e.target);
+            setTyping(isTyping);
+            if (isTyping) {
+                release();
+            }
+        };
+        const onFocusOut = () => setTyping(false);
+
+        const tick = (now: number) => {
+            frame = requestAnimationFrame(tick);
+            const { keyboard: config, control: controlConfig } =
+                settings.current;
+            const step = (config.rate * (now - last)) / 1000;
+            last = now;
+            const target = targetFromKeys(keys);
+            roll = rampToward(roll, target.roll, step);
+            pitch = rampToward(pitch, target.pitch, step);
+
+            // Keep control until the output has ramped back to the center
+            if (roll === 0 && pitch === 0) {
+                control.release("keyboard");
+            } else {
+                control.set("keyboard", {
+                    ...NEUTRAL_SETPOINT,
+                    roll: roll * controlConfig.maxOutput,
+                    pitch: pitch * controlConfig.maxOutput,
+                });
+            }
+        };
+        frame = requestAnimationFrame(tick);
+
+        window.addEventListener("keydown", onKeyDown);
+        window.addEventListener("keyup", onKeyUp);
+        window.addEventListener("blur", release);
+        document.addEventListener("focusin", onFocusIn);
+        document.addEventListener("focusout", onFocusOut);
+        return () => {
+            cancelAnimationFrame(frame);
+            window.removeEventListener("keydown", onKeyDown);
+            window.removeEventListener("keyup", onKeyUp);
+            window.removeEventListener("blur", release);
+            document.removeEventListener("focusin", onFocusIn);
+            document.removeEventListener("focusout", onFocusOut);
+            control.release("keyboard");
+        };
+    }, [control, safety]);
+
+    return (
+        <div
+            className={classNames(
+                "m-4 text-sm text-gray-400",
+                typing ? "opacity-50" : "",
+            )}
+        >
+            <div className="mb-1">
+                Keyboard{typing && " (paused while typing)"}
+            </div>
+            <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                {LEGEND.map(({ action, label }) => (
+                    <Fragment key={action}>
+                        <span className="flex gap-1">
+                            {KEY_BINDINGS[action].map(code => (
+                                <kbd
+                                    key={code}
+                                    className={classNames(
+                                        "px-1.5 rounded border border-gray-600 font-mono text-xs",
+                                        held.has(action)
+                                            ? "bg-blue-500 border-blue-500 text-white"
+                                            : "",
+                                    )}
+                                >
+                                    {keyName(code)}
+                                </kbd>
+                            ))}
+                        </span>
+                        <span>{label}</span>
+                    </Fragment>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default KeyboardControl;
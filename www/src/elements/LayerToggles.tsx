@@ -0,0 +1,36 @@
+// A row of checkboxes toggling the layers of an overlay.
+function LayerToggles<K extends string>({
+    options,
+    layers,
+    setLayers,
+    title,
+}: {
+    // Toggles in the order they are shown
+    options: { key: K; label: string }[];
+    layers: Record<K, boolean>;
+    setLayers: (layers: Record<K, boolean>) => void;
+    title?: string;
+}) {
+    return (
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {title && <span className="font-semibold">{title}</span>}
+            {options.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-x-1">
+                    <input
+                        type="checkbox"
+                        checked={layers[key]}
+                        onChange={e =>
+                            setLayers({
+                                ...layers,
+                                [key]: e.currentTarget.checked,
+                            })
+                        }
+                    />
+                    {label}
+                </label>
+            ))}
+        </div>
+    );
+}
+
+export default LayerToggles;
@@ -0,0 +1,63 @@
+import preact from "preact";
+import { useState } from "preact/hooks";
+
+import Alert from "./Alert";
+
+import { useDrone } from "../helpers/hooks";
+
+interface LoginFormProps {
+    error?: string | null; // Why the previous session ended, if it did
+}
+
+// Form exchanging the passphrase of the drone for a session.
+const LoginForm: preact.FunctionComponent<LoginFormProps> = ({ error }) => {
+    const { auth } = useDrone();
+    const [passphrase, setPassphrase] = useState("");
+    const [failure, setFailure] = useState<string | null>(null);
+    const [pending, setPending] = useState(false);
+
+    const submit = (e: Event) => {
+        e.preventDefault();
+        setPending(true);
+        setFailure(null);
+        auth.login(passphrase).catch((err: Error) => {
+            setFailure(err.message);
+            setPending(false);
+        });
+    };
+    const message = failure ?? error;
+
+    return (
+        <form
+            onSubmit={submit}
+            className="flex flex-col gap-3 w-full max-w-sm p-6 rounded-md bg-gray-900 text-gray-300 ring-1 ring-white/5"
+        >
+            <h2 className="text-lg font-semibold text-white">
+                Log in to nwdrone
+            </h2>
+            {message && <Alert type="danger">{message}</Alert>}
+            <input
+                type="password"
+                value={passphrase}
+                onInput={e => setPassphrase(e.currentTarget.value)}
+                placeholder="Passphrase"
+                autoComplete="current-password"
+                autoFocus
+                className="p-2 bg-gray-800 rounded"
+            />
+            <button
+                type="submit"
+                disabled={pending || !passphrase}
+                className="px-2 py-1 bg-gray-800 rounded text-white disabled:opacity-50"
+            >
+                {pending ? "Logging in..." : "Log in"}
+            </button>
+            <p className="text-sm text-gray-400">
+                The passphrase is set on the drone, or printed in its log when
+                it starts. To fly another drone, open the app it serves.
+            </p>
+        </form>
+    );
+};
+
+export default LoginForm;
@@ -0,0 +1,158 @@
+import preact from "preact";
+import { useState } from "preact/hooks";
+
+import Alert from "./Alert";
+
+import {
+    DecodeError,
+    EventName,
+    decode,
+    isEventName,
+    schema,
+} from "../helpers/events";
+import { useSocket } from "../helpers/hooks";
+import { SocketData } from "../helpers/socket";
+
+/**
+ * Parse the data of a message typed by hand.
+ * @param text JSON object, whose values are converted to strings like the wire format expects
+ * @returns the parsed data
+ */
+function parseData(text: string): SocketData["data"] {
+    const value: unknown = JSON.parse(text.trim() || "{}");
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new Error("data must be a JSON object");
+    }
+    return Object.fromEntries(
+        Object.entries(value).map(([key, v]) => {
+            if (typeof v === "object" && v !== null) {
+                throw new Error(`'${key}' must be a string, number or boolean`);
+            }
+            return [key, String(v)];
+        }),
+    );
+}
+
+/**
+ * @param event event in the schema
+ * @returns the data of the event with all of its fields empty, as JSON
+ */
+function template(event: EventName): string {
+    const fields = Object.keys(schema[event]);
+    return JSON.stringify(
+        Object.fromEntries(fields.map(field => [field, ""])),
+        null,
+        4,
+    );
+}
+
+// Form to hand-craft a message and send it to the drone, or inject it as if it had been received.
+const MessageComposer: preact.FunctionComponent = () => {
+    const socket = useSocket();
+    const [event, setEvent] = useState("");
+    const [text, setText] = useState("{}");
+    const [message, setMessage] = useState<{
+        type: "success" | "warning" | "danger";
+        text: string;
+    } | null>(null);
+
+    const submit = (direction: "in" | "out") => {
+        let data: SocketData;
+        try {
+            data = { event: event.trim(), data: parseData(text) };
+        } catch (err) {
+            setMessage({ type: "danger", text: (err as Error).message });
+            return;
+        }
+        if (!data.event) {
+            setMessage({ type: "danger", text: "event name is empty" });
+            return;
+        }
+        // Malformed data is still sent, testing how it is handled is the point
+        let warning: string | null = null;
+        if (!isEventName(data.event)) {
+            warning = `'${data.event}' is not in the schema`;
+        } else {
+            try {
+                decode(data.event, data.data);
+            } catch (err) {
+                if (!(err instanceof DecodeError)) {
+                    throw err;
+                }
+                warning = `doesn't match the schema (${err.message})`;
+            }
+        }
+        if (direction === "out") {
+            socket.send(data);
+        } else {
+            socket.inject("in", data);
+        }
+        const done = `${direction === "out" ? "Sent" : "Injected"} '${data.event}'`;
+        setMessage(
+            warning
+                ? { type: "warning", text: `${done}, but it ${warning}` }
+                : { type: "success", text: done },
+        );
+    };
+
+    const name = event.trim();
+    const buttonClass = "px-2 py-1 bg-gray-800 rounded text-sm";
+
+    return (
+        <div className="flex flex-col gap-2 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+                <input
+                    type="text"
+                    list="composer-events"
+                    value={event}
+                    onInput={e => setEvent(e.currentTarget.value)}
+                    placeholder="Event"
+                    className="p-1 bg-gray-800 rounded font-mono"
+                />
+                <datalist id="composer-events">
+                    {Object.keys(schema).map(known => (
+                        <option key={known} value={known} />
+                    ))}
+                </datalist>
+                <button
+                    onClick={() => isEventName(name) && setText(template(name))}
+                    disabled={!isEventName(name)}
+                    className={`${buttonClass} disabled:opacity-50`}
+                    title="Fill in the fields of the event from the schema"
+                >
+                    Fields
+                </button>
+            </div>
+            <textarea
+                value={text}
+                onInput={e => setText(e.currentTarget.value)}
+                rows={5}
+                spellcheck={false}
+                className="p-1 bg-gray-800 rounded font-mono text-xs"
+            />
+            <div className="flex flex-wrap gap-2">
+                <button
+                    onClick={() => submit("out")}
+                    className={buttonClass}
+                    title="Send the message to the drone"
+                >
+                    Send
+                </button>
+                <button
+                    onClick={() => submit("in")}
+                    className={buttonClass}
+                    title="Dispatch the message to this app as if the drone had sent it"
+                >
+                    Inject
+                </button>
+            </div>
+            {message && (
+                <Alert type={message.type} onClose={() => setMessage(null)}>
+                    {message.text}
+                </Alert>
+            )}
+        </div>
+    );
+};
+
+export default MessageComposer;
@@ -0,0 +1,116 @@
+import preact from "preact";
+
+import HoldButton from "./HoldButton";
+
+import classNames from "../helpers/classNames";
+import { useDrone, usePilot } from "../helpers/hooks";
+
+interface PilotPanelProps {
+    className?: string;
+}
+
+// Who is in control of the drone, with the buttons to ask for, answer, give up or take over control.
+// Shows nothing if the server doesn't arbitrate control.
+const PilotPanel: preact.FunctionComponent<PilotPanelProps> = ({
+    className,
+}) => {
+    const { pilot } = useDrone();
+    const { role, current, requesting } = usePilot();
+    if (!current) {
+        return null;
+    }
+    const buttonClass = "px-2 py-1 bg-gray-800 rounded text-sm text-white";
+
+    return (
+        <div
+            className={classNames(
+                "flex flex-col gap-2 p-3 rounded-md bg-gray-900 text-sm text-gray-300 ring-1 ring-white/5",
+                className ?? "",
+            )}
+        >
+            <div className="flex items-center gap-2">
+                <span
+                    className={classNames(
+                        "px-2 py-0.5 rounded font-mono text-xs font-semibold text-white",
+                        role === "pilot" ? "bg-green-600" : "bg-gray-600",
+                    )}
+                >
+                    {role === "pilot" ? "PILOT" : "OBSERVER"}
+                </span>
+                <span>
+                    {current.pilot
+                        ? `${pilot.describe(current.pilot, current.pilot_name)} ${role === "pilot" ? "are" : "is"} in control`
+                        : "Nobody is in control"}
+                </span>
+            </div>
+            {role === "pilot" ? (
+                <>
+                    {current.requester && (
+                        <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-yellow-500">
+                                {pilot.describe(
+                                    current.requester,
+                                    current.requester_name,
+                                )}{" "}
+                                asks for control
+                            </span>
+                            <button
+                                onClick={() => pilot.grant()}
+                                className={buttonClass}
+                            >
+                                Grant
+                            </button>
+                            <button
+                                onClick={() => pilot.deny()}
+                                className={buttonClass}
+                            >
+                                Deny
+                            </button>
+                        </div>
+                    )}
+                    <button
+                        onClick={() => pilot.release()}
+                        className={`${buttonClass} self-start`}
+                        title={
+                            current.requester
+                                ? "Hand control to the client asking for it"
+                                : "Give up control, leaving nobody in control"
+                        }
+                    >
+                        Release control
+                    </button>
+                </>
+            ) : (
+                <div className="flex flex-wrap items-center gap-2">
+                    {requesting ? (
+                        <button
+                            onClick={() => pilot.release()}
+                            className={buttonClass}
+                            title="Withdraw the request"
+                        >
+                            Waiting... (cancel)
+                        </button>
+                    ) : (
+                        <button
+                            onClick={() => pilot.request()}
+                            className={buttonClass}
+                        >
+                            {current.pilot ? "Ask for control" : "Take control"}
+                        </button>
+                    )}
+                    {current.pilot && (
+                        <HoldButton
+                            onConfirm={() => pilot.takeover()}
+                            className="px-2 py-1 bg-red-700 rounded text-sm text-white"
+                            title="Hold to take control without asking, for emergencies"
+                        >
+                            Take over
+                        </HoldButton>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PilotPanel;
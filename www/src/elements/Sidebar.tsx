@@ -7,6 +7,8 @@ import preact from "preact";
 import { Bars3MiniSolid, HeroIcon, XMarkOutline } from "preact-heroicons";
 import { Link } from "wouter-preact";
 
+import PilotPanel from "./PilotPanel";
+
 import classNames from "../helpers/classNames";
 
 export interface SidebarNavigation {
@@ -90,6 +92,9 @@ const Sidebar: preact.FunctionComponent<SidebarProps> = ({
                                     ))}
                                 </ul>
                             </li>
+                            <li className="mt-auto mb-6">
+                                <PilotPanel />
+                            </li>
                         </ul>
                     </nav>
                 </div>
@@ -153,6 +158,9 @@ const Sidebar: preact.FunctionComponent<SidebarProps> = ({
                                     ))}
                                 </ul>
                             </li>
+                            <li className="mt-auto mb-6">
+                                <PilotPanel />
+                            </li>
                         </ul>
                     </nav>
                 </div>
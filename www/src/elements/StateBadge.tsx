@@ -0,0 +1,26 @@
+import preact from "preact";
+
+import classNames from "../helpers/classNames";
+import { MotionState } from "../helpers/events";
+import { STATE_INFO } from "../helpers/status";
+
+interface StateBadgeProps {
+    state: MotionState | null; // State to show, null if unknown
+}
+
+// Badge showing the state of the drone's motion controller.
+const StateBadge: preact.FunctionComponent<StateBadgeProps> = ({ state }) => (
+    <span
+        className={classNames(
+            "px-2 py-0.5 rounded font-mono text-sm font-semibold",
+            state
+                ? `${STATE_INFO[state].color} text-white`
+                : "bg-gray-800 text-gray-400",
+        )}
+        title={state ? STATE_INFO[state].description : "No status received"}
+    >
+        {state ?? "UNKNOWN"}
+    </span>
+);
+
+export default StateBadge;
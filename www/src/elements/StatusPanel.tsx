@@ -0,0 +1,166 @@
+import preact from "preact";
+
+import StateBadge from "./StateBadge";
+
+import { useStatus } from "../helpers/hooks";
+
+// -- Altitude tape --
+const TAPE_WIDTH = 72; // px
+const TAPE_HEIGHT = 220; // px
+const TAPE_SPAN = 100; // Altitude range visible on the tape, cm
+const TICK_STEP = 10; // cm
+const LABEL_STEP = 50; // cm
+
+// Motors, in the same order as quad.motorThrusts() in /src/control/quad.zig
+const MOTORS: { key: "fl" | "fr" | "bl" | "br"; label: string }[] = [
+    { key: "fl", label: "FL" },
+    { key: "fr", label: "FR" },
+    { key: "bl", label: "BL" },
+    { key: "br", label: "BR" },
+];
+
+interface AltitudeTapeProps {
+    alt: number; // Measured altitude, cm
+    target: number; // Altitude setpoint, cm
+}
+
+// Scrolling altitude tape centered on the measured altitude, with a bug at the setpoint.
+const AltitudeTape: preact.FunctionComponent<AltitudeTapeProps> = ({
+    alt,
+    target,
+}) => {
+    const scale = TAPE_HEIGHT / TAPE_SPAN; // px/cm
+    const toY = (value: number) => TAPE_HEIGHT / 2 - (value - alt) * scale;
+    const ticks: number[] = [];
+    const first = Math.ceil((alt - TAPE_SPAN / 2) / TICK_STEP) * TICK_STEP;
+    for (let t = Math.max(first, 0); t <= alt + TAPE_SPAN / 2; t += TICK_STEP) {
+        ticks.push(t);
+    }
+    // The bug stays on the edge of the tape while the setpoint is out of view
+    const targetY = Math.min(Math.max(toY(target), 0), TAPE_HEIGHT);
+
+    return (
+        <svg
+            width={TAPE_WIDTH}
+            height={TAPE_HEIGHT}
+            className="bg-gray-900 rounded font-mono"
+        >
+            <title>{`Altitude ${alt.toFixed(1)} cm, target ${target.toFixed(1)} cm`}</title>
+            {alt - TAPE_SPAN / 2 < 0 && (
+                // Ground
+                <rect
+                    x={0}
+                    y={toY(0)}
+                    width={TAPE_WIDTH}
+                    height={TAPE_HEIGHT - toY(0)}
+                    className="fill-amber-900/50"
+                />
+            )}
+            {ticks.map(t => (
+                <g key={t}>
+                    <line
+                        x1={TAPE_WIDTH - (t % LABEL_STEP === 0 ? 14 : 8)}
+                        x2={TAPE_WIDTH}
+                        y1={toY(t)}
+                        y2={toY(t)}
+                        className="stroke-gray-500"
+                    />
+                    {t % LABEL_STEP === 0 && (
+                        <text
+                            x={TAPE_WIDTH - 18}
+                            y={toY(t) + 4}
+                            textAnchor="end"
+                            className="fill-gray-400 text-[10px]"
+                        >
+                            {t}
+                        </text>
+                    )}
+                </g>
+            ))}
+            <polygon
+                points={`${TAPE_WIDTH},${targetY} ${TAPE_WIDTH - 10},${targetY - 6} ${TAPE_WIDTH - 10},${targetY + 6}`}
+                className="fill-sky-400"
+            />
+            <rect
+                x={2}
+                y={TAPE_HEIGHT / 2 - 10}
+                width={TAPE_WIDTH - 16}
+                height={20}
+                rx={3}
+                className="fill-black stroke-white"
+            />
+            <text
+                x={TAPE_WIDTH - 18}
+                y={TAPE_HEIGHT / 2 + 4}
+                textAnchor="end"
+                className="fill-white text-xs"
+            >
+                {alt.toFixed(0)}
+            </text>
+        </svg>
+    );
+};
+
+interface ThrustBarProps {
+    label: string;
+    value: number; // Thrust, %
+}
+
+// Horizontal bar showing a thrust value.
+const ThrustBar: preact.FunctionComponent<ThrustBarProps> = ({
+    label,
+    value,
+}) => (
+    <div className="flex items-center gap-2 text-xs">
+        <span className="w-8 font-mono">{label}</span>
+        <div className="relative w-24 h-3 bg-gray-800 rounded overflow-hidden">
+            <div
+                className="absolute inset-y-0 left-0 bg-green-600"
+                style={{ width: `${Math.min(Math.max(value, 0), 100)}%` }}
+            />
+        </div>
+        <span className="w-12 text-right font-mono">{value.toFixed(1)}%</span>
+    </div>
+);
+
+// Panel showing the flight status reported by the drone: state, altitude and thrust.
+const StatusPanel: preact.FunctionComponent = () => {
+    const status = useStatus();
+
+    return (
+        <div className="flex flex-col gap-2 m-4 text-sm text-gray-300">
+            <div className="flex items-center gap-2">
+                <span>State</span>
+                <StateBadge state={status?.state ?? null} />
+            </div>
+            {status ? (
+                <div className="flex flex-wrap items-start gap-4">
+                    <AltitudeTape alt={status.alt} target={status.target_alt} />
+                    <div className="flex flex-col gap-1">
+                        <span className="font-mono">
+                            Alt {status.alt.toFixed(1)} cm
+                        </span>
+                        <span className="font-mono text-sky-400">
+                            Target {status.target_alt.toFixed(1)} cm
+                        </span>
+                        <span className="mt-2">Thrust</span>
+                        <ThrustBar label="Base" value={status.base} />
+                        {MOTORS.map(({ key, label }) => (
+                            <ThrustBar
+                                key={key}
+                                label={label}
+                                value={status[key]}
+                            />
+                        ))}
+                    </div>
+                </div>
+            ) : (
+                <p className="text-gray-400">
+                    No status from the drone, altitude and thrust are unknown.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default StatusPanel;
@@ -0,0 +1,226 @@
+import preact from "preact";
+import { useEffect, useRef } from "preact/hooks";
+
+import { TimeSeries } from "../helpers/timeseries";
+
+const MAX_FPS = 30; // Charts are never redrawn faster than this, to leave the main thread free
+const PADDING = { left: 40, right: 8, top: 8, bottom: 20 }; // Space around the plot area, in CSS px
+export const CURSOR_COLORS = ["#facc15", "#22d3ee"]; // Colors of the inspect cursors, in order
+
+export interface ChartSeries {
+    name: string;
+    color: string;
+    data: TimeSeries;
+    visible: boolean;
+    // Draw as sample-and-hold steps instead of straight lines between samples
+    step?: boolean;
+}
+
+interface TimeSeriesChartProps {
+    series: ChartSeries[];
+    // Width of the time window, in s
+    timeWindow: number;
+    // End of the time window while frozen, in s (on the `performance.now()` timebase), or null to follow live data
+    frozenAt: number | null;
+    // Times of the inspect cursors, in s
+    cursors: number[];
+    // Called with the time under the pointer when the chart is clicked
+    onClick?: (time: number) => void;
+    height?: number;
+}
+
+/**
+ * @param range range of values to cover
+ * @returns a "nice" grid step (1, 2 or 5 times a power of ten) giving roughly 5 lines
+ */
+function gridStep(range: number): number {
+    const rough = range / 5;
+    const magnitude = 10 ** Math.floor(Math.log10(rough));
+    const normalized = rough / magnitude;
+    const nice = normalized < 2 ? 1 : normalized < 5 ? 2 : 5;
+    return nice * magnitude;
+}
+
+// Canvas-based rolling time-series chart.
+// Drawing happens in a throttled animation frame loop that reads the latest props from a ref,
+// so new samples never cause a re-render of the component itself.
+const TimeSeriesChart: preact.FunctionComponent<
+    TimeSeriesChartProps
+> = props => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const propsRef = useRef(props);
+    propsRef.current = props;
+    const viewRef = useRef({ start: 0, end: 0, width: 0 }); // Time window of the last drawn frame
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx) {
+            return;
+        }
+        let frame = 0;
+        let lastDraw = 0;
+
+        const draw = (now: number) => {
+            frame = requestAnimationFrame(draw);
+            if (now - lastDraw < 1000 / MAX_FPS) {
+                return;
+            }
+            lastDraw = now;
+
+            const { series, timeWindow, frozenAt, cursors } = propsRef.current;
+            const dpr = devicePixelRatio || 1;
+            const width = canvas.clientWidth;
+            const height = canvas.clientHeight;
+            if (
+                canvas.width !== Math.round(width * dpr) ||
+                canvas.height !== Math.round(height * dpr)
+            ) {
+                canvas.width = Math.round(width * dpr);
+                canvas.height = Math.round(height * dpr);
+            }
+            ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+            ctx.clearRect(0, 0, width, height);
+
+            const end = frozenAt ?? performance.now() / 1000;
+            const start = end - timeWindow;
+            const plotW = width - PADDING.left - PADDING.right;
+            const plotH = height - PADDING.top - PADDING.bottom;
+            viewRef.current = { start, end, width: plotW };
+            if (plotW <= 0 || plotH <= 0) {
+                return;
+            }
+
+            // Find the range of values in the window
+            let min = Infinity;
+            let max = -Infinity;
+            const visible = series.filter(s => s.visible);
+            for (const s of visible) {
+                const first = Math.max(s.data.indexAt(start), 0);
+                for (let i = first; i < s.data.length; i++) {
+                    const v = s.data.valueAt(i);
+                    min = Math.min(min, v);
+                    max = Math.max(max, v);
+                }
+            }
+            if (!isFinite(min)) {
+                min = -1;
+                max = 1;
+            }
+            const pad = Math.max((max - min) * 0.1, 0.5);
+            min -= pad;
+            max += pad;
+            const toX = (t: number) =>
+                PADDING.left + ((t - start) / timeWindow) * plotW;
+            const toY = (v: number) =>
+                PADDING.top + (1 - (v - min) / (max - min)) * plotH;
+
+            // Grid and labels
+            ctx.font = "10px sans-serif";
+            ctx.lineWidth = 1;
+            ctx.strokeStyle = "rgba(255, 255, 255, 0.1)";
+            ctx.fillStyle = "rgba(255, 255, 255, 0.5)";
+            const yStep = gridStep(max - min);
+            ctx.textAlign = "right";
+            ctx.textBaseline = "middle";
+            for (let v = Math.ceil(min / yStep) * yStep; v <= max; v += yStep) {
+                const y = Math.round(toY(v)) + 0.5;
+                ctx.beginPath();
+                ctx.moveTo(PADDING.left, y);
+                ctx.lineTo(width - PADDING.right, y);
+                ctx.stroke();
+                ctx.fillText(v.toFixed(yStep < 1 ? 1 : 0), PADDING.left - 4, y);
+            }
+            const tStep = gridStep(timeWindow);
+            ctx.textAlign = "center";
+            ctx.textBaseline = "top";
+            for (let t = 0; t <= timeWindow; t += tStep) {
+                const x = Math.round(toX(end - t)) + 0.5;
+                ctx.beginPath();
+                ctx.moveTo(x, PADDING.top);
+                ctx.lineTo(x, PADDING.top + plotH);
+                ctx.stroke();
+                ctx.fillText(t === 0 ? "now" : `-${t}s`, x, height - 14);
+            }
+
+            // Series, clipped to the plot area
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(PADDING.left, PADDING.top, plotW, plotH);
+            ctx.clip();
+            ctx.lineWidth = 1.5;
+            for (const s of visible) {
+                const data = s.data;
+                // Start one sample before the window so the line enters from the left edge
+                const first = Math.max(data.indexAt(start), 0);
+                ctx.strokeStyle = s.color;
+                ctx.beginPath();
+                let prevY = NaN;
+                let column = -Infinity; // Pixel column of the last drawn sample
+                for (let i = first; i < data.length; i++) {
+                    const x = toX(data.timeAt(i));
+                    const y = toY(data.valueAt(i));
+                    if (isNaN(prevY)) {
+                        ctx.moveTo(x, y);
+                    } else {
+                        // Skip samples that would land on the last drawn pixel
+                        if (
+                            Math.floor(x) === column &&
+                            Math.abs(y - prevY) < 1
+                        ) {
+                            continue;
+                        }
+                        if (s.step) {
+                            ctx.lineTo(x, prevY);
+                        }
+                        ctx.lineTo(x, y);
+                    }
+                    prevY = y;
+                    column = Math.floor(x);
+                }
+                if (s.step && !isNaN(prevY)) {
+                    ctx.lineTo(toX(end), prevY); // Hold the last value until now
+                }
+                ctx.stroke();
+            }
+            ctx.restore();
+
+            // Inspect cursors
+            cursors.forEach((t, i) => {
+                const x = Math.round(toX(t)) + 0.5;
+                ctx.strokeStyle = CURSOR_COLORS[i % CURSOR_COLORS.length];
+                ctx.setLineDash([4, 4]);
+                ctx.beginPath();
+                ctx.moveTo(x, PADDING.top);
+                ctx.lineTo(x, PADDING.top + plotH);
+                ctx.stroke();
+                ctx.setLineDash([]);
+            });
+        };
+        frame = requestAnimationFrame(draw);
+
+        return () => cancelAnimationFrame(frame);
+    }, []);
+
+    const handleClick = (e: MouseEvent) => {
+        const canvas = canvasRef.current;
+        if (!canvas || !props.onClick) {
+            return;
+        }
+        const { start, end, width } = viewRef.current;
+        const x = e.clientX - canvas.getBoundingClientRect().left;
+        const t = start + ((x - PADDING.left) / width) * (end - start);
+        props.onClick(Math.min(Math.max(t, start), end));
+    };
+
+    return (
+        <canvas
+            ref={canvasRef}
+            onClick={handleClick}
+            className="w-full cursor-crosshair"
+            style={{ height: `${props.height ?? 300}px` }}
+        />
+    );
+};
+
+export default TimeSeriesChart;
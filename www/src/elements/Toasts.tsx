@@ -0,0 +1,38 @@
+import preact from "preact";
+import { useEffect, useState } from "preact/hooks";
+
+import Alert from "./Alert";
+
+import { toasts } from "../helpers/toasts";
+
+// Stack of transient notifications in the corner of the screen.
+const Toasts: preact.FunctionComponent = () => {
+    const [current, setCurrent] = useState(toasts.current);
+
+    useEffect(() => {
+        toasts.subscribe(setCurrent);
+        return () => toasts.unsubscribe(setCurrent);
+    }, []);
+
+    return (
+        <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+            {current.map(toast => (
+                // Alerts are translucent, give them something opaque to sit on
+                <div
+                    key={toast.id}
+                    className="rounded-md bg-gray-900 shadow-lg"
+                >
+                    <Alert
+                        type={toast.type}
+                        onClose={() => toasts.dismiss(toast.id)}
+                        className="break-words"
+                    >
+                        {toast.text}
+                    </Alert>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default Toasts;
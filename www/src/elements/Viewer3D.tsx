@@ -1,66 +1,286 @@
 import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 import preact from "preact";
 import { useEffect, useRef } from "preact/hooks";
 
-import { socket } from "../helpers/socket";
+import { useSocket } from "../helpers/hooks";
+import { EventData } from "../helpers/socket";
 
+const ARM_LENGTH = 1.6; // Distance from the center to each motor
+const PROP_RADIUS = 0.7;
+const FRONT_COLOR = 0xef4444;
+const BACK_COLOR = 0x9ca3af;
+const SMOOTHING = 0.08; // Time constant of the orientation interpolation, in s
+const GIZMO_SIZE = 80; // Size of the axis gizmo in the bottom left corner, in CSS px
+
+// Motors of the quad, matching the motor definitions in /src/control/quad.zig
+const MOTORS = [
+    { name: "FL", x: -1, z: -1, spin: "CW" },
+    { name: "FR", x: 1, z: -1, spin: "CCW" },
+    { name: "BL", x: -1, z: 1, spin: "CCW" },
+    { name: "BR", x: 1, z: 1, spin: "CW" },
+];
+
+/**
+ * Create a sprite showing a short text label, which always faces the camera.
+ * @param text text of the label
+ * @param color CSS color of the text
+ * @returns the sprite, one unit tall
+ */
+function makeLabel(text: string, color: string): THREE.Sprite {
+    const canvas = document.createElement("canvas");
+    canvas.width = 128;
+    canvas.height = 64;
+    const ctx = canvas.getContext("2d");
+    if (ctx) {
+        ctx.font = "bold 44px sans-serif";
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillStyle = color;
+        ctx.fillText(text, 64, 32);
+    }
+    const sprite = new THREE.Sprite(
+        new THREE.SpriteMaterial({
+            map: new THREE.CanvasTexture(canvas),
+            depthTest: false,
+        }),
+    );
+    sprite.scale.set(1, 0.5, 1);
+    return sprite;
+}
+
+/**
+ * Build the quad model, with its front towards -Z and its top towards +Y.
+ * @returns the model
+ */
+function makeQuad(): THREE.Group {
+    const quad = new THREE.Group();
+    const frame = new THREE.MeshStandardMaterial({ color: 0x374151 });
+
+    const body = new THREE.Mesh(new THREE.BoxGeometry(0.9, 0.3, 1.2), frame);
+    quad.add(body);
+
+    // Nose pointing forwards, so the front can be told apart at any angle
+    const nose = new THREE.Mesh(
+        new THREE.ConeGeometry(0.2, 0.5, 16),
+        new THREE.MeshStandardMaterial({ color: FRONT_COLOR }),
+    );
+    nose.rotation.x = -Math.PI / 2;
+    nose.position.z = -0.85;
+    quad.add(nose);
+
+    for (const { name, x, z, spin } of MOTORS) {
+        const color = z < 0 ? FRONT_COLOR : BACK_COLOR;
+        const position = new THREE.Vector3(x, 0, z)
+            .normalize()
+            .multiplyScalar(ARM_LENGTH);
+
+        const arm = new THREE.Mesh(
+            new THREE.BoxGeometry(0.12, 0.08, ARM_LENGTH),
+            frame,
+        );
+        arm.position.copy(position).multiplyScalar(0.5);
+        arm.lookAt(position);
+        quad.add(arm);
+
+        const motor = new THREE.Mesh(
+            new THREE.CylinderGeometry(0.15, 0.15, 0.25, 16),
+            new THREE.MeshStandardMaterial({ color }),
+        );
+        motor.position.copy(position).setY(0.1);
+        quad.add(motor);
+
+        const prop = new THREE.Mesh(
+            new THREE.CircleGeometry(PROP_RADIUS, 32),
+            new THREE.MeshBasicMaterial({
+                color,
+                transparent: true,
+                opacity: 0.25,
+                side: THREE.DoubleSide,
+            }),
+        );
+        prop.rotation.x = -Math.PI / 2;
+        prop.position.copy(position).setY(0.25);
+        quad.add(prop);
+
+        const label = makeLabel(`${name} ${spin}`, "#ffffff");
+        label.position.copy(position).setY(0.7);
+        quad.add(label);
+    }
+    return quad;
+}
+
+/**
+ * Build the axis gizmo, with the quad's axes in the same colors as `THREE.AxesHelper`.
+ * @returns the gizmo
+ */
+function makeGizmo(): THREE.Group {
+    const gizmo = new THREE.Group();
+    gizmo.add(new THREE.AxesHelper(1));
+    const axes: [string, string, THREE.Vector3][] = [
+        ["X", "#ff4040", new THREE.Vector3(1.4, 0, 0)],
+        ["Y", "#40ff40", new THREE.Vector3(0, 1.4, 0)],
+        ["Z", "#4080ff", new THREE.Vector3(0, 0, 1.4)],
+    ];
+    for (const [text, color, position] of axes) {
+        const label = makeLabel(text, color);
+        label.position.copy(position);
+        gizmo.add(label);
+    }
+    return gizmo;
+}
+
+/**
+ * Release the GPU resources of every object in a scene.
+ * @param scene scene to dispose of
+ */
+function disposeScene(scene: THREE.Scene): void {
+    scene.traverse(object => {
+        if (
+            object instanceof THREE.Mesh ||
+            object instanceof THREE.LineSegments ||
+            object instanceof THREE.Sprite
+        ) {
+            // instanceof narrows to `any` geometry and material, so restore the default types
+            const { geometry, material } = object as
+                THREE.Mesh | THREE.LineSegments | THREE.Sprite;
+            geometry.dispose();
+            const materials = Array.isArray(material) ? material : [material];
+            for (const m of materials) {
+                if (m instanceof THREE.SpriteMaterial) {
+                    m.map?.dispose();
+                }
+                m.dispose();
+            }
+        }
+    });
+}
+
+/**
+ * Convert an attitude from the backend to a quaternion.
+ * Positive roll lowers the right side, positive pitch raises the nose and positive yaw turns the nose left,
+ * as the mixer in /src/control/quad.zig corrects them.
+ * @param attitude attitude in degrees
+ * @returns the orientation of the quad model
+ */
+function toQuaternion({
+    roll,
+    pitch,
+    yaw,
+}: EventData<"orient">["data"]): THREE.Quaternion {
+    const { degToRad } = THREE.MathUtils;
+    return new THREE.Quaternion().setFromEuler(
+        new THREE.Euler(degToRad(pitch), degToRad(yaw), -degToRad(roll), "YXZ"),
+    );
+}
+
+// 3D view of the drone's attitude, with orbit controls to look around it.
 const Viewer3D: preact.FunctionComponent = () => {
     const containerRef = useRef<HTMLDivElement>(null);
-    const sceneRef = useRef<THREE.Scene>();
-    const cameraRef = useRef<THREE.PerspectiveCamera>();
-    const rendererRef = useRef<THREE.WebGLRenderer>();
-    const cubeRef = useRef<THREE.Mesh>();
+    const socket = useSocket();
 
     useEffect(() => {
-        // Set up the scene, camera, and renderer
+        const container = containerRef.current;
+        if (!container) {
+            return;
+        }
+
         const scene = new THREE.Scene();
-        sceneRef.current = scene;
-        const camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
-        camera.position.z = 5;
-        cameraRef.current = camera;
+        const camera = new THREE.PerspectiveCamera(50, 1, 0.1, 100);
+        camera.position.set(3, 3, 5);
         const renderer = new THREE.WebGLRenderer({ antialias: true });
-        renderer.setSize(300, 300); // You can adjust this to fit your layout
-        renderer.setClearColor(0x000000, 0); // Set background to be transparent
-        const container = containerRef.current;
-        container?.appendChild(renderer.domElement);
-        rendererRef.current = renderer;
-
-        // Add a wireframe cube to the scene
-        const geometry = new THREE.BoxGeometry();
-        const material = new THREE.MeshBasicMaterial({
-            color: 0x00ff00,
-            wireframe: true,
-        });
-        const cube = new THREE.Mesh(geometry, material);
-        cube.scale.set(4, 4, 2); // Scale the cube to be twice its original size
-        scene.add(cube);
-        cubeRef.current = cube;
-
-        // Update cube rotation on orientation event
-        socket.subscribe("orient", event => {
-            if (!cubeRef.current) {
+        renderer.setPixelRatio(window.devicePixelRatio);
+        renderer.setClearColor(0x000000, 0); // Transparent background
+        renderer.autoClear = false; // Cleared manually to draw the gizmo on top
+        renderer.domElement.className = "block w-full h-full";
+        container.appendChild(renderer.domElement);
+
+        scene.add(new THREE.AmbientLight(0xffffff, 1.5));
+        const light = new THREE.DirectionalLight(0xffffff, 2);
+        light.position.set(2, 5, 3);
+        scene.add(light);
+        const grid = new THREE.GridHelper(10, 20, 0x6b7280, 0x374151);
+        grid.position.y = -1;
+        scene.add(grid);
+        const quad = makeQuad();
+        scene.add(quad);
+
+        // The gizmo is rendered separately, from the same direction as the main camera
+        const gizmoScene = new THREE.Scene();
+        const gizmoCamera = new THREE.OrthographicCamera(-2, 2, 2, -2, 0, 10);
+        gizmoScene.add(makeGizmo());
+
+        const controls = new OrbitControls(camera, renderer.domElement);
+        controls.enableDamping = true;
+        controls.enablePan = false;
+        controls.minDistance = 3;
+        controls.maxDistance = 20;
+
+        const resize = () => {
+            const { clientWidth: width, clientHeight: height } = container;
+            if (width === 0 || height === 0) {
                 return;
             }
+            renderer.setSize(width, height, false);
+            camera.aspect = width / height;
+            camera.updateProjectionMatrix();
+        };
+        const observer = new ResizeObserver(resize);
+        observer.observe(container);
+        resize();
+
+        // Orientation is eased towards the latest attitude instead of jumping between updates
+        let target = new THREE.Quaternion();
+        const onOrient = (event: EventData<"orient">) => {
+            target = toQuaternion(event.data);
+        };
+        socket.subscribe("orient", onOrient);
 
-            const { roll, pitch, yaw } = event.data;
-            cubeRef.current.rotation.x = THREE.MathUtils.degToRad(
-                Number(pitch),
-            );
-            cubeRef.current.rotation.y = THREE.MathUtils.degToRad(Number(roll));
-            cubeRef.current.rotation.z = THREE.MathUtils.degToRad(Number(yaw));
+        const size = new THREE.Vector2();
+        let frame = 0;
+        let last = performance.now();
+        const render = (now: number) => {
+            const dt = (now - last) / 1000;
+            last = now;
+            quad.quaternion.slerp(target, 1 - Math.exp(-dt / SMOOTHING));
+            controls.update();
 
+            renderer.getSize(size);
+            renderer.setViewport(0, 0, size.x, size.y);
+            renderer.clear();
             renderer.render(scene, camera);
-        });
+
+            gizmoCamera.position
+                .copy(camera.position)
+                .sub(controls.target)
+                .setLength(5);
+            gizmoCamera.quaternion.copy(camera.quaternion);
+            renderer.clearDepth();
+            renderer.setViewport(0, 0, GIZMO_SIZE, GIZMO_SIZE);
+            renderer.render(gizmoScene, gizmoCamera);
+
+            frame = requestAnimationFrame(render);
+        };
+        frame = requestAnimationFrame(render);
 
         return () => {
-            // Clean up on unmount
-            if (container) {
-                container.removeChild(renderer.domElement);
-            }
+            cancelAnimationFrame(frame);
+            socket.unsubscribe("orient", onOrient);
+            observer.disconnect();
+            controls.dispose();
+            disposeScene(scene);
+            disposeScene(gizmoScene);
+            renderer.dispose();
+            container.removeChild(renderer.domElement);
         };
-    }, []);
+    }, [socket]);
 
-    return <div ref={containerRef} />;
+    return (
+        <div
+            ref={containerRef}
+            className="w-full max-w-xl aspect-square sm:aspect-video"
+        />
+    );
 };
 
 export default Viewer3D;
@@ -0,0 +1,90 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import {
+    afterEach,
+    beforeEach,
+    describe,
+    expect,
+    jest,
+    test,
+} from "@jest/globals";
+
+import { Auth } from "./auth";
+import { Socket } from "./socket";
+import { Loopback } from "./transport";
+
+let loopback: Loopback;
+let socket: Socket;
+let fetchMock: jest.Mock<typeof fetch>;
+
+/**
+ * @param status status of the answer
+ * @returns an answer of the server to a session check
+ */
+function answer(status: number): Response {
+    return {
+        ok: status >= 200 && status < 300,
+        status,
+        json: () => Promise.resolve({}),
+    } as Response;
+}
+
+/**
+ * Restore a session, and lose the connection opened with it.
+ * @returns the auth state
+ */
+function disconnect(): Auth {
+    localStorage.setItem(
+        "nwdrone.auth",
+        JSON.stringify({ token: "token", expires: Date.now() + 60000 }),
+    );
+    const auth = new Auth(socket);
+    socket.open("ws://drone.test/ws", auth.token);
+    loopback.accept();
+    loopback.drop();
+    return auth;
+}
+
+beforeEach(() => {
+    jest.useFakeTimers();
+    loopback = new Loopback();
+    socket = new Socket(loopback.transport);
+    fetchMock = jest.fn<typeof fetch>();
+    globalThis.fetch = fetchMock;
+});
+
+afterEach(() => {
+    socket.close();
+    localStorage.clear();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+describe("session checks", () => {
+    test("keep going while the drone can't be reached", async () => {
+        fetchMock
+            .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+            .mockResolvedValueOnce(answer(401));
+        const auth = disconnect();
+        await jest.advanceTimersByTimeAsync(0);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(auth.token).toBe("token");
+
+        await jest.advanceTimersByTimeAsync(2000);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(auth.token).toBeNull();
+        expect(auth.error).toBe(
+            "Your session is no longer valid, log in again.",
+        );
+    });
+
+    test("stop once the session is known to be valid", async () => {
+        fetchMock.mockResolvedValue(answer(200));
+        const auth = disconnect();
+        await jest.advanceTimersByTimeAsync(10000);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(auth.token).toBe("token");
+    });
+});
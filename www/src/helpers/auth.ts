@@ -0,0 +1,201 @@
+// Authentication with the drone (/src/remote/auth.zig).
+// The passphrase is exchanged for a session token once, which is kept in localStorage and passed when
+// opening the websocket. Sessions expire after a while, and may stop being valid before that (e.g. when
+// the drone restarts); either way the user is logged out, with the reason in `error`.
+
+import { Socket } from "./socket";
+
+const STORAGE_KEY = "nwdrone.auth"; // localStorage key the session is persisted under
+const VERIFY_RETRY_DELAY = 2000; // Time between session checks while the drone can't be reached, in ms
+
+// Error thrown when logging in fails.
+export class AuthError extends Error {
+    name = "AuthError";
+}
+
+interface StoredSession {
+    token: string;
+    expires: number; // Time the session expires at, in ms since the epoch (client time)
+}
+
+// Answer of the server to a login or session check, see server.zig.
+interface AuthResponse {
+    token?: string;
+    ttl?: number; // Time left before the session expires, in ms
+    error?: string;
+}
+
+/**
+ * @returns the URL of the auth endpoint of the server this page was loaded from, the only one allowed to call it
+ */
+export function authUrl(): string {
+    return `${window.location.origin}/auth`;
+}
+
+// Callback type for subscribers to the auth state.
+type Callback = () => void;
+
+export class Auth {
+    public token: string | null = null; // Token of the current session, null if logged out (read-only)
+    public error: string | null = null; // Why the user was logged out, if it wasn't on purpose (read-only)
+    private timeout: ReturnType<typeof setTimeout> | undefined;
+    private retry: ReturnType<typeof setTimeout> | undefined; // Next session check, see check()
+    private subscribers: Callback[] = [];
+
+    /**
+     * @param socket socket opened with the session
+     */
+    constructor(private socket: Socket) {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            if (stored) {
+                const session = JSON.parse(stored) as StoredSession;
+                if (session.expires > Date.now()) {
+                    this.start(session);
+                } else {
+                    this.end("Your session expired, log in again.");
+                }
+            }
+        } catch (err) {
+            console.warn("failed to load session: ", err);
+        }
+        // The connection is refused once the session isn't valid anymore, which looks the same as any
+        // other failure to connect; ask the server which one it is
+        socket.subscribeState(state => {
+            if (state === "reconnecting") {
+                this.check();
+            }
+        });
+    }
+
+    /**
+     * Exchange the passphrase for a new session.
+     * @param passphrase passphrase of the drone
+     * @throws {AuthError} if the passphrase is wrong or the drone can't be reached
+     */
+    async login(passphrase: string): Promise<void> {
+        let res: Response;
+        try {
+            res = await fetch(authUrl(), {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ passphrase }),
+            });
+        } catch {
+            throw new AuthError("Can't reach the drone.");
+        }
+        const body = (await res.json().catch(() => ({}))) as AuthResponse;
+        if (!res.ok || !body.token || typeof body.ttl !== "number") {
+            if (res.status === 401) {
+                throw new AuthError("Wrong passphrase.");
+            }
+            if (res.status === 429) {
+                throw new AuthError(
+                    "Too many attempts, try again in a moment.",
+                );
+            }
+            throw new AuthError(
+                `Login failed: ${body.error ?? res.statusText}`,
+            );
+        }
+        this.start({ token: body.token, expires: Date.now() + body.ttl });
+    }
+
+    /**
+     * End the current session, on the drone as well.
+     */
+    logout(): void {
+        if (this.token) {
+            fetch(authUrl(), {
+                method: "DELETE",
+                headers: { Authorization: `Bearer ${this.token}` },
+            }).catch(() => {}); // The session expires on its own anyway
+        }
+        this.end(null);
+    }
+
+    /**
+     * Check with the server whether the current session is still valid, ending it if it isn't.
+     * The session is kept if the server can't be reached.
+     * @returns whether the server answered
+     */
+    async verify(): Promise<boolean> {
+        const token = this.token;
+        let res: Response;
+        try {
+            res = await fetch(authUrl(), {
+                headers: { Authorization: `Bearer ${token}` },
+            });
+        } catch {
+            return false;
+        }
+        if (res.status === 401 && this.token === token) {
+            this.end("Your session is no longer valid, log in again.");
+        }
+        return true;
+    }
+
+    /**
+     * Register a callback to be called when the user logs in or out.
+     * @param callback callback to run
+     */
+    subscribe(callback: Callback): void {
+        this.subscribers.push(callback);
+    }
+
+    /**
+     * Unregister an auth callback.
+     * @param callback callback to remove
+     */
+    unsubscribe(callback: Callback): void {
+        this.subscribers = this.subscribers.filter(cb => cb !== callback);
+    }
+
+    /**
+     * Check the session while the socket is reconnecting, again and again until the server answers.
+     * The drone may be unreachable for a while (e.g. restarting), and refuse the session once it is back.
+     */
+    private check = (): void => {
+        clearTimeout(this.retry);
+        if (!this.token || this.socket.state !== "reconnecting") {
+            return;
+        }
+        void this.verify().then(answered => {
+            if (!answered) {
+                this.retry = setTimeout(this.check, VERIFY_RETRY_DELAY);
+            }
+        });
+    };
+
+    /**
+     * Start (or restore) a session, persisting it.
+     * @param session session to start
+     */
+    private start(session: StoredSession): void {
+        this.token = session.token;
+        this.error = null;
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+        clearTimeout(this.timeout);
+        this.timeout = setTimeout(
+            () => this.end("Your session expired, log in again."),
+            session.expires - Date.now(),
+        );
+        this.notify();
+    }
+
+    /**
+     * End the current session.
+     * @param error why it ended, null if on purpose
+     */
+    private end(error: string | null): void {
+        this.token = null;
+        this.error = error;
+        localStorage.removeItem(STORAGE_KEY);
+        clearTimeout(this.timeout);
+        this.notify();
+    }
+
+    private notify(): void {
+        this.subscribers.forEach(callback => callback());
+    }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, test } from "@jest/globals";
+
+import { demosaic, rgbToRgba } from "./bayer";
+
+// BGGR sample of a uniformly colored frame.
+function uniform(
+    width: number,
+    height: number,
+    r: number,
+    g: number,
+    b: number,
+): Uint8Array {
+    const raw = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            raw[y * width + x] = y & 1 ? (x & 1 ? r : g) : x & 1 ? g : b;
+        }
+    }
+    return raw;
+}
+
+/**
+ * @returns the RGBA value of a pixel
+ */
+function pixel(out: Uint8ClampedArray, width: number, x: number, y: number) {
+    const i = (y * width + x) * 4;
+    return Array.from(out.subarray(i, i + 4));
+}
+
+describe("demosaic", () => {
+    test.each(["bilinear", "nearest"] as const)(
+        "%s reproduces a uniform color",
+        quality => {
+            const width = 6;
+            const height = 4;
+            const out = new Uint8ClampedArray(width * height * 4);
+            demosaic(
+                uniform(width, height, 200, 100, 50),
+                width,
+                height,
+                quality,
+                out,
+            );
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    expect(pixel(out, width, x, y)).toEqual([
+                        200, 100, 50, 255,
+                    ]);
+                }
+            }
+        },
+    );
+
+    test("bilinear interpolates missing samples from the neighbours", () => {
+        // Red only on the odd row/odd column sites, 0 elsewhere
+        const width = 4;
+        const height = 4;
+        const raw = new Uint8Array(width * height);
+        raw[1 * width + 1] = 80; // Red site at (1, 1)
+        const out = new Uint8ClampedArray(width * height * 4);
+        demosaic(raw, width, height, "bilinear", out);
+
+        expect(pixel(out, width, 1, 1)[0]).toBe(80); // Own sample
+        // Green sites next to it average the two reds on their row or column
+        expect(pixel(out, width, 0, 1)[0]).toBe(80); // Reflected border: both neighbours are (1, 1)
+        expect(pixel(out, width, 2, 1)[0]).toBe(40); // (1, 1) and (3, 1)
+        expect(pixel(out, width, 1, 2)[0]).toBe(40); // (1, 1) and (1, 3)
+        // Blue sites average the four diagonal reds
+        expect(pixel(out, width, 2, 2)[0]).toBe(20);
+    });
+
+    test("nearest fills each 2x2 cell with its own samples", () => {
+        const width = 4;
+        const height = 2;
+        // Cells: B G / G R
+        const raw = new Uint8Array([10, 20, 110, 120, 30, 40, 130, 140]);
+        const out = new Uint8ClampedArray(width * height * 4);
+        demosaic(raw, width, height, "nearest", out);
+
+        for (const [x, y] of [
+            [0, 0],
+            [1, 0],
+            [0, 1],
+            [1, 1],
+        ]) {
+            expect(pixel(out, width, x, y)).toEqual([40, 25, 10, 255]);
+        }
+        expect(pixel(out, width, 3, 1)).toEqual([140, 125, 110, 255]);
+    });
+
+    test("rejects frames that are too small", () => {
+        expect(() =>
+            demosaic(
+                new Uint8Array(10),
+                4,
+                4,
+                "bilinear",
+                new Uint8ClampedArray(64),
+            ),
+        ).toThrow(RangeError);
+    });
+});
+
+describe("rgbToRgba", () => {
+    test("adds an opaque alpha channel", () => {
+        const out = new Uint8ClampedArray(8);
+        rgbToRgba(new Uint8Array([1, 2, 3, 4, 5, 6]), out);
+        expect(Array.from(out)).toEqual([1, 2, 3, 255, 4, 5, 6, 255]);
+    });
+});
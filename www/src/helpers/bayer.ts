@@ -0,0 +1,187 @@
+// Conversion of raw camera frames to RGBA.
+// The Pixy streams raw Bayer data in a BGGR pattern (see /src/device/pixy.zig):
+//   even rows: B G B G ...
+//   odd rows:  G R G R ...
+
+// Demosaicing quality, bilinear interpolates every channel from its neighbours while
+// nearest fills each 2x2 cell from its own samples, at a fraction of the cost.
+export type Quality = "bilinear" | "nearest";
+
+/**
+ * Reflect an index back into range at the borders, keeping its parity so that
+ * the reflected pixel is of the same Bayer color as the out-of-range one.
+ * @param i index, at most one out of range
+ * @param n number of elements
+ * @returns the index reflected into [0, n)
+ */
+function reflect(i: number, n: number): number {
+    if (i < 0) {
+        return -i;
+    }
+    if (i >= n) {
+        return 2 * n - 2 - i;
+    }
+    return i;
+}
+
+/**
+ * Bilinear demosaicing.
+ * @param raw raw Bayer data, one byte per pixel
+ * @param width width of the frame
+ * @param height height of the frame
+ * @param out RGBA data to write to
+ */
+function demosaicBilinear(
+    raw: Uint8Array,
+    width: number,
+    height: number,
+    out: Uint8ClampedArray,
+): void {
+    for (let y = 0; y < height; y++) {
+        const row = y * width;
+        const up = reflect(y - 1, height) * width;
+        const down = reflect(y + 1, height) * width;
+        for (let x = 0; x < width; x++) {
+            const left = reflect(x - 1, width);
+            const right = reflect(x + 1, width);
+            const pixel = raw[row + x];
+            // Average of the 4 horizontal/vertical and 4 diagonal neighbours, and of the 2 of each axis
+            const cross =
+                (raw[row + left] +
+                    raw[row + right] +
+                    raw[up + x] +
+                    raw[down + x]) >>
+                2;
+            const diagonal =
+                (raw[up + left] +
+                    raw[up + right] +
+                    raw[down + left] +
+                    raw[down + right]) >>
+                2;
+            const horizontal = (raw[row + left] + raw[row + right]) >> 1;
+            const vertical = (raw[up + x] + raw[down + x]) >> 1;
+
+            let r: number, g: number, b: number;
+            if (y & 1) {
+                if (x & 1) {
+                    r = pixel;
+                    g = cross;
+                    b = diagonal;
+                } else {
+                    r = horizontal;
+                    g = pixel;
+                    b = vertical;
+                }
+            } else if (x & 1) {
+                r = vertical;
+                g = pixel;
+                b = horizontal;
+            } else {
+                r = diagonal;
+                g = cross;
+                b = pixel;
+            }
+
+            const i = (row + x) * 4;
+            out[i] = r;
+            out[i + 1] = g;
+            out[i + 2] = b;
+            out[i + 3] = 255;
+        }
+    }
+}
+
+/**
+ * Set the color of a single pixel.
+ * @param out RGBA data to write to
+ * @param p index of the pixel
+ * @param r red value
+ * @param g green value
+ * @param b blue value
+ */
+function fill(
+    out: Uint8ClampedArray,
+    p: number,
+    r: number,
+    g: number,
+    b: number,
+): void {
+    const i = p * 4;
+    out[i] = r;
+    out[i + 1] = g;
+    out[i + 2] = b;
+    out[i + 3] = 255;
+}
+
+/**
+ * Nearest-neighbour demosaicing, each 2x2 cell becomes a single color.
+ * @param raw raw Bayer data, one byte per pixel
+ * @param width width of the frame
+ * @param height height of the frame
+ * @param out RGBA data to write to
+ */
+function demosaicNearest(
+    raw: Uint8Array,
+    width: number,
+    height: number,
+    out: Uint8ClampedArray,
+): void {
+    for (let y = 0; y < height; y += 2) {
+        // A trailing odd row/column reuses the samples of the previous one
+        const y1 = Math.min(y + 1, height - 1);
+        for (let x = 0; x < width; x += 2) {
+            const x1 = Math.min(x + 1, width - 1);
+            const b = raw[y * width + x];
+            const g = (raw[y * width + x1] + raw[y1 * width + x]) >> 1;
+            const r = raw[y1 * width + x1];
+            const top = y * width;
+            const bottom = y1 * width;
+            fill(out, top + x, r, g, b);
+            fill(out, top + x1, r, g, b);
+            fill(out, bottom + x, r, g, b);
+            fill(out, bottom + x1, r, g, b);
+        }
+    }
+}
+
+/**
+ * Convert raw Bayer data to RGBA.
+ * @param raw raw Bayer data, one byte per pixel
+ * @param width width of the frame
+ * @param height height of the frame
+ * @param quality demosaicing quality
+ * @param out RGBA data to write to, `width * height * 4` bytes
+ */
+export function demosaic(
+    raw: Uint8Array,
+    width: number,
+    height: number,
+    quality: Quality,
+    out: Uint8ClampedArray,
+): void {
+    if (raw.length < width * height) {
+        throw new RangeError(
+            `frame has ${raw.length} pixels, expected ${width * height}`,
+        );
+    }
+    if (quality === "nearest") {
+        demosaicNearest(raw, width, height, out);
+    } else {
+        demosaicBilinear(raw, width, height, out);
+    }
+}
+
+/**
+ * Convert packed RGB data to RGBA.
+ * @param raw RGB data, three bytes per pixel
+ * @param out RGBA data to write to
+ */
+export function rgbToRgba(raw: Uint8Array, out: Uint8ClampedArray): void {
+    const pixels = Math.min(raw.length / 3, out.length / 4);
+    for (let p = 0; p < pixels; p++) {
+        out[p * 4] = raw[p * 3];
+        out[p * 4 + 1] = raw[p * 3 + 1];
+        out[p * 4 + 2] = raw[p * 3 + 2];
+        out[p * 4 + 3] = 255;
+    }
+}
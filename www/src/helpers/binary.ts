@@ -0,0 +1,170 @@
+// Binary websocket messages, used for streams too large to send efficiently as JSON (camera frames).
+// Every message starts with a fixed header, mirroring `Header` in /src/remote/sockets.zig; all numbers
+// are little-endian:
+//
+//   offset  size  field
+//   0       1     version (`BINARY_VERSION`)
+//   1       1     event id (index in `BINARY_EVENTS`, plus one)
+//   2       1     format (index in `FRAME_FORMATS`)
+//   3       1     reserved
+//   4       4     sequence number (u32), incremented for every message of the event
+//   8       8     timestamp (f64), in ms since the epoch
+//   16      2     width (u16)
+//   18      2     height (u16)
+//   20      2     number of items (u16) between the header and the payload, e.g. blocks
+//   22      2     reserved
+//
+// Servers only send binary messages to clients asking for them (see `Socket.open()`), and keep
+// sending the JSON equivalents of these events to everyone else.
+
+import { Block, DecodeError, encodeBase64 } from "./events";
+import type { SocketData } from "./socket";
+
+export const BINARY_VERSION = 1; // Version of the header format
+export const HEADER_SIZE = 24; // Size of the header, in bytes
+const BLOCK_SIZE = 14; // Size of a block in a `frame` message, seven 16-bit fields
+
+// Events that can be sent as binary messages, in the order of their ids
+export const BINARY_EVENTS = ["frame"] as const;
+export type BinaryEventName = (typeof BINARY_EVENTS)[number];
+
+// Formats of frame data, see `FrameRequest` in camera.worker.ts
+export const FRAME_FORMATS = ["bayer", "rgb"] as const;
+export type FrameFormat = (typeof FRAME_FORMATS)[number];
+
+export interface BinaryHeader {
+    event: BinaryEventName;
+    format: FrameFormat;
+    seq: number;
+    ts: number; // ms since the epoch
+    width: number;
+    height: number;
+    count: number; // Number of items following the header
+}
+
+// A received binary message, with its header parsed.
+export interface BinaryMessage {
+    header: BinaryHeader;
+    buffer: ArrayBuffer; // Whole message, including the header
+}
+
+// A `frame` message, split into its parts.
+export interface BinaryFrame {
+    header: BinaryHeader;
+    blocks: Block[];
+    raw: Uint8Array; // Pixel data, a view into the message buffer
+}
+
+/**
+ * Parse the header of a binary message.
+ * @param buffer received message
+ * @returns the parsed header
+ */
+export function parseHeader(buffer: ArrayBuffer): BinaryHeader {
+    if (buffer.byteLength < HEADER_SIZE) {
+        throw new DecodeError(
+            `message is shorter than a header (${buffer.byteLength} bytes)`,
+        );
+    }
+    const view = new DataView(buffer);
+    const version = view.getUint8(0);
+    if (version !== BINARY_VERSION) {
+        throw new DecodeError(`unsupported header version ${version}`);
+    }
+    const event = BINARY_EVENTS[view.getUint8(1) - 1];
+    if (!event) {
+        throw new DecodeError(`unknown event id ${view.getUint8(1)}`);
+    }
+    const format = FRAME_FORMATS[view.getUint8(2)];
+    if (!format) {
+        throw new DecodeError(`unknown format ${view.getUint8(2)}`);
+    }
+    return {
+        event,
+        format,
+        seq: view.getUint32(4, true),
+        ts: view.getFloat64(8, true),
+        width: view.getUint16(16, true),
+        height: view.getUint16(18, true),
+        count: view.getUint16(20, true),
+    };
+}
+
+/**
+ * Build a `frame` message, the inverse of `parseFrame()`.
+ * The number of blocks in the header is ignored, it is taken from the blocks themselves.
+ * @param frame frame to send
+ * @returns the message
+ */
+export function buildFrame(frame: BinaryFrame): ArrayBuffer {
+    const { header, blocks, raw } = frame;
+    const offset = HEADER_SIZE + blocks.length * BLOCK_SIZE;
+    const buffer = new ArrayBuffer(offset + raw.length);
+    const view = new DataView(buffer);
+    view.setUint8(0, BINARY_VERSION);
+    view.setUint8(1, BINARY_EVENTS.indexOf(header.event) + 1);
+    view.setUint8(2, FRAME_FORMATS.indexOf(header.format));
+    view.setUint32(4, header.seq, true);
+    view.setFloat64(8, header.ts, true);
+    view.setUint16(16, header.width, true);
+    view.setUint16(18, header.height, true);
+    view.setUint16(20, blocks.length, true);
+    blocks.forEach((block, i) => {
+        const at = HEADER_SIZE + i * BLOCK_SIZE;
+        view.setUint16(at, block.type, true);
+        view.setUint16(at + 2, block.signature, true);
+        view.setUint16(at + 4, block.x, true);
+        view.setUint16(at + 6, block.y, true);
+        view.setUint16(at + 8, block.width, true);
+        view.setUint16(at + 10, block.height, true);
+        view.setInt16(at + 12, block.angle, true);
+    });
+    new Uint8Array(buffer, offset).set(raw);
+    return buffer;
+}
+
+/**
+ * Split a `frame` message into its blocks and pixel data.
+ * @param message received message
+ * @returns the frame
+ */
+export function parseFrame(message: BinaryMessage): BinaryFrame {
+    const { header, buffer } = message;
+    const pixels = header.width * header.height;
+    const size = header.format === "rgb" ? pixels * 3 : pixels;
+    const offset = HEADER_SIZE + header.count * BLOCK_SIZE;
+    if (buffer.byteLength !== offset + size) {
+        throw new DecodeError(
+            `frame is ${buffer.byteLength} bytes, expected ${offset + size}`,
+        );
+    }
+    const view = new DataView(buffer);
+    const blocks: Block[] = [];
+    for (let i = 0; i < header.count; i++) {
+        const at = HEADER_SIZE + i * BLOCK_SIZE;
+        blocks.push({
+            type: view.getUint16(at, true),
+            signature: view.getUint16(at + 2, true),
+            x: view.getUint16(at + 4, true),
+            y: view.getUint16(at + 6, true),
+            width: view.getUint16(at + 8, true),
+            height: view.getUint16(at + 10, true),
+            angle: view.getInt16(at + 12, true),
+        });
+    }
+    return { header, blocks, raw: new Uint8Array(buffer, offset, size) };
+}
+
+/**
+ * Convert a binary message to the JSON message the server would have sent instead.
+ * Used wherever messages are stored as JSON, such as recorded sessions.
+ * @param message received message
+ * @returns the equivalent `SocketData`
+ */
+export function toSocketData(message: BinaryMessage): SocketData {
+    const { blocks, raw } = parseFrame(message);
+    return {
+        event: message.header.event,
+        data: { raw: encodeBase64(raw), blocks: JSON.stringify(blocks) },
+    };
+}
@@ -0,0 +1,58 @@
+// Web Worker decoding and demosaicing camera frames, keeping the per-pixel work off the main thread.
+// Each request is answered with exactly one response, rendered through an `OffscreenCanvas` into a
+// transferable `ImageBitmap`; see CameraStream for how requests are throttled.
+
+import { Quality, demosaic, rgbToRgba } from "./bayer";
+import { decodeBase64 } from "./events";
+
+export interface FrameRequest {
+    // Raw frame data, base64 encoded as received (copied), or already decoded (its buffer transferred, see CameraStream)
+    raw: string | Uint8Array;
+    width: number;
+    height: number;
+    // Format of the raw data, Bayer (one byte per pixel) or packed RGB (three bytes per pixel)
+    mode: "bayer" | "rgb";
+    quality: Quality;
+}
+
+export type FrameResponse = { bitmap: ImageBitmap } | { error: string };
+
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let image: ImageData | null = null; // Reused between frames of the same size
+
+/**
+ * @param response response to send back to the main thread
+ * @param transfer objects to transfer instead of copying
+ */
+function respond(response: FrameResponse, transfer: Transferable[] = []) {
+    self.postMessage(response, { transfer });
+}
+
+self.onmessage = (e: MessageEvent<FrameRequest>) => {
+    const { width, height, mode, quality } = e.data;
+    try {
+        const raw =
+            typeof e.data.raw === "string"
+                ? decodeBase64(e.data.raw)
+                : e.data.raw;
+        if (!canvas || canvas.width !== width || canvas.height !== height) {
+            canvas = new OffscreenCanvas(width, height);
+            ctx = canvas.getContext("2d");
+            image = ctx?.createImageData(width, height) ?? null;
+        }
+        if (!ctx || !image) {
+            throw new Error("failed to create a 2D context");
+        }
+        if (mode === "bayer") {
+            demosaic(raw, width, height, quality, image.data);
+        } else {
+            rgbToRgba(raw, image.data);
+        }
+        ctx.putImageData(image, 0, 0);
+        const bitmap = canvas.transferToImageBitmap();
+        respond({ bitmap }, [bitmap]);
+    } catch (err) {
+        respond({ error: String(err) });
+    }
+};
@@ -0,0 +1,246 @@
+// Snapshots and video recordings of the camera feed.
+// Frames are composed on a canvas of their own, so captures can include (or leave out) the block
+// overlay and a timestamp/attitude watermark independently of what is shown on screen.
+
+import { Block } from "./events";
+import { OverlayLayers, drawOverlay } from "./overlay";
+import { EventData, Socket } from "./socket";
+
+const VIDEO_TYPES = [
+    "video/webm;codecs=vp9",
+    "video/webm;codecs=vp8",
+    "video/webm",
+]; // In order of preference
+const VIDEO_BITRATE = 2_500_000; // bits/s
+
+export interface CaptureOptions {
+    // Burn the block overlay into captures
+    overlay: boolean;
+    // Burn a timestamp and attitude watermark into captures
+    watermark: boolean;
+}
+
+export const DEFAULT_CAPTURE_OPTIONS: CaptureOptions = {
+    overlay: true,
+    watermark: true,
+};
+
+// A capture taken during the current session.
+export interface Capture {
+    id: number;
+    kind: "snapshot" | "video";
+    time: Date;
+    blob: Blob;
+    // Object URL of the blob, valid until the capture is removed
+    url: string;
+    filename: string;
+}
+
+// Callback type for subscribers to the capture state.
+type Callback = () => void;
+
+export class FrameCapture {
+    public options = DEFAULT_CAPTURE_OPTIONS;
+    public captures: Capture[] = []; // Captures of the current session, newest first (read-only)
+    private canvas = document.createElement("canvas");
+    private ctx = this.canvas.getContext("2d");
+    private hasFrame = false; // Whether a frame has been drawn yet
+    private attitude: EventData<"orient">["data"] | null = null; // Latest attitude, for the watermark
+    private recorder: MediaRecorder | null = null;
+    private chunks: Blob[] = [];
+    private nextId = 0;
+    private subscribers: Callback[] = [];
+
+    /**
+     * @param socket socket the drone reports its attitude over, for the watermark
+     */
+    constructor(socket: Socket) {
+        socket.subscribe("orient", event => {
+            this.attitude = event.data;
+        });
+    }
+
+    /**
+     * Compose a new camera frame onto the capture canvas.
+     * @param frame processed camera frame
+     * @param blocks blocks detected in the frame
+     * @param layers overlay layers to burn in, if the overlay is enabled
+     */
+    update(
+        frame: ImageBitmap,
+        blocks: readonly Block[],
+        layers: OverlayLayers,
+    ): void {
+        const { ctx, canvas } = this;
+        if (!ctx) {
+            return;
+        }
+        if (canvas.width !== frame.width || canvas.height !== frame.height) {
+            canvas.width = frame.width;
+            canvas.height = frame.height;
+        }
+        ctx.drawImage(frame, 0, 0);
+        if (this.options.overlay) {
+            drawOverlay(ctx, blocks, layers, canvas.width, canvas.height);
+        }
+        if (this.options.watermark) {
+            this.drawWatermark(ctx);
+        }
+        this.hasFrame = true;
+    }
+
+    /**
+     * Take a PNG snapshot of the current frame.
+     * @returns the capture, or null if there is no frame yet
+     */
+    async snapshot(): Promise<Capture | null> {
+        if (!this.hasFrame) {
+            return null;
+        }
+        const blob = await new Promise<Blob | null>(resolve =>
+            this.canvas.toBlob(resolve, "image/png"),
+        );
+        if (!blob) {
+            throw new Error("failed to encode snapshot");
+        }
+        return this.add("snapshot", blob);
+    }
+
+    /**
+     * Start recording a WebM video of the camera feed.
+     */
+    startRecording(): void {
+        if (this.recorder) {
+            return;
+        }
+        const mimeType = VIDEO_TYPES.find(type =>
+            MediaRecorder.isTypeSupported(type),
+        );
+        if (!mimeType) {
+            throw new Error("this browser can't record WebM video");
+        }
+        const start = new Date();
+        this.chunks = [];
+        this.recorder = new MediaRecorder(this.canvas.captureStream(), {
+            mimeType,
+            videoBitsPerSecond: VIDEO_BITRATE,
+        });
+        this.recorder.ondataavailable = e => this.chunks.push(e.data);
+        this.recorder.onstop = () => {
+            this.recorder = null;
+            this.add(
+                "video",
+                new Blob(this.chunks, { type: "video/webm" }),
+                start,
+            );
+            this.chunks = [];
+        };
+        this.recorder.start();
+        this.notify();
+    }
+
+    /**
+     * Stop recording, adding the video to the captures once it is finalized.
+     */
+    stopRecording(): void {
+        this.recorder?.stop();
+    }
+
+    /**
+     * @returns whether a video is being recorded
+     */
+    get recording(): boolean {
+        return this.recorder !== null;
+    }
+
+    /**
+     * Update the capture options, taking effect from the next frame.
+     * @param options new options
+     */
+    setOptions(options: CaptureOptions): void {
+        this.options = options;
+        this.notify();
+    }
+
+    /**
+     * Remove a capture from the session, releasing its data.
+     * @param id id of the capture
+     */
+    remove(id: number): void {
+        const capture = this.captures.find(c => c.id === id);
+        if (capture) {
+            URL.revokeObjectURL(capture.url);
+            this.captures = this.captures.filter(c => c !== capture);
+            this.notify();
+        }
+    }
+
+    /**
+     * Register a callback to be called when the captures or recording state change.
+     * @param callback callback to run
+     */
+    subscribe(callback: Callback): void {
+        this.subscribers.push(callback);
+    }
+
+    /**
+     * Unregister a state callback.
+     * @param callback callback to remove
+     */
+    unsubscribe(callback: Callback): void {
+        this.subscribers = this.subscribers.filter(cb => cb !== callback);
+    }
+
+    /**
+     * Add a capture to the session.
+     * @param kind kind of capture
+     * @param blob data of the capture
+     * @param time time the capture was started at
+     * @returns the new capture
+     */
+    private add(kind: Capture["kind"], blob: Blob, time = new Date()): Capture {
+        const extension = kind === "snapshot" ? "png" : "webm";
+        const capture: Capture = {
+            id: this.nextId++,
+            kind,
+            time,
+            blob,
+            url: URL.createObjectURL(blob),
+            filename: `nwdrone-${time.toISOString().replace(/[:.]/g, "-")}.${extension}`,
+        };
+        this.captures = [capture, ...this.captures];
+        this.notify();
+        return capture;
+    }
+
+    /**
+     * Draw the timestamp and attitude watermark in the bottom left corner.
+     * @param ctx context to draw on
+     */
+    private drawWatermark(ctx: CanvasRenderingContext2D): void {
+        const lines = [new Date().toISOString().replace("T", " ").slice(0, 23)];
+        if (this.attitude) {
+            const { roll, pitch, yaw } = this.attitude;
+            lines.push(
+                `R ${roll.toFixed(1)}° P ${pitch.toFixed(1)}° Y ${yaw.toFixed(1)}°`,
+            );
+        }
+        ctx.font = "10px monospace";
+        ctx.textBaseline = "bottom";
+        const lineHeight = 12;
+        lines.forEach((line, i) => {
+            const y =
+                this.canvas.height - 4 - (lines.length - 1 - i) * lineHeight;
+            // Dark outline keeps the text readable on any background
+            ctx.strokeStyle = "black";
+            ctx.lineWidth = 3;
+            ctx.strokeText(line, 4, y);
+            ctx.fillStyle = "white";
+            ctx.fillText(line, 4, y);
+        });
+    }
+
+    private notify(): void {
+        this.subscribers.forEach(callback => callback());
+    }
+}
@@ -0,0 +1,182 @@
+// Teleop control loop.
+// Input sources (touch joystick, gamepad, keyboard) only set the current setpoint; the loop sends it
+// as `move` events at a fixed rate while any source is engaged. The steady stream doubles as a
+// deadman heartbeat, letting the backend tell a held stick from a lost link (see moveEvent() in
+// /src/control/motion.zig).
+
+import { Pilot } from "./pilot";
+import { Safety } from "./safety";
+import { Socket } from "./socket";
+
+const LINGER_TICKS = 3; // Neutral moves sent after all sources are released, before the stream stops
+
+export interface ControlConfig {
+    // Rate to send the setpoint at while engaged, in Hz
+    rate: number;
+    // Roll/pitch commanded by a full deflection of any input source, in degrees
+    maxOutput: number;
+    // Climb rate commanded by a full deflection of a throttle (the left touch stick), in cm/s
+    maxClimb: number;
+    // Yaw rate commanded by a full deflection of a yaw input (the left touch stick), in degrees/s
+    maxYawRate: number;
+}
+
+export const DEFAULT_CONTROL_CONFIG: ControlConfig = {
+    rate: 20,
+    maxOutput: 3,
+    maxClimb: 20,
+    maxYawRate: 45,
+};
+
+// Setpoint: attitude in degrees, climb rate in cm/s (positive up) and yaw rate in degrees/s (positive clockwise).
+export interface Setpoint {
+    roll: number;
+    pitch: number;
+    climb: number;
+    yawRate: number;
+}
+
+export const NEUTRAL_SETPOINT: Setpoint = {
+    roll: 0,
+    pitch: 0,
+    climb: 0,
+    yawRate: 0,
+};
+
+export class ControlLoop {
+    private sources = new Map<string, Setpoint>(); // Engaged sources, in the order they were engaged
+    private seq = 0; // Sequence number of the next move
+    private linger = 0; // Neutral moves left to send before stopping
+    private interval: ReturnType<typeof setInterval> | undefined;
+
+    /**
+     * @param socket socket to send the setpoint over
+     * @param pilot arbitration of control over the same socket
+     * @param safety safety interlocks of the same drone
+     * @param config initial configuration of the loop
+     */
+    constructor(
+        private socket: Socket,
+        private pilot: Pilot,
+        private safety: Safety,
+        private config: ControlConfig = DEFAULT_CONTROL_CONFIG,
+    ) {
+        // Never keep flying on stale input when the operator can't see the page
+        document.addEventListener("visibilitychange", () => {
+            if (document.hidden) {
+                this.neutralize();
+            }
+        });
+        window.addEventListener("blur", () => this.neutralize());
+        // Moves from an observer are refused anyway, stop streaming them
+        pilot.subscribe(() => {
+            if (!this.pilot.canControl) {
+                this.neutralize();
+            }
+        });
+    }
+
+    /**
+     * Set the setpoint of an input source, engaging it if it isn't already, the drone is armed and
+     * this client isn't an observer.
+     * The most recently engaged source is the one that is sent.
+     * @param source name of the input source
+     * @param setpoint setpoint of the source
+     */
+    set(source: string, setpoint: Setpoint): void {
+        // A move while idle makes the drone take off, so nothing is sent until it is armed
+        if (!this.safety.armed || !this.pilot.canControl) {
+            this.release(source);
+            return;
+        }
+        this.sources.set(source, setpoint); // Keeps the position of an already engaged source
+        this.start();
+    }
+
+    /**
+     * Release an input source, disengaging it.
+     * @param source name of the input source
+     */
+    release(source: string): void {
+        if (this.sources.delete(source) && this.sources.size === 0) {
+            this.linger = LINGER_TICKS;
+        }
+    }
+
+    /**
+     * Release all input sources and immediately send a neutral setpoint.
+     */
+    neutralize(): void {
+        if (this.interval === undefined) {
+            return;
+        }
+        this.sources.clear();
+        this.linger = LINGER_TICKS;
+        this.tick();
+    }
+
+    /**
+     * @returns the setpoint currently being sent
+     */
+    get setpoint(): Setpoint {
+        let setpoint = NEUTRAL_SETPOINT;
+        for (const s of this.sources.values()) {
+            setpoint = s; // Map iterates in insertion order, so the last one wins
+        }
+        return setpoint;
+    }
+
+    /**
+     * @returns whether the loop is currently streaming
+     */
+    get engaged(): boolean {
+        return this.interval !== undefined;
+    }
+
+    /**
+     * Update the configuration of the loop.
+     * @param config new configuration
+     */
+    configure(config: ControlConfig): void {
+        this.config = config;
+        if (this.interval !== undefined) {
+            this.stop();
+            this.start();
+        }
+    }
+
+    private start(): void {
+        this.linger = 0;
+        if (this.interval === undefined) {
+            this.interval = setInterval(
+                () => this.tick(),
+                1000 / this.config.rate,
+            );
+            this.tick();
+        }
+    }
+
+    private stop(): void {
+        clearInterval(this.interval);
+        this.interval = undefined;
+    }
+
+    private tick(): void {
+        if (this.sources.size === 0) {
+            if (this.linger <= 0) {
+                this.stop();
+                return;
+            }
+            this.linger--;
+        }
+        const { roll, pitch, climb, yawRate } = this.setpoint;
+        this.socket.send("move", {
+            roll,
+            pitch,
+            climb,
+            yaw_rate: yawRate,
+            seq: this.seq++,
+            ts: Date.now(),
+        });
+    }
+}
@@ -0,0 +1,55 @@
+// A drone as the app sees it: the socket to talk to it over, and the helpers built around that socket.
+// The app creates one (see App in main.tsx) and components get it through `DroneContext` (see hooks/useDrone.ts),
+// so tests can give them one talking to a loopback transport instead (see transport.ts).
+
+import { Auth } from "./auth";
+import { FrameCapture } from "./capture";
+import { ControlLoop } from "./control";
+import { Log } from "./logs";
+import { Pilot } from "./pilot";
+import { Player, Recorder } from "./recorder";
+import { Safety } from "./safety";
+import { Socket } from "./socket";
+import { StatusTracker } from "./status";
+import { TrafficLog } from "./traffic";
+import { Tuner } from "./tuning";
+
+export interface Drone {
+    socket: Socket;
+    auth: Auth;
+    pilot: Pilot;
+    status: StatusTracker;
+    safety: Safety;
+    control: ControlLoop; // Configured from the settings, see App in main.tsx
+    tuner: Tuner;
+    log: Log;
+    traffic: TrafficLog;
+    capture: FrameCapture; // Configured from the settings, see App in main.tsx
+    recorder: Recorder;
+    player: Player;
+}
+
+/**
+ * Build the helpers of a drone around a socket.
+ * @param socket socket to talk to the drone over
+ * @returns the drone
+ */
+export function createDrone(socket: Socket): Drone {
+    const pilot = new Pilot(socket);
+    const status = new StatusTracker(socket);
+    const safety = new Safety(socket, pilot, status);
+    return {
+        socket,
+        auth: new Auth(socket),
+        pilot,
+        status,
+        safety,
+        control: new ControlLoop(socket, pilot, safety),
+        tuner: new Tuner(socket),
+        log: new Log(socket),
+        traffic: new TrafficLog(socket),
+        capture: new FrameCapture(socket),
+        recorder: new Recorder(socket),
+        player: new Player(socket),
+    };
+}
@@ -0,0 +1,354 @@
+// Schema of all events sent/received over the websocket.
+// This is the single source of truth for the client; it mirrors the events the server
+// subscribes to or dispatches (see `sockets.subscribe()` calls in /src), and the wire format
+// of `SocketData` in /src/remote/sockets.zig, where every value is a string.
+
+// Error thrown when a value received over the websocket doesn't match the schema.
+export class DecodeError extends Error {
+    name = "DecodeError";
+}
+
+// Converts a single field between its typed value and its string representation on the wire.
+export interface Codec<T> {
+    // Decode a wire value, throwing a `DecodeError` if it is malformed.
+    decode: (raw: string) => T;
+    // Encode a value for the wire.
+    encode: (value: T) => string;
+}
+
+// See lib/pixyusb/include/pixy.h
+export interface Block {
+    type: number;
+    signature: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    angle: number;
+}
+
+/**
+ * @param precision number of decimal places to encode with, defaults to as many as needed
+ * @returns a codec for finite floating-point numbers
+ */
+function float(precision?: number): Codec<number> {
+    return {
+        decode: raw => {
+            const value = Number(raw);
+            if (raw.trim() === "" || !Number.isFinite(value)) {
+                throw new DecodeError(`'${raw}' is not a number`);
+            }
+            return value;
+        },
+        encode: value =>
+            precision === undefined ? String(value) : value.toFixed(precision),
+    };
+}
+
+// Codec for integers.
+const int: Codec<number> = {
+    decode: raw => {
+        const value = Number(raw);
+        if (raw.trim() === "" || !Number.isInteger(value)) {
+            throw new DecodeError(`'${raw}' is not an integer`);
+        }
+        return value;
+    },
+    encode: value => String(Math.round(value)),
+};
+
+// Codec for plain strings.
+const string: Codec<string> = {
+    decode: raw => raw,
+    encode: value => value,
+};
+
+/**
+ * @param values allowed values
+ * @returns a codec for strings that must be one of `values`
+ */
+function oneOf<T extends string>(values: readonly T[]): Codec<T> {
+    return {
+        decode: raw => {
+            if (!(values as readonly string[]).includes(raw)) {
+                throw new DecodeError(
+                    `'${raw}' is not one of ${values.join(", ")}`,
+                );
+            }
+            return raw as T;
+        },
+        encode: value => value,
+    };
+}
+
+/**
+ * @param raw base64 encoded data
+ * @returns the decoded bytes
+ */
+export function decodeBase64(raw: string): Uint8Array {
+    let binary: string;
+    try {
+        binary = atob(raw);
+    } catch {
+        throw new DecodeError("invalid base64 data");
+    }
+    const len = binary.length;
+    const bytes = new Uint8Array(len);
+    for (let i = 0; i < len; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+/**
+ * @param bytes data to encode
+ * @returns the base64 encoded data
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+    let binary = "";
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+// Codec for base64 encoded binary data.
+// The data is left encoded, as decoding large payloads (camera frames) is best done off the main thread
+// with `decodeBase64()`; only its length is checked here.
+const base64: Codec<string> = {
+    decode: raw => {
+        if (raw.length % 4 !== 0) {
+            throw new DecodeError("invalid base64 data");
+        }
+        return raw;
+    },
+    encode: value => value,
+};
+
+/**
+ * @param validate function to check the parsed JSON, throwing a `DecodeError` if it is invalid
+ * @returns a codec for JSON-in-a-string values
+ */
+function json<T>(validate: (value: unknown) => T): Codec<T> {
+    return {
+        decode: raw => {
+            let value: unknown;
+            try {
+                value = JSON.parse(raw);
+            } catch {
+                throw new DecodeError("invalid JSON");
+            }
+            return validate(value);
+        },
+        encode: value => JSON.stringify(value),
+    };
+}
+
+/**
+ * Validate a list of Pixy blocks.
+ * @param value parsed JSON value
+ * @returns `value` as a list of blocks
+ */
+function validateBlocks(value: unknown): Block[] {
+    if (!Array.isArray(value)) {
+        throw new DecodeError("blocks is not an array");
+    }
+    const keys = ["type", "signature", "x", "y", "width", "height", "angle"];
+    value.forEach((block: unknown, i) => {
+        if (typeof block !== "object" || block === null) {
+            throw new DecodeError(`block ${i} is not an object`);
+        }
+        for (const key of keys) {
+            if (typeof (block as Record<string, unknown>)[key] !== "number") {
+                throw new DecodeError(`block ${i} is missing '${key}'`);
+            }
+        }
+    });
+    return value as Block[];
+}
+
+// States of the motion controller, see `MotionState` in /src/control/motion.zig
+export const MOTION_STATES = [
+    "IDLE",
+    "REV",
+    "TAKEOFF",
+    "BLOCKLOCK",
+    "TELEOP",
+    "LAND",
+] as const;
+export type MotionState = (typeof MOTION_STATES)[number];
+
+// Levels of log messages, most severe first, see `std.log.Level.asText()`
+export const LOG_LEVELS = ["error", "warning", "info", "debug"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// Parameters of a PID controller, see `Params` in /src/lib/pid.zig.
+const pidParams = {
+    // Name the controller is registered under (/src/control/tuning.zig)
+    name: string,
+    kp: float(),
+    ki: float(),
+    kd: float(),
+    // Derivative low-pass filter time constant
+    tau: float(),
+    // Output limits
+    lim_min: float(),
+    lim_max: float(),
+};
+
+// Fields of every event, keyed by event name.
+// Extra fields present on the wire are ignored, missing fields are an error.
+export const schema = {
+    // Dispatched by the server: attitude of the quadcopter, in degrees (/src/control/quad.zig)
+    orient: { roll: float(2), pitch: float(2), yaw: float(2) },
+    // Dispatched by the server: raw camera frame and detected blocks (/src/device/pixy.zig)
+    // Only sent to clients that don't accept binary messages, the others get it as a binary `frame` (see binary.ts)
+    frame: { raw: base64, blocks: json(validateBlocks) },
+    // Dispatched by the server: motion controller state, measured and target altitude (cm), and base and
+    // per-motor thrust (%, front/back left/right) (/src/control/motion.zig)
+    status: {
+        state: oneOf(MOTION_STATES),
+        alt: float(1),
+        target_alt: float(1),
+        base: float(1),
+        fl: float(1),
+        fr: float(1),
+        bl: float(1),
+        br: float(1),
+    },
+    // Dispatched by the server: a message logged with `std.log`, `ts` is the time it was logged at
+    // (ms since the epoch) (/src/remote/logs.zig)
+    log: { level: oneOf(LOG_LEVELS), scope: string, message: string, ts: int },
+    // Received by the server: teleop attitude setpoint (degrees), climb rate (cm/s, positive up) and yaw
+    // rate (degrees/s, positive clockwise) (/src/control/motion.zig)
+    // Sent at a fixed rate while in control, `seq` increases by one per event and `ts` is the
+    // client time it was sent at (ms since the epoch), so the server can detect stale or missing input
+    move: {
+        roll: float(3),
+        pitch: float(3),
+        climb: float(1),
+        yaw_rate: float(1),
+        seq: int,
+        ts: int,
+    },
+    // Received by the server (/src/control/motion.zig)
+    takeoff: {},
+    land: {},
+    // Received by the server (/src/main.zig)
+    kill: {},
+    shutdown: {},
+    // Received by the server: request the `pid` and `pid_default` of every controller (/src/control/tuning.zig)
+    pid_get: {},
+    // Received by the server: change the parameters of a controller, answered with its `pid`
+    pid_set: pidParams,
+    // Dispatched by the server: current parameters of a controller
+    pid: pidParams,
+    // Dispatched by the server: compiled-in parameters of a controller
+    pid_default: pidParams,
+    // Dispatched by the server: public part of the session (see `Socket.session`) and name of the client in
+    // control and of the client asking it for control, empty if none (/src/remote/pilot.zig)
+    // Control events (`move`, `takeoff`, `land`, `kill`, `shutdown`, `pid_set`) are refused from anyone else
+    pilot: {
+        pilot: string,
+        pilot_name: string,
+        requester: string,
+        requester_name: string,
+    },
+    // Received by the server: ask the pilot for control, given right away if nobody has it
+    pilot_request: { name: string },
+    // Received by the server: give up control (to the requester, if any), or withdraw a request
+    pilot_release: {},
+    // Received by the server, only from the pilot: answer the request for control
+    pilot_grant: {},
+    pilot_deny: {},
+    // Received by the server: take control without asking, for emergencies
+    pilot_takeover: { name: string },
+} satisfies { [event: string]: { [field: string]: Codec<any> } };
+
+// Name of any event in the schema.
+export type EventName = keyof typeof schema;
+
+// Typed payloads of every event, keyed by event name.
+export type EventMap = {
+    [E in EventName]: {
+        [F in keyof (typeof schema)[E]]: (typeof schema)[E][F] extends Codec<
+            infer T
+        >
+            ? T
+            : never;
+    };
+};
+
+/**
+ * @param event event name to check
+ * @returns whether `event` is part of the schema
+ */
+export function isEventName(event: string): event is EventName {
+    return Object.keys(schema).includes(event);
+}
+
+/**
+ * Decode the raw data of an event.
+ * @param event event the data belongs to
+ * @param data raw data received over the websocket
+ * @returns the typed payload of the event
+ */
+export function decode<E extends EventName>(
+    event: E,
+    data: { [key: string]: string },
+): EventMap[E] {
+    const fields = schema[event] as { [field: string]: Codec<unknown> };
+    const payload: { [field: string]: unknown } = {};
+    for (const field in fields) {
+        const raw = data[field];
+        if (typeof raw !== "string") {
+            throw new DecodeError(`missing field '${field}'`);
+        }
+        try {
+            payload[field] = fields[field].decode(raw);
+        } catch (err) {
+            const reason = err instanceof Error ? err.message : String(err);
+            throw new DecodeError(`field '${field}': ${reason}`);
+        }
+    }
+    return payload as EventMap[E];
+}
+
+/**
+ * Decode the raw data of an event that may predate the schema, e.g. replayed from an old recording.
+ * @param event event the data belongs to
+ * @param data raw data, received or sent over the websocket
+ * @returns the typed payload of the event, or null if the data doesn't match the schema
+ */
+export function decodeLegacy<E extends EventName>(
+    event: E,
+    data: { [key: string]: string },
+): EventMap[E] | null {
+    try {
+        return decode(event, data);
+    } catch (err) {
+        if (!(err instanceof DecodeError)) {
+            throw err;
+        }
+        return null;
+    }
+}
+
+/**
+ * Encode the typed payload of an event for the wire.
+ * @param event event the payload belongs to
+ * @param payload typed payload
+ * @returns raw data to send over the websocket
+ */
+export function encode<E extends EventName>(
+    event: E,
+    payload: EventMap[E],
+): { [key: string]: string } {
+    const fields = schema[event] as { [field: string]: Codec<unknown> };
+    const values = payload as { [field: string]: unknown };
+    const data: { [key: string]: string } = {};
+    for (const field in fields) {
+        data[field] = fields[field].encode(values[field]);
+    }
+    return data;
+}
@@ -0,0 +1,146 @@
+// Flight mode, for flying from a phone or tablet.
+// The app goes fullscreen with the orientation locked to landscape, and holds a screen wake lock so the
+// screen doesn't dim or lock while the drone is flown with the touch joystick (which doesn't count as
+// activity for the screen timeout on all devices). Leaving fullscreen (e.g. with the back gesture) also
+// leaves flight mode.
+// Each feature is optional: browsers only provide wake locks over HTTPS, and orientation locks on mobile.
+
+// Subset of the Screen Orientation API missing from the DOM typings.
+interface LockableOrientation extends ScreenOrientation {
+    lock?: (orientation: "landscape") => Promise<void>;
+}
+
+// Callback type for subscribers to flight mode.
+type Callback = () => void;
+
+class FlightMode {
+    public active = false; // Whether flight mode is on (read-only)
+    public awake = false; // Whether the screen is currently kept awake (read-only)
+    private wakeLock: WakeLockSentinel | null = null;
+    private locked = false; // Whether the orientation was locked
+    private subscribers: Callback[] = [];
+
+    constructor() {
+        document.addEventListener("fullscreenchange", () => {
+            if (this.active && !document.fullscreenElement) {
+                this.exit();
+            }
+        });
+        // Wake locks are released whenever the page is hidden, take it again when coming back
+        document.addEventListener("visibilitychange", () => {
+            if (this.active && document.visibilityState === "visible") {
+                void this.keepAwake();
+            }
+        });
+    }
+
+    /**
+     * Whether flight mode can do anything on this device.
+     */
+    get supported(): boolean {
+        return document.fullscreenEnabled || "wakeLock" in navigator;
+    }
+
+    /**
+     * Enter flight mode. Must be called from a user gesture (e.g. a click), or fullscreen is refused.
+     */
+    async enter(): Promise<void> {
+        if (this.active) {
+            return;
+        }
+        this.active = true;
+        this.notify();
+        if (document.fullscreenEnabled && !document.fullscreenElement) {
+            try {
+                await document.documentElement.requestFullscreen({
+                    navigationUI: "hide",
+                });
+            } catch (err) {
+                console.warn("failed to go fullscreen: ", err);
+            }
+        }
+        // Orientation can only be locked in fullscreen
+        const orientation = screen.orientation as LockableOrientation;
+        if (document.fullscreenElement && orientation.lock) {
+            try {
+                await orientation.lock("landscape");
+                this.locked = true;
+            } catch (err) {
+                console.warn("failed to lock orientation: ", err);
+            }
+        }
+        await this.keepAwake();
+    }
+
+    /**
+     * Leave flight mode, giving the screen back to the system.
+     */
+    exit(): void {
+        if (!this.active) {
+            return;
+        }
+        this.active = false;
+        this.wakeLock?.release().catch(() => {}); // Already released
+        this.wakeLock = null;
+        this.awake = false;
+        if (this.locked) {
+            screen.orientation.unlock();
+            this.locked = false;
+        }
+        if (document.fullscreenElement) {
+            document.exitFullscreen().catch(() => {});
+        }
+        this.notify();
+    }
+
+    /**
+     * Register a callback to be called when flight mode is entered or left, or the wake lock changes.
+     * @param callback callback to run
+     */
+    subscribe(callback: Callback): void {
+        this.subscribers.push(callback);
+    }
+
+    /**
+     * Unregister a flight mode callback.
+     * @param callback callback to remove
+     */
+    unsubscribe(callback: Callback): void {
+        this.subscribers = this.subscribers.filter(cb => cb !== callback);
+    }
+
+    /**
+     * Take a screen wake lock, if supported and not already held.
+     */
+    private async keepAwake(): Promise<void> {
+        if (!("wakeLock" in navigator) || this.wakeLock) {
+            return;
+        }
+        try {
+            const wakeLock = await navigator.wakeLock.request("screen");
+            if (!this.active) {
+                // Flight mode was left while waiting
+                await wakeLock.release();
+                return;
+            }
+            this.wakeLock = wakeLock;
+            this.awake = true;
+            wakeLock.addEventListener("release", () => {
+                if (this.wakeLock === wakeLock) {
+                    this.wakeLock = null;
+                    this.awake = false;
+                    this.notify();
+                }
+            });
+            this.notify();
+        } catch (err) {
+            console.warn("failed to keep the screen awake: ", err);
+        }
+    }
+
+    private notify(): void {
+        this.subscribers.forEach(callback => callback());
+    }
+}
+
+export const flightMode = new FlightMode();
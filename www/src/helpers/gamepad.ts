@@ -0,0 +1,106 @@
+// Gamepad (Gamepad API) input processing for teleoperation.
+// Axis indices and button numbers follow the "standard" gamepad mapping by default:
+// https://w3c.github.io/gamepad/#remapping
+
+// Actions that can be mapped to a gamepad button.
+export type GamepadAction = "takeoff" | "land" | "kill";
+
+export interface AxisConfig {
+    // Index of the axis in `Gamepad.axes`
+    index: number;
+    invert: boolean;
+}
+
+export interface GamepadConfig {
+    roll: AxisConfig;
+    pitch: AxisConfig;
+    // Fraction of the axis range around the center that is ignored, 0-1
+    deadzone: number;
+    // Blend between a linear (0) and a cubic (1) response, 0-1
+    expo: number;
+    // Index of the button in `Gamepad.buttons` for each action
+    buttons: Record<GamepadAction, number>;
+}
+
+// State of a gamepad at a single point in time.
+export interface GamepadState {
+    id: string;
+    // Raw values of all axes, -1 to 1
+    axes: number[];
+    // Pressed state of all buttons
+    buttons: boolean[];
+    // Processed (deadzone, expo and inversion applied) roll and pitch, -1 to 1
+    roll: number;
+    pitch: number;
+}
+
+export const DEFAULT_GAMEPAD_CONFIG: GamepadConfig = {
+    roll: { index: 2, invert: false }, // Right stick X
+    pitch: { index: 3, invert: false }, // Right stick Y, pushing forward pitches down like the touch joystick
+    deadzone: 0.1,
+    expo: 0.3,
+    buttons: {
+        takeoff: 0, // A / Cross
+        land: 1, // B / Circle
+        kill: 8, // Back / Select / Share
+    },
+};
+
+/**
+ * Remove the deadzone from an axis value, rescaling the remainder to the full range.
+ * @param value raw axis value, -1 to 1
+ * @param deadzone deadzone, 0-1
+ * @returns the value with the deadzone applied
+ */
+export function applyDeadzone(value: number, deadzone: number): number {
+    const magnitude = Math.abs(value);
+    if (magnitude <= deadzone) {
+        return 0;
+    }
+    return (Math.sign(value) * (magnitude - deadzone)) / (1 - deadzone);
+}
+
+/**
+ * Apply an expo curve to an axis value, softening the response around the center.
+ * @param value axis value, -1 to 1
+ * @param expo amount of expo, 0-1
+ * @returns the value with expo applied
+ */
+export function applyExpo(value: number, expo: number): number {
+    return (1 - expo) * value + expo * value ** 3;
+}
+
+/**
+ * @param axes raw values of all axes
+ * @param axis configuration of the axis to process
+ * @param config gamepad configuration
+ * @returns the processed value of the axis, -1 to 1
+ */
+export function processAxis(
+    axes: readonly number[],
+    axis: AxisConfig,
+    config: GamepadConfig,
+): number {
+    const raw = axes[axis.index] ?? 0;
+    const value = applyExpo(applyDeadzone(raw, config.deadzone), config.expo);
+    return Math.min(Math.max(axis.invert ? -value : value, -1), 1);
+}
+
+/**
+ * Read the current state of the first connected gamepad.
+ * @param config gamepad configuration
+ * @returns the state of the gamepad, or null if none is connected
+ */
+export function pollGamepad(config: GamepadConfig): GamepadState | null {
+    const gamepad = navigator.getGamepads?.().find(g => g?.connected);
+    if (!gamepad) {
+        return null;
+    }
+    return {
+        id: gamepad.id,
+        axes: [...gamepad.axes],
+        buttons: gamepad.buttons.map(b => b.pressed),
+        roll: processAxis(gamepad.axes, config.roll, config),
+        pitch: processAxis(gamepad.axes, config.pitch, config),
+    };
+}
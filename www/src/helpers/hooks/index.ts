@@ -6,3 +6,12 @@
 export { default as useFileDownload } from "./useFileDownload";
 export { default as useFileUpload } from "./useFileUpload";
 export { default as useSwipe } from "./useSwipe";
+export { default as useDrone, DroneContext } from "./useDrone";
+export { default as useSocket } from "./useSocket";
+export { default as useSocketState } from "./useSocketState";
+export { default as useSafety } from "./useSafety";
+export { default as useSettings } from "./useSettings";
+export { default as useStatus } from "./useStatus";
+export { default as usePilot } from "./usePilot";
+export { default as useAuth } from "./useAuth";
+export { default as useFlightMode } from "./useFlightMode";
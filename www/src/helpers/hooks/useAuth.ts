@@ -0,0 +1,31 @@
+import { useEffect, useState } from "preact/hooks";
+
+import useDrone from "./useDrone";
+
+interface AuthInfo {
+    token: string | null;
+    error: string | null;
+}
+
+/**
+ * Hook to track whether the user is logged in to the drone.
+ * @returns the token of the current session (null if logged out) and why the last session ended, updated
+ * whenever the user logs in or out
+ */
+export default (): AuthInfo => {
+    const { auth } = useDrone();
+    const [info, setInfo] = useState<AuthInfo>({
+        token: auth.token,
+        error: auth.error,
+    });
+
+    useEffect(() => {
+        const update = () => setInfo({ token: auth.token, error: auth.error });
+        // The state may have changed between the initial render and now
+        update();
+        auth.subscribe(update);
+        return () => auth.unsubscribe(update);
+    }, [auth]);
+
+    return info;
+};
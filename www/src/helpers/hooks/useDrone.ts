@@ -0,0 +1,19 @@
+import { createContext } from "preact";
+import { useContext } from "preact/hooks";
+
+import { Drone } from "../drone";
+
+// Drone components talk to, provided by App in main.tsx (or by tests, see transport.ts).
+export const DroneContext = createContext<Drone | null>(null);
+
+/**
+ * Hook to get the drone to talk to, with the helpers built around its socket.
+ * @returns the drone provided by the closest `DroneContext`
+ */
+export default (): Drone => {
+    const drone = useContext(DroneContext);
+    if (!drone) {
+        throw new Error("useDrone() must be used inside a DroneContext");
+    }
+    return drone;
+};
@@ -11,27 +11,27 @@ interface UseFileDownloadInput {
 }
 
 interface UseFileDownloadOutput {
-    downloadFile: (content: BlobPart) => void;
+    downloadFile: (content: BlobPart, filename?: string) => void;
 }
 
 /**
  * Hook to download a file.
  * @param filename the name of the file
  * @param filetype the MIME type of the file
- * @returns a function to download the file
+ * @returns a function to download the file, optionally under a different name
  */
 export default ({
     filename,
     filetype,
 }: UseFileDownloadInput): UseFileDownloadOutput => {
     const downloadFile = useCallback(
-        (content: BlobPart) => {
+        (content: BlobPart, name = filename) => {
             const blob = new Blob([content], { type: filetype });
             const url = URL.createObjectURL(blob);
 
             const link = document.createElement("a");
             link.href = url;
-            link.download = filename;
+            link.download = name;
             link.click();
 
             URL.revokeObjectURL(url);
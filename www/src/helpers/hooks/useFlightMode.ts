@@ -0,0 +1,30 @@
+import { useEffect, useState } from "preact/hooks";
+
+import { flightMode } from "../flightMode";
+
+interface FlightModeState {
+    active: boolean;
+    awake: boolean;
+}
+
+/**
+ * Hook to track flight mode.
+ * @returns whether flight mode is on and whether the screen is kept awake, updated whenever either changes
+ */
+export default (): FlightModeState => {
+    const [state, setState] = useState<FlightModeState>({
+        active: flightMode.active,
+        awake: flightMode.awake,
+    });
+
+    useEffect(() => {
+        const update = () =>
+            setState({ active: flightMode.active, awake: flightMode.awake });
+        // The state may have changed between the initial render and now
+        update();
+        flightMode.subscribe(update);
+        return () => flightMode.unsubscribe(update);
+    }, []);
+
+    return state;
+};
@@ -0,0 +1,39 @@
+import { useEffect, useState } from "preact/hooks";
+
+import { PilotRole, PilotState } from "../pilot";
+import useDrone from "./useDrone";
+
+interface PilotInfo {
+    role: PilotRole;
+    current: PilotState | null;
+    requesting: boolean;
+}
+
+/**
+ * Hook to track who is in control of the drone.
+ * @returns the role of this client, the last received pilot state and whether this client asked for control,
+ * updated whenever any changes
+ */
+export default (): PilotInfo => {
+    const { pilot } = useDrone();
+    const [info, setInfo] = useState<PilotInfo>({
+        role: pilot.role,
+        current: pilot.current,
+        requesting: pilot.requesting,
+    });
+
+    useEffect(() => {
+        const update = () =>
+            setInfo({
+                role: pilot.role,
+                current: pilot.current,
+                requesting: pilot.requesting,
+            });
+        // The state may have changed between the initial render and now
+        update();
+        pilot.subscribe(update);
+        return () => pilot.unsubscribe(update);
+    }, [pilot]);
+
+    return info;
+};
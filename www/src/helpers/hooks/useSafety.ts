@@ -0,0 +1,38 @@
+import { useEffect, useState } from "preact/hooks";
+
+import { MotionState } from "../events";
+import useDrone from "./useDrone";
+
+interface SafetyState {
+    armed: boolean;
+    airborne: boolean;
+    state: MotionState | null;
+}
+
+/**
+ * Hook to track the state of the safety interlocks.
+ * @returns whether the drone is armed and airborne, and its reported state, updated whenever any changes
+ */
+export default (): SafetyState => {
+    const { safety } = useDrone();
+    const [state, setState] = useState<SafetyState>({
+        armed: safety.armed,
+        airborne: safety.airborne,
+        state: safety.state,
+    });
+
+    useEffect(() => {
+        const update = () =>
+            setState({
+                armed: safety.armed,
+                airborne: safety.airborne,
+                state: safety.state,
+            });
+        // The state may have changed between the initial render and now
+        update();
+        safety.subscribe(update);
+        return () => safety.unsubscribe(update);
+    }, [safety]);
+
+    return state;
+};
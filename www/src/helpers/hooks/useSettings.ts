@@ -0,0 +1,20 @@
+import { useEffect, useState } from "preact/hooks";
+
+import { Settings, settings } from "../settings";
+
+/**
+ * Hook to track the persistent settings.
+ * @returns the current settings, updated whenever they change
+ */
+export default (): Settings => {
+    const [current, setCurrent] = useState<Settings>(settings.current);
+
+    useEffect(() => {
+        // The settings may have changed between the initial render and now
+        setCurrent(settings.current);
+        settings.subscribe(setCurrent);
+        return () => settings.unsubscribe(setCurrent);
+    }, []);
+
+    return current;
+};
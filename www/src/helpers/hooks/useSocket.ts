@@ -0,0 +1,8 @@
+import { Socket } from "../socket";
+import useDrone from "./useDrone";
+
+/**
+ * Hook to get the socket to talk to the drone over.
+ * @returns the socket of the drone provided by the closest `DroneContext`
+ */
+export default (): Socket => useDrone().socket;
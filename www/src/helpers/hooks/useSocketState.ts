@@ -0,0 +1,22 @@
+import { useEffect, useState } from "preact/hooks";
+
+import { ConnectionState } from "../socket";
+import useSocket from "./useSocket";
+
+/**
+ * Hook to track the state of the websocket connection.
+ * @returns the current connection state, updated whenever it changes
+ */
+export default (): ConnectionState => {
+    const socket = useSocket();
+    const [state, setState] = useState<ConnectionState>(socket.state);
+
+    useEffect(() => {
+        // The state may have changed between the initial render and now
+        setState(socket.state);
+        socket.subscribeState(setState);
+        return () => socket.unsubscribeState(setState);
+    }, [socket]);
+
+    return state;
+};
@@ -0,0 +1,22 @@
+import { useEffect, useState } from "preact/hooks";
+
+import { FlightStatus } from "../status";
+import useDrone from "./useDrone";
+
+/**
+ * Hook to track the flight status reported by the drone.
+ * @returns the last received status, or null if it is unknown
+ */
+export default (): FlightStatus | null => {
+    const { status } = useDrone();
+    const [current, setCurrent] = useState(status.current);
+
+    useEffect(() => {
+        // The status may have changed between the initial render and now
+        setCurrent(status.current);
+        status.subscribe(setCurrent);
+        return () => status.unsubscribe(setCurrent);
+    }, [status]);
+
+    return current;
+};
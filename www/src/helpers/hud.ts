@@ -0,0 +1,413 @@
+// Drawing of the heads-up display shown on top of the camera feed.
+// Everything is laid out in CSS pixels and scaled from a 320x200 reference size (the size of a
+// camera frame), so the HUD stays readable however large the feed is shown.
+
+import { ConnectionState } from "./socket";
+
+const REFERENCE_HEIGHT = 200; // Height the sizes below are designed for, in CSS px
+const PITCH_RANGE = 30; // Pitch visible above and below the center, in deg
+const PITCH_STEP = 10; // Spacing of the pitch ladder rungs, in deg
+const HEADING_RANGE = 40; // Heading visible on the tape, in deg
+const ROLL_TICKS = [-45, -30, -20, -10, 0, 10, 20, 30, 45]; // in deg
+const ROLL_RADIUS = 70; // Radius of the roll scale, in reference px
+const HUD_COLOR = "#4ade80";
+const COMMAND_COLOR = "#22d3ee";
+const SHADOW_COLOR = "rgba(0, 0, 0, 0.8)";
+const CARDINALS: { [heading: number]: string } = {
+    0: "N",
+    90: "E",
+    180: "S",
+    270: "W",
+};
+const CONNECTION_COLORS: Record<ConnectionState, string> = {
+    open: HUD_COLOR,
+    connecting: "#facc15",
+    reconnecting: "#facc15",
+    closed: "#ef4444",
+};
+
+// Elements of the HUD that can be shown or hidden.
+export interface HudLayers {
+    // Artificial horizon, aircraft symbol and roll scale
+    horizon: boolean;
+    // Pitch ladder
+    ladder: boolean;
+    // Heading tape
+    heading: boolean;
+    // Commanded attitude markers, from the last `move` sent
+    command: boolean;
+    // Connection and flight state in the corners
+    status: boolean;
+}
+
+export const DEFAULT_HUD_LAYERS: HudLayers = {
+    horizon: true,
+    ladder: true,
+    heading: true,
+    command: true,
+    status: true,
+};
+
+// Everything the HUD shows.
+export interface HudState {
+    // Measured attitude, in deg
+    attitude: { roll: number; pitch: number; yaw: number } | null;
+    // Commanded attitude, in deg
+    command: { roll: number; pitch: number } | null;
+    connection: ConnectionState;
+    armed: boolean;
+    airborne: boolean;
+}
+
+/**
+ * @param yaw yaw from the backend, counter-clockwise (see toQuaternion() in /src/elements/Viewer3D.tsx)
+ * @returns the heading in [0, 360), clockwise like a compass
+ */
+export function toHeading(yaw: number): number {
+    const heading = -yaw % 360;
+    return heading < 0 ? heading + 360 : heading;
+}
+
+/**
+ * Draw text with a dark outline, so it stays readable on any background.
+ * @param ctx context to draw on
+ * @param text text to draw
+ * @param x x position of the text
+ * @param y y position of the text
+ */
+function outlinedText(
+    ctx: CanvasRenderingContext2D,
+    text: string,
+    x: number,
+    y: number,
+): void {
+    ctx.save();
+    ctx.strokeStyle = SHADOW_COLOR;
+    ctx.lineWidth = 3;
+    ctx.strokeText(text, x, y);
+    ctx.restore();
+    ctx.fillText(text, x, y);
+}
+
+/**
+ * Stroke the current path with a dark outline underneath.
+ * @param ctx context to draw on
+ */
+function outlinedStroke(ctx: CanvasRenderingContext2D): void {
+    const { lineWidth, strokeStyle } = ctx;
+    ctx.strokeStyle = SHADOW_COLOR;
+    ctx.lineWidth = lineWidth + 2;
+    ctx.stroke();
+    ctx.strokeStyle = strokeStyle;
+    ctx.lineWidth = lineWidth;
+    ctx.stroke();
+}
+
+/**
+ * Draw the horizon and pitch ladder, which move with the attitude.
+ * @param ctx context to draw on, with the origin at the center
+ * @param state state to show
+ * @param layers layers to draw
+ * @param u size of a reference px
+ * @param radius distance from the center to a corner
+ */
+function drawAttitude(
+    ctx: CanvasRenderingContext2D,
+    state: HudState,
+    layers: HudLayers,
+    u: number,
+    radius: number,
+): void {
+    const { attitude, command } = state;
+    if (!attitude) {
+        return;
+    }
+    const pxPerDeg = (REFERENCE_HEIGHT / 2 / PITCH_RANGE) * u;
+    /**
+     * @param pitch pitch to locate
+     * @returns the y position of `pitch` on the ladder
+     */
+    const pitchY = (pitch: number) => (attitude.pitch - pitch) * pxPerDeg;
+
+    ctx.save();
+    // Rolling right tilts the world, and so the horizon, the other way
+    ctx.rotate((-attitude.roll * Math.PI) / 180);
+
+    if (layers.horizon) {
+        ctx.strokeStyle = HUD_COLOR;
+        ctx.lineWidth = 1.5 * u;
+        ctx.beginPath();
+        ctx.moveTo(-radius, pitchY(0));
+        ctx.lineTo(-20 * u, pitchY(0));
+        ctx.moveTo(20 * u, pitchY(0));
+        ctx.lineTo(radius, pitchY(0));
+        outlinedStroke(ctx);
+    }
+
+    if (layers.ladder) {
+        ctx.strokeStyle = ctx.fillStyle = HUD_COLOR;
+        ctx.lineWidth = u;
+        ctx.font = `${8 * u}px monospace`;
+        ctx.textBaseline = "middle";
+        const first =
+            Math.ceil((attitude.pitch - PITCH_RANGE) / PITCH_STEP) * PITCH_STEP;
+        for (
+            let p = first;
+            p <= attitude.pitch + PITCH_RANGE;
+            p += PITCH_STEP
+        ) {
+            if (p === 0 || Math.abs(p) > 90) {
+                continue;
+            }
+            const y = pitchY(p);
+            // Rungs below the horizon are dashed and bend up towards it, like on aircraft HUDs
+            const tip = (p > 0 ? 4 : -4) * u;
+            ctx.setLineDash(p > 0 ? [] : [4 * u, 3 * u]);
+            ctx.beginPath();
+            ctx.moveTo(-40 * u, y + tip);
+            ctx.lineTo(-40 * u, y);
+            ctx.lineTo(-15 * u, y);
+            ctx.moveTo(15 * u, y);
+            ctx.lineTo(40 * u, y);
+            ctx.lineTo(40 * u, y + tip);
+            outlinedStroke(ctx);
+            ctx.setLineDash([]);
+            ctx.textAlign = "right";
+            outlinedText(ctx, String(p), -43 * u, y);
+            ctx.textAlign = "left";
+            outlinedText(ctx, String(p), 43 * u, y);
+        }
+    }
+
+    if (layers.command && command) {
+        // Brackets at the commanded pitch, on the same ladder as the measured attitude
+        const y = pitchY(command.pitch);
+        ctx.strokeStyle = COMMAND_COLOR;
+        ctx.lineWidth = 1.5 * u;
+        ctx.beginPath();
+        for (const side of [-1, 1]) {
+            ctx.moveTo(side * 50 * u, y - 5 * u);
+            ctx.lineTo(side * 55 * u, y);
+            ctx.lineTo(side * 50 * u, y + 5 * u);
+        }
+        outlinedStroke(ctx);
+    }
+    ctx.restore();
+}
+
+/**
+ * Draw a triangle pointing towards the center from the roll scale.
+ * @param ctx context to draw on, with the origin at the center
+ * @param roll roll to point at, in deg
+ * @param r radius of the roll scale
+ * @param u size of a reference px
+ * @param filled whether to fill the triangle, or only outline it
+ */
+function rollPointer(
+    ctx: CanvasRenderingContext2D,
+    roll: number,
+    r: number,
+    u: number,
+    filled: boolean,
+): void {
+    ctx.save();
+    ctx.rotate((-roll * Math.PI) / 180);
+    ctx.beginPath();
+    ctx.moveTo(0, -r + 2 * u);
+    ctx.lineTo(-4 * u, -r + 9 * u);
+    ctx.lineTo(4 * u, -r + 9 * u);
+    ctx.closePath();
+    if (filled) {
+        ctx.fill();
+    } else {
+        outlinedStroke(ctx);
+    }
+    ctx.restore();
+}
+
+/**
+ * Draw the fixed parts of the horizon: the aircraft symbol and the roll scale.
+ * @param ctx context to draw on, with the origin at the center
+ * @param state state to show
+ * @param layers layers to draw
+ * @param u size of a reference px
+ */
+function drawAircraft(
+    ctx: CanvasRenderingContext2D,
+    state: HudState,
+    layers: HudLayers,
+    u: number,
+): void {
+    const r = ROLL_RADIUS * u;
+    if (layers.horizon) {
+        ctx.strokeStyle = ctx.fillStyle = HUD_COLOR;
+        ctx.lineWidth = 2 * u;
+        ctx.beginPath();
+        ctx.moveTo(-25 * u, 0);
+        ctx.lineTo(-10 * u, 0);
+        ctx.lineTo(-5 * u, 5 * u);
+        ctx.lineTo(0, 0);
+        ctx.lineTo(5 * u, 5 * u);
+        ctx.lineTo(10 * u, 0);
+        ctx.lineTo(25 * u, 0);
+        outlinedStroke(ctx);
+
+        ctx.lineWidth = u;
+        ctx.beginPath();
+        ctx.arc(0, 0, r, (-135 * Math.PI) / 180, (-45 * Math.PI) / 180);
+        for (const tick of ROLL_TICKS) {
+            const angle = ((tick - 90) * Math.PI) / 180;
+            const length = (tick % 30 === 0 ? 6 : 3) * u;
+            ctx.moveTo(r * Math.cos(angle), r * Math.sin(angle));
+            ctx.lineTo(
+                (r + length) * Math.cos(angle),
+                (r + length) * Math.sin(angle),
+            );
+        }
+        outlinedStroke(ctx);
+        if (state.attitude) {
+            rollPointer(ctx, state.attitude.roll, r, u, true);
+        }
+    }
+    if (layers.command && state.command) {
+        ctx.strokeStyle = COMMAND_COLOR;
+        ctx.lineWidth = u;
+        rollPointer(ctx, state.command.roll, r, u, false);
+    }
+}
+
+/**
+ * Draw the heading tape along the bottom edge.
+ * @param ctx context to draw on
+ * @param heading heading to show, in deg
+ * @param width width of the HUD
+ * @param height height of the HUD
+ * @param u size of a reference px
+ */
+function drawHeading(
+    ctx: CanvasRenderingContext2D,
+    heading: number,
+    width: number,
+    height: number,
+    u: number,
+): void {
+    const center = width / 2;
+    const pxPerDeg = (width * 0.6) / HEADING_RANGE;
+    const base = height - 14 * u;
+    ctx.strokeStyle = ctx.fillStyle = HUD_COLOR;
+    ctx.lineWidth = u;
+    ctx.font = `${8 * u}px monospace`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "bottom";
+
+    ctx.beginPath();
+    const first = Math.ceil((heading - HEADING_RANGE / 2) / 5) * 5;
+    for (let h = first; h <= heading + HEADING_RANGE / 2; h += 5) {
+        const x = center + (h - heading) * pxPerDeg;
+        const major = h % 10 === 0;
+        ctx.moveTo(x, base);
+        ctx.lineTo(x, base - (major ? 6 : 3) * u);
+        if (major) {
+            const label = ((h % 360) + 360) % 360;
+            outlinedText(
+                ctx,
+                CARDINALS[label] ?? String(label / 10).padStart(2, "0"),
+                x,
+                base - 7 * u,
+            );
+        }
+    }
+    outlinedStroke(ctx);
+
+    // Caret and readout of the current heading
+    ctx.beginPath();
+    ctx.moveTo(center, base + u);
+    ctx.lineTo(center - 4 * u, base + 6 * u);
+    ctx.lineTo(center + 4 * u, base + 6 * u);
+    ctx.closePath();
+    ctx.fill();
+    ctx.textBaseline = "top";
+    outlinedText(
+        ctx,
+        String(Math.round(heading) % 360).padStart(3, "0"),
+        center,
+        base + 6 * u,
+    );
+}
+
+/**
+ * Draw the connection and flight state in the top corners.
+ * @param ctx context to draw on
+ * @param state state to show
+ * @param width width of the HUD
+ * @param u size of a reference px
+ */
+function drawStatus(
+    ctx: CanvasRenderingContext2D,
+    state: HudState,
+    width: number,
+    u: number,
+): void {
+    const margin = 5 * u;
+    ctx.font = `bold ${9 * u}px monospace`;
+    ctx.textBaseline = "top";
+
+    ctx.textAlign = "left";
+    ctx.fillStyle = CONNECTION_COLORS[state.connection];
+    outlinedText(ctx, state.connection.toUpperCase(), margin, margin);
+
+    ctx.textAlign = "right";
+    if (state.airborne) {
+        ctx.fillStyle = "#ef4444";
+        outlinedText(ctx, "AIRBORNE", width - margin, margin);
+    } else if (state.armed) {
+        ctx.fillStyle = "#facc15";
+        outlinedText(ctx, "ARMED", width - margin, margin);
+    } else {
+        ctx.fillStyle = HUD_COLOR;
+        outlinedText(ctx, "DISARMED", width - margin, margin);
+    }
+}
+
+/**
+ * Draw the HUD.
+ * @param ctx context to draw on, in CSS px
+ * @param state state to show
+ * @param layers layers to draw
+ * @param width width of the HUD, in CSS px
+ * @param height height of the HUD, in CSS px
+ */
+export function drawHud(
+    ctx: CanvasRenderingContext2D,
+    state: HudState,
+    layers: HudLayers,
+    width: number,
+    height: number,
+): void {
+    const u = height / REFERENCE_HEIGHT;
+    ctx.save();
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+
+    // Keep the moving parts away from the heading tape and the status corners
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 18 * u, width, height - 50 * u);
+    ctx.clip();
+    ctx.translate(width / 2, height / 2);
+    drawAttitude(ctx, state, layers, u, Math.hypot(width, height) / 2);
+    ctx.restore();
+
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    drawAircraft(ctx, state, layers, u);
+    ctx.restore();
+
+    if (layers.heading && state.attitude) {
+        drawHeading(ctx, toHeading(state.attitude.yaw), width, height, u);
+    }
+    if (layers.status) {
+        drawStatus(ctx, state, width, u);
+    }
+    ctx.restore();
+}
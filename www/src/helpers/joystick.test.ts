@@ -0,0 +1,101 @@
+import { describe, expect, test } from "@jest/globals";
+
+import type { ControlConfig } from "./control";
+import {
+    CENTER,
+    DEFAULT_AXES,
+    stickPosition,
+    sticksSetpoint,
+} from "./joystick";
+
+const config = {
+    maxOutput: 3,
+    maxClimb: 20,
+    maxYawRate: 45,
+} as ControlConfig;
+
+describe("stickPosition", () => {
+    test("is centered at no distance", () => {
+        const { x, y } = stickPosition(Math.PI / 3, 0, 50);
+        expect(x).toBeCloseTo(0);
+        expect(y).toBeCloseTo(0);
+    });
+
+    test("scales with the distance", () => {
+        const { x, y } = stickPosition(Math.PI, 25, 50);
+        expect(x).toBeCloseTo(-0.5);
+        expect(y).toBeCloseTo(0);
+    });
+
+    test("saturates past a full deflection", () => {
+        const { x, y } = stickPosition((3 * Math.PI) / 2, 200, 50);
+        expect(x).toBeCloseTo(0);
+        expect(y).toBeCloseTo(-1);
+    });
+
+    test("diagonals keep the magnitude", () => {
+        const { x, y } = stickPosition(Math.PI / 4, 50, 50);
+        expect(Math.hypot(x, y)).toBeCloseTo(1);
+        expect(x).toBeCloseTo(y);
+    });
+});
+
+describe("sticksSetpoint", () => {
+    test("is neutral with both sticks centered", () => {
+        const setpoint = sticksSetpoint(CENTER, CENTER, DEFAULT_AXES, config);
+        Object.values(setpoint).forEach(value => expect(value).toBeCloseTo(0));
+    });
+
+    test("pushing the right stick up pitches forward", () => {
+        const { roll, pitch } = sticksSetpoint(
+            CENTER,
+            { x: 0, y: 1 },
+            DEFAULT_AXES,
+            config,
+        );
+        expect(roll).toBeCloseTo(0);
+        expect(pitch).toBeCloseTo(-3);
+    });
+
+    test("pushing the right stick right rolls right", () => {
+        const { roll, pitch } = sticksSetpoint(
+            CENTER,
+            { x: 1, y: 0 },
+            DEFAULT_AXES,
+            config,
+        );
+        expect(roll).toBeCloseTo(3);
+        expect(pitch).toBeCloseTo(0);
+    });
+
+    test("the left stick climbs and turns", () => {
+        const { roll, pitch, climb, yawRate } = sticksSetpoint(
+            { x: -0.5, y: 1 },
+            CENTER,
+            DEFAULT_AXES,
+            config,
+        );
+        expect(roll).toBeCloseTo(0);
+        expect(pitch).toBeCloseTo(0);
+        expect(climb).toBeCloseTo(20);
+        expect(yawRate).toBeCloseTo(-22.5);
+    });
+
+    test("scales each axis", () => {
+        const axes = {
+            ...DEFAULT_AXES,
+            roll: { scale: 0.5, centering: true },
+            climb: { scale: 0.25, centering: false },
+        };
+        const { roll, pitch, climb, yawRate } = sticksSetpoint(
+            { x: 1, y: -1 },
+            { x: 1, y: 1 },
+            axes,
+            config,
+        );
+        expect(roll).toBeCloseTo(1.5);
+        expect(pitch).toBeCloseTo(-3);
+        expect(climb).toBeCloseTo(-5);
+        expect(yawRate).toBeCloseTo(45);
+    });
+});
@@ -0,0 +1,78 @@
+// Conversion of touch stick positions to setpoints (see Joystick.tsx).
+// The single layout is one roll/pitch stick. The "Mode 2" layout of RC transmitters adds a second stick
+// on the left, moving the altitude setpoint up and down (vertical) and turning (horizontal); the right
+// stick then does roll/pitch.
+
+import type { ControlConfig, Setpoint } from "./control";
+
+export type JoystickLayout = "single" | "mode2";
+
+// Axes of the sticks, by what they control.
+export type StickAxis = "roll" | "pitch" | "climb" | "yaw";
+
+export interface AxisConfig {
+    // Fraction of the maximum output (see `ControlConfig`) commanded by a full deflection
+    scale: number;
+    // Whether the axis springs back to the center when the stick is let go, otherwise it stays where
+    // it was left (and keeps commanding that output)
+    centering: boolean;
+}
+
+export const DEFAULT_AXES: Record<StickAxis, AxisConfig> = {
+    roll: { scale: 1, centering: true },
+    pitch: { scale: 1, centering: true },
+    climb: { scale: 1, centering: true },
+    yaw: { scale: 1, centering: true },
+};
+
+// Position of a stick, each axis from -1 to 1 (right and up positive).
+export interface StickPosition {
+    x: number;
+    y: number;
+}
+
+export const CENTER: StickPosition = { x: 0, y: 0 };
+
+/**
+ * Get the position of a stick.
+ * Deflection grows with the distance from the center, up to a full deflection at `maxDistance` and beyond.
+ * @param angle angle of the stick from the right, counterclockwise, in radians
+ * @param distance distance of the stick from the center, in px
+ * @param maxDistance distance of a full deflection, in px
+ * @returns the position
+ */
+export function stickPosition(
+    angle: number,
+    distance: number,
+    maxDistance: number,
+): StickPosition {
+    const deflection = Math.min(distance, maxDistance) / maxDistance;
+    return {
+        x: Math.cos(angle) * deflection,
+        y: Math.sin(angle) * deflection,
+    };
+}
+
+/**
+ * Get the setpoint commanded by the sticks.
+ * Pushing the right stick up pitches forward (negative pitch) and right rolls right; pushing the left one
+ * up climbs and right turns clockwise.
+ * @param left position of the left stick (centered in the single layout)
+ * @param right position of the right (or single) stick
+ * @param axes scaling of each axis
+ * @param config maximum outputs
+ * @returns the setpoint
+ */
+export function sticksSetpoint(
+    left: StickPosition,
+    right: StickPosition,
+    axes: Record<StickAxis, AxisConfig>,
+    config: ControlConfig,
+): Setpoint {
+    return {
+        roll: right.x * axes.roll.scale * config.maxOutput,
+        pitch: -right.y * axes.pitch.scale * config.maxOutput,
+        climb: left.y * axes.climb.scale * config.maxClimb,
+        yawRate: left.x * axes.yaw.scale * config.maxYawRate,
+    };
+}
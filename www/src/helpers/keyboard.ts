@@ -0,0 +1,92 @@
+// Keyboard input processing for teleoperation.
+// Keys are matched by `KeyboardEvent.code` so the layout of the keyboard doesn't matter.
+
+// Directions and actions that can be triggered from the keyboard.
+export type KeyboardAction =
+    | "rollLeft"
+    | "rollRight"
+    | "pitchForward"
+    | "pitchBack"
+    | "takeoff"
+    | "land"
+    | "kill";
+
+export interface KeyboardConfig {
+    // Rate the output ramps toward the target at, in full deflections per second
+    rate: number;
+}
+
+export const DEFAULT_KEYBOARD_CONFIG: KeyboardConfig = {
+    rate: 2,
+};
+
+// Keys bound to each action, the first one is shown in the legend
+export const KEY_BINDINGS: Record<KeyboardAction, string[]> = {
+    rollLeft: ["KeyA", "ArrowLeft"],
+    rollRight: ["KeyD", "ArrowRight"],
+    pitchForward: ["KeyW", "ArrowUp"],
+    pitchBack: ["KeyS", "ArrowDown"],
+    takeoff: ["KeyT"],
+    land: ["KeyL"],
+    kill: ["KeyK"],
+};
+
+/**
+ * @param code `KeyboardEvent.code` of a key
+ * @returns the action bound to the key, or null if there is none
+ */
+export function actionForKey(code: string): KeyboardAction | null {
+    for (const action of Object.keys(KEY_BINDINGS) as KeyboardAction[]) {
+        if (KEY_BINDINGS[action].includes(code)) {
+            return action;
+        }
+    }
+    return null;
+}
+
+/**
+ * @param target target of a keyboard event
+ * @returns whether the target is a form field or editable element that keys are being typed into
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) {
+        return false;
+    }
+    return (
+        target.isContentEditable ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+    );
+}
+
+/**
+ * @param held actions whose keys are currently held down
+ * @returns the target roll and pitch, -1 to 1
+ */
+export function targetFromKeys(held: ReadonlySet<KeyboardAction>): {
+    roll: number;
+    pitch: number;
+} {
+    const roll = Number(held.has("rollRight")) - Number(held.has("rollLeft"));
+    // Forward pitches down like the touch joystick
+    const pitch =
+        Number(held.has("pitchBack")) - Number(held.has("pitchForward"));
+    return { roll, pitch };
+}
+
+/**
+ * Move a value toward a target without exceeding a maximum step.
+ * @param value current value
+ * @param target value to move toward
+ * @param step maximum change
+ * @returns the new value
+ */
+export function rampToward(
+    value: number,
+    target: number,
+    step: number,
+): number {
+    if (Math.abs(target - value) <= step) {
+        return target;
+    }
+    return value + Math.sign(target - value) * step;
+}
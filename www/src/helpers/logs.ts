@@ -0,0 +1,95 @@
+// Log messages forwarded by the backend (/src/remote/logs.zig).
+// Messages are kept from the moment the app loads, so they can be looked at after the fact, and
+// warnings and errors are also shown as toasts as they come in.
+
+import { EventMap, LOG_LEVELS, LogLevel } from "./events";
+import { EventData, Socket } from "./socket";
+import { toasts } from "./toasts";
+
+const MAX_MESSAGES = 2000; // Messages kept, the oldest are dropped first
+
+export type LogMessage = EventMap["log"];
+
+/**
+ * @param level level to check
+ * @param threshold least severe level to include
+ * @returns whether `level` is at least as severe as `threshold`
+ */
+export function atLeast(level: LogLevel, threshold: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * @param message message to format
+ * @returns the message as a line of text, like the backend prints it (prefixed with the time)
+ */
+export function formatMessage(message: LogMessage): string {
+    const time = new Date(message.ts).toISOString();
+    return `${time} ${message.level}(${message.scope}): ${message.message}`;
+}
+
+// Callback type for subscribers to the log.
+type Callback = () => void;
+
+export class Log {
+    public messages: LogMessage[] = []; // Received messages, oldest first (read-only)
+    private subscribers: Callback[] = [];
+
+    /**
+     * @param socket socket the backend forwards its log over
+     */
+    constructor(private socket: Socket) {
+        socket.subscribe("log", this.onLog);
+    }
+
+    /**
+     * Remove all messages.
+     */
+    clear(): void {
+        this.messages = [];
+        this.notify();
+    }
+
+    /**
+     * @param messages messages to export, defaults to all of them
+     * @returns the messages as text, one per line
+     */
+    export(messages = this.messages): string {
+        return messages.map(message => `${formatMessage(message)}\n`).join("");
+    }
+
+    /**
+     * Register a callback to be called when messages are received or cleared.
+     * @param callback callback to run
+     */
+    subscribe(callback: Callback): void {
+        this.subscribers.push(callback);
+    }
+
+    /**
+     * Unregister a log callback.
+     * @param callback callback to remove
+     */
+    unsubscribe(callback: Callback): void {
+        this.subscribers = this.subscribers.filter(cb => cb !== callback);
+    }
+
+    private onLog = ({ data }: EventData<"log">): void => {
+        this.messages.push(data);
+        if (this.messages.length > MAX_MESSAGES) {
+            this.messages.shift();
+        }
+        // Replayed messages are old news
+        if (this.socket.live && atLeast(data.level, "warning")) {
+            toasts.show(
+                data.level === "error" ? "danger" : "warning",
+                `${data.scope}: ${data.message}`,
+            );
+        }
+        this.notify();
+    };
+
+    private notify(): void {
+        this.subscribers.forEach(callback => callback());
+    }
+}
@@ -0,0 +1,229 @@
+// Drawing of the Pixy block overlay on top of camera frames.
+
+import { Block } from "./events";
+
+export const BLOCKTYPE_COLOR_CODE = 1; // See lib/pixyusb/include/pixy.h
+const MAX_SIGNATURE = 7; // Signatures above this are color codes, see lib/pixyusb/include/pixy.h
+
+// Colors of signatures 1-7, the same as PixyMon uses
+const SIGNATURE_COLORS = [
+    "#ef4444",
+    "#f97316",
+    "#eab308",
+    "#22c55e",
+    "#06b6d4",
+    "#3b82f6",
+    "#a855f7",
+];
+const COLOR_CODE_COLOR = "#ec4899";
+const LOCK_COLOR = "#ffffff";
+const ERROR_COLOR = "#facc15";
+const CROSSHAIR_SIZE = 8; // Half length of the crosshair arms, in px
+const ARROW_SIZE = 6; // Length of the error vector's arrowhead, in px
+
+// Fields of a block identifying its signature.
+type BlockSignature = Pick<Block, "type" | "signature">;
+
+// Layers of the overlay that can be shown or hidden.
+export interface OverlayLayers {
+    // Outline of every block
+    boxes: boolean;
+    // Signature label of every block
+    labels: boolean;
+    // Highlight of the block BLOCKLOCK locks onto
+    lock: boolean;
+    // Crosshair at the center of the frame
+    crosshair: boolean;
+    // Vector from the lock target back to the center of the frame, the error being corrected
+    error: boolean;
+}
+
+export const DEFAULT_LAYERS: OverlayLayers = {
+    boxes: true,
+    labels: true,
+    lock: true,
+    crosshair: true,
+    error: true,
+};
+
+/**
+ * @param block block to check
+ * @returns whether the block is a color code (a combination of signatures)
+ */
+export function isColorCode(block: BlockSignature): boolean {
+    return (
+        block.type === BLOCKTYPE_COLOR_CODE || block.signature > MAX_SIGNATURE
+    );
+}
+
+/**
+ * @param block block to label
+ * @returns the label of the block's signature, color codes are shown in octal like PixyMon does
+ */
+export function signatureLabel(block: BlockSignature): string {
+    return isColorCode(block)
+        ? `CC ${block.signature.toString(8)}`
+        : `S${block.signature}`;
+}
+
+/**
+ * @param block block to color
+ * @returns the color of the block's signature
+ */
+export function signatureColor(block: BlockSignature): string {
+    if (isColorCode(block)) {
+        return COLOR_CODE_COLOR;
+    }
+    return (
+        SIGNATURE_COLORS[(block.signature - 1) % SIGNATURE_COLORS.length] ??
+        COLOR_CODE_COLOR
+    );
+}
+
+/**
+ * Find the block that the motion controller locks onto in BLOCKLOCK, see motion.update() in /src/control/motion.zig.
+ * @param blocks blocks detected in the frame
+ * @returns the block with the largest area, or null if there is no lock
+ */
+export function lockTarget(blocks: readonly Block[]): Block | null {
+    // Same condition as the backend, which only locks on once it sees more than one block
+    if (blocks.length <= 1) {
+        return null;
+    }
+    return blocks.reduce((a, b) =>
+        b.width * b.height > a.width * a.height ? b : a,
+    );
+}
+
+/**
+ * Trace the outline of a block, rotated by its angle for color codes.
+ * @param ctx context to draw on
+ * @param block block to outline
+ * @param margin extra space around the block, in px
+ */
+function traceBlock(
+    ctx: CanvasRenderingContext2D,
+    block: Block,
+    margin = 0,
+): void {
+    ctx.save();
+    ctx.translate(block.x, block.y);
+    if (isColorCode(block)) {
+        // Pixy angles are counter-clockwise in degrees, canvas rotations clockwise in radians
+        ctx.rotate((-block.angle * Math.PI) / 180);
+    }
+    ctx.beginPath();
+    ctx.rect(
+        -block.width / 2 - margin,
+        -block.height / 2 - margin,
+        block.width + margin * 2,
+        block.height + margin * 2,
+    );
+    ctx.restore();
+}
+
+/**
+ * @param target block being locked onto
+ * @param width width of the frame
+ * @param height height of the frame
+ * @returns the error (setpoint - measurement) of pid_x and pid_y in /src/control/motion.zig, in px
+ */
+export function trackingError(
+    target: Block,
+    width: number,
+    height: number,
+): { x: number; y: number } {
+    return { x: width / 2 - target.x, y: height / 2 - target.y };
+}
+
+/**
+ * Draw the block overlay.
+ * @param ctx context to draw on, in frame coordinates
+ * @param blocks blocks detected in the frame
+ * @param layers layers to draw
+ * @param width width of the frame
+ * @param height height of the frame
+ */
+export function drawOverlay(
+    ctx: CanvasRenderingContext2D,
+    blocks: readonly Block[],
+    layers: OverlayLayers,
+    width: number,
+    height: number,
+): void {
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const target = lockTarget(blocks);
+    ctx.save();
+    ctx.font = "10px sans-serif";
+    ctx.textBaseline = "bottom";
+
+    for (const block of blocks) {
+        const color = signatureColor(block);
+        if (layers.boxes) {
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 2;
+            traceBlock(ctx, block);
+            ctx.stroke();
+        }
+        if (layers.labels) {
+            ctx.fillStyle = color;
+            ctx.fillText(
+                signatureLabel(block),
+                block.x - block.width / 2,
+                block.y - block.height / 2 - 2,
+            );
+        }
+    }
+
+    if (target && layers.lock) {
+        ctx.strokeStyle = LOCK_COLOR;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 3]);
+        traceBlock(ctx, target, 4);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.fillStyle = LOCK_COLOR;
+        ctx.fillText(
+            "LOCK",
+            target.x - target.width / 2 - 4,
+            target.y + target.height / 2 + 16,
+        );
+    }
+
+    if (layers.crosshair) {
+        ctx.strokeStyle = LOCK_COLOR;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(centerX - CROSSHAIR_SIZE, centerY);
+        ctx.lineTo(centerX + CROSSHAIR_SIZE, centerY);
+        ctx.moveTo(centerX, centerY - CROSSHAIR_SIZE);
+        ctx.lineTo(centerX, centerY + CROSSHAIR_SIZE);
+        ctx.stroke();
+    }
+
+    // The PID controllers correct the offset of the target from the center, so the vector points back to the center
+    if (target && layers.error) {
+        const angle = Math.atan2(centerY - target.y, centerX - target.x);
+        ctx.strokeStyle = ctx.fillStyle = ERROR_COLOR;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(target.x, target.y);
+        ctx.lineTo(centerX, centerY);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.moveTo(centerX, centerY);
+        for (const side of [-1, 1]) {
+            ctx.lineTo(
+                centerX - ARROW_SIZE * Math.cos(angle + (side * Math.PI) / 6),
+                centerY - ARROW_SIZE * Math.sin(angle + (side * Math.PI) / 6),
+            );
+        }
+        ctx.closePath();
+        ctx.fill();
+        const error = trackingError(target, width, height);
+        ctx.fillText(`e ${error.x}, ${error.y}`, centerX + 4, centerY - 4);
+    }
+
+    ctx.restore();
+}
@@ -0,0 +1,183 @@
+// Arbitration of control between clients (/src/remote/pilot.zig).
+// One client at a time is the pilot, whose control events the drone obeys; every other client is an
+// observer, whose control events are refused. Observers ask the pilot for control, or take it over
+// without asking in an emergency. While nobody is in control, the first client to send a control event
+// takes it.
+// Servers that don't arbitrate never say who is in control, in which case everyone may control the drone.
+
+import { EventMap } from "./events";
+import { settings } from "./settings";
+import { EventData, Socket } from "./socket";
+import { toasts } from "./toasts";
+
+const PILOT_TIMEOUT = 2000; // Time without a `pilot` after which it is unknown, in ms (4 dispatches)
+const SESSION_ID_LEN = 8; // Length of the public part of sessions, see `SESSION_ID_LEN` in /src/remote/sockets.zig
+
+export type PilotState = EventMap["pilot"];
+
+// Role of this client, `unknown` if the server doesn't (or didn't yet) say who is in control, or nobody is;
+// either way this client may send control events.
+export type PilotRole = "pilot" | "observer" | "unknown";
+
+// Callback type for subscribers to the pilot state.
+type Callback = () => void;
+
+export class Pilot {
+    public current: PilotState | null = null; // Last received state, null if unknown (read-only)
+    public readonly id: string; // Public part of this client's session
+    private timeout: ReturnType<typeof setTimeout> | undefined;
+    private subscribers: Callback[] = [];
+
+    /**
+     * @param socket socket to talk to the drone over
+     */
+    constructor(private socket: Socket) {
+        this.id = socket.session.slice(0, SESSION_ID_LEN);
+        socket.subscribe("pilot", this.onPilot);
+    }
+
+    /**
+     * @returns the role of this client
+     */
+    get role(): PilotRole {
+        if (!this.current) {
+            return "unknown";
+        }
+        if (!this.current.pilot) {
+            return "unknown";
+        }
+        return this.current.pilot === this.id ? "pilot" : "observer";
+    }
+
+    /**
+     * @returns whether this client may send control events, i.e. isn't an observer
+     */
+    get canControl(): boolean {
+        return this.role !== "observer";
+    }
+
+    /**
+     * @returns whether this client is waiting for the pilot to answer its request
+     */
+    get requesting(): boolean {
+        return this.current?.requester === this.id;
+    }
+
+    /**
+     * @param id public part of a session
+     * @param name name the client gave itself
+     * @returns how to show the client
+     */
+    describe(id: string, name: string): string {
+        if (id === this.id) {
+            return "You";
+        }
+        return name || `Client ${id}`;
+    }
+
+    /**
+     * Ask the pilot for control, given right away if nobody has it.
+     */
+    request(): void {
+        this.socket.send("pilot_request", {
+            name: settings.current.connection.name,
+        });
+    }
+
+    /**
+     * Give up control (to the requester, if any), or withdraw a request.
+     */
+    release(): void {
+        this.socket.send("pilot_release", {});
+    }
+
+    /**
+     * Give control to the client asking for it.
+     */
+    grant(): void {
+        this.socket.send("pilot_grant", {});
+    }
+
+    /**
+     * Refuse control to the client asking for it.
+     */
+    deny(): void {
+        this.socket.send("pilot_deny", {});
+    }
+
+    /**
+     * Take control without asking, for emergencies.
+     */
+    takeover(): void {
+        this.socket.send("pilot_takeover", {
+            name: settings.current.connection.name,
+        });
+    }
+
+    /**
+     * Register a callback to be called when the pilot state changes.
+     * @param callback callback to run
+     */
+    subscribe(callback: Callback): void {
+        this.subscribers.push(callback);
+    }
+
+    /**
+     * Unregister a state callback.
+     * @param callback callback to remove
+     */
+    unsubscribe(callback: Callback): void {
+        this.subscribers = this.subscribers.filter(cb => cb !== callback);
+    }
+
+    private onPilot = ({ data }: EventData<"pilot">): void => {
+        // Replayed states were about other sessions, this one never was the pilot
+        if (!this.socket.live) {
+            return;
+        }
+        clearTimeout(this.timeout);
+        this.timeout = setTimeout(() => this.update(null), PILOT_TIMEOUT);
+        const current = this.current;
+        if (
+            current &&
+            current.pilot === data.pilot &&
+            current.pilot_name === data.pilot_name &&
+            current.requester === data.requester &&
+            current.requester_name === data.requester_name
+        ) {
+            return; // Dispatched over and over, only announce changes
+        }
+        const wasPilot = this.role === "pilot";
+        const requester = current?.requester ?? "";
+        this.update(data);
+        if (this.role === "pilot" && !wasPilot) {
+            toasts.show("success", "You are in control");
+        } else if (this.role !== "pilot" && wasPilot) {
+            toasts.show(
+                "warning",
+                data.pilot
+                    ? `${this.describe(data.pilot, data.pilot_name)} is now in control`
+                    : "You are no longer in control",
+            );
+        }
+        if (
+            this.role === "pilot" &&
+            data.requester &&
+            data.requester !== requester
+        ) {
+            toasts.show(
+                "info",
+                `${this.describe(data.requester, data.requester_name)} asks for control`,
+            );
+        }
+    };
+
+    /**
+     * Replace and announce the state.
+     * @param state new state
+     */
+    private update(state: PilotState | null): void {
+        this.current = state;
+        this.subscribers.forEach(callback => callback());
+    }
+}
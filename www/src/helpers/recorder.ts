@@ -0,0 +1,339 @@
+// Telemetry recording and replay.
+// The recorder taps all data going through the socket, and the player feeds it back in
+// so that every subscriber re-renders a past session exactly as it happened.
+
+import { BinaryMessage, toSocketData } from "./binary";
+import { DecodeError } from "./events";
+import { Direction, Socket, SocketData } from "./socket";
+
+const SESSION_VERSION = 1; // Version of the session file format
+
+// A single message going through the socket.
+export interface RecordedMessage {
+    // Time since the start of the recording, in ms
+    time: number;
+    direction: Direction;
+    data: SocketData;
+}
+
+// A recorded session, as saved to a file.
+export interface Session {
+    version: number;
+    // Wall-clock time the recording was started at, as an ISO 8601 string
+    start: string;
+    // Length of the recording, in ms
+    duration: number;
+    messages: RecordedMessage[];
+}
+
+// Callback type for subscribers to the recorder/player state.
+type Callback = () => void;
+
+/**
+ * Parse and validate a session file.
+ * @param text contents of the session file
+ * @returns the parsed session
+ */
+export function parseSession(text: string): Session {
+    const session = JSON.parse(text) as Partial<Session>;
+    if (session.version !== SESSION_VERSION) {
+        throw new Error(
+            `unsupported session version ${String(session.version)}`,
+        );
+    }
+    if (
+        typeof session.start !== "string" ||
+        typeof session.duration !== "number" ||
+        !Array.isArray(session.messages)
+    ) {
+        throw new Error("session file is malformed");
+    }
+    for (const message of session.messages) {
+        if (
+            typeof message?.time !== "number" ||
+            (message.direction !== "in" && message.direction !== "out") ||
+            typeof message.data?.event !== "string" ||
+            typeof message.data.data !== "object"
+        ) {
+            throw new Error("session file contains malformed messages");
+        }
+    }
+    return session as Session;
+}
+
+export class Recorder {
+    public recording = false; // Whether a recording is in progress (read-only)
+    private start = 0; // High-resolution time the recording was started at
+    private startDate = new Date();
+    private messages: RecordedMessage[] = [];
+    private subscribers: Callback[] = [];
+
+    /**
+     * @param socket socket to record the data of
+     */
+    constructor(private socket: Socket) {}
+
+    /**
+     * Start a new recording, discarding any previous one.
+     */
+    record(): void {
+        if (this.recording) {
+            return;
+        }
+        this.messages = [];
+        this.start = performance.now();
+        this.startDate = new Date();
+        this.socket.tap(this.onData);
+        this.socket.tapBinary(this.onBinary);
+        this.recording = true;
+        this.notify();
+    }
+
+    /**
+     * Stop the current recording.
+     * @returns the recorded session
+     */
+    stop(): Session {
+        this.socket.untap(this.onData);
+        this.socket.untapBinary(this.onBinary);
+        this.recording = false;
+        this.notify();
+        return {
+            version: SESSION_VERSION,
+            start: this.startDate.toISOString(),
+            duration: performance.now() - this.start,
+            messages: this.messages,
+        };
+    }
+
+    /**
+     * @returns the number of messages recorded so far
+     */
+    get length(): number {
+        return this.messages.length;
+    }
+
+    /**
+     * Register a callback to be called when the recorder state changes.
+     * @param callback callback to run
+     */
+    subscribe(callback: Callback): void {
+        this.subscribers.push(callback);
+    }
+
+    /**
+     * Unregister a state callback.
+     * @param callback callback to remove
+     */
+    unsubscribe(callback: Callback): void {
+        this.subscribers = this.subscribers.filter(cb => cb !== callback);
+    }
+
+    /**
+     * Tap callback, records a message.
+     */
+    private onData = (direction: Direction, data: SocketData): void => {
+        this.messages.push({
+            time: performance.now() - this.start,
+            direction,
+            data,
+        });
+    };
+
+    /**
+     * Binary tap callback, records a message as its JSON equivalent so sessions replay the same
+     * way regardless of how the data was received.
+     */
+    private onBinary = (message: BinaryMessage): void => {
+        let data: SocketData;
+        try {
+            data = toSocketData(message);
+        } catch (err) {
+            if (!(err instanceof DecodeError)) {
+                throw err;
+            }
+            return; // Malformed, subscribers didn't get it either
+        }
+        this.onData("in", data);
+    };
+
+    private notify(): void {
+        this.subscribers.forEach(callback => callback());
+    }
+}
+
+export class Player {
+    public session: Session | null = null; // Currently loaded session (read-only)
+    public playing = false; // Whether the session is currently playing (read-only)
+    public speed = 1.0; // Playback speed multiplier (read-only, see setSpeed())
+    private index = 0; // Index of the next message to play
+    private basePosition = 0; // Position in the session when playback was last (re)started, in ms
+    private baseTime = 0; // High-resolution time playback was last (re)started at
+    private timer: number | null = null; // Timer for the next message
+    private subscribers: Callback[] = [];
+
+    /**
+     * @param socket socket to feed the session into
+     */
+    constructor(private socket: Socket) {}
+
+    /**
+     * Load a session for replay.
+     * Live data is ignored by the socket until the player is unloaded.
+     * @param session session to load
+     */
+    load(session: Session): void {
+        this.unload();
+        this.session = session;
+        this.socket.live = false;
+        this.seek(0);
+    }
+
+    /**
+     * Unload the current session and resume dispatching live data.
+     */
+    unload(): void {
+        this.pause();
+        this.session = null;
+        this.socket.live = true;
+        this.notify();
+    }
+
+    /**
+     * Start or resume playback.
+     */
+    play(): void {
+        if (!this.session || this.playing) {
+            return;
+        }
+        if (this.position >= this.session.duration) {
+            this.seek(0); // Restart from the beginning if we were at the end
+        }
+        this.baseTime = performance.now();
+        this.playing = true;
+        this.schedule();
+        this.notify();
+    }
+
+    /**
+     * Pause playback.
+     */
+    pause(): void {
+        this.basePosition = this.position;
+        this.playing = false;
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.notify();
+    }
+
+    /**
+     * Jump to a specific position in the session.
+     * The latest received data of every event up to that position is replayed immediately,
+     * so that subscribers show the state of the session at that point in time.
+     * @param position position to jump to, in ms
+     */
+    seek(position: number): void {
+        if (!this.session) {
+            return;
+        }
+        const messages = this.session.messages;
+        position = Math.min(Math.max(position, 0), this.session.duration);
+        this.index = messages.findIndex(m => m.time > position);
+        if (this.index < 0) {
+            this.index = messages.length;
+        }
+        const latest = new Map<string, RecordedMessage>();
+        for (const message of messages.slice(0, this.index)) {
+            if (message.direction === "in") {
+                latest.set(message.data.event, message);
+            }
+        }
+        latest.forEach(message => this.socket.inject("in", message.data));
+
+        this.basePosition = position;
+        this.baseTime = performance.now();
+        if (this.playing) {
+            this.schedule();
+        }
+        this.notify();
+    }
+
+    /**
+     * Set the playback speed.
+     * @param speed speed multiplier, 1.0 is real-time
+     */
+    setSpeed(speed: number): void {
+        this.basePosition = this.position;
+        this.baseTime = performance.now();
+        this.speed = speed;
+        if (this.playing) {
+            this.schedule();
+        }
+        this.notify();
+    }
+
+    /**
+     * @returns the current position in the session, in ms
+     */
+    get position(): number {
+        if (!this.playing) {
+            return this.basePosition;
+        }
+        return (
+            this.basePosition + (performance.now() - this.baseTime) * this.speed
+        );
+    }
+
+    /**
+     * Register a callback to be called when the player state changes.
+     * @param callback callback to run
+     */
+    subscribe(callback: Callback): void {
+        this.subscribers.push(callback);
+    }
+
+    /**
+     * Unregister a state callback.
+     * @param callback callback to remove
+     */
+    unsubscribe(callback: Callback): void {
+        this.subscribers = this.subscribers.filter(cb => cb !== callback);
+    }
+
+    /**
+     * Play all messages that are due and schedule the next one.
+     */
+    private schedule(): void {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (!this.session) {
+            return;
+        }
+        const messages = this.session.messages;
+        const position = this.position;
+        while (
+            this.index < messages.length &&
+            messages[this.index].time <= position
+        ) {
+            const message = messages[this.index++];
+            this.socket.inject(message.direction, message.data);
+        }
+        if (this.index >= messages.length) {
+            // Reached the end of the session
+            this.pause();
+            this.basePosition = this.session.duration;
+            this.notify();
+            return;
+        }
+        const delay = (messages[this.index].time - position) / this.speed;
+        this.timer = window.setTimeout(() => this.schedule(), delay);
+    }
+
+    private notify(): void {
+        this.subscribers.forEach(callback => callback());
+    }
+}
@@ -0,0 +1,233 @@
+// Safety interlocks for commands that start, stop or power off the drone.
+// Taking off (including the automatic takeoff of a `move` while idle, see moveEvent() in
+// /src/control/motion.zig) requires the operator to arm first, and shutting down is refused
+// while the drone is known to be airborne. Killing is always allowed, even to observers (see pilot.ts),
+// who take control first; everything else is refused to them.
+// Whether the drone is airborne comes from the state it reports (see status.ts), and is only
+// inferred from the commands sent to it while that is unknown.
+
+import { MotionState } from "./events";
+import { Pilot } from "./pilot";
+import { Direction, Socket, SocketData } from "./socket";
+import { FlightStatus, StatusTracker } from "./status";
+
+const ARM_TIMEOUT = 30000; // Time after which an armed drone that hasn't taken off disarms itself, in ms
+const LAND_TIME = 15000; // Time a landing is assumed to take, after which the drone is considered on the ground, in ms
+
+// Callback type for subscribers to the safety state.
+type Callback = () => void;
+
+export class Safety {
+    public armed = false; // Whether takeoff is allowed (read-only)
+    public airborne = false; // Whether the drone is known to be flying (read-only)
+    public state: MotionState | null = null; // State reported by the drone, null if unknown (read-only)
+    private timeout: ReturnType<typeof setTimeout> | undefined;
+    private subscribers: Callback[] = [];
+
+    /**
+     * @param socket socket to talk to the drone over
+     * @param pilot arbitration of control over the same socket
+     * @param status status of the drone, over the same socket
+     */
+    constructor(
+        private socket: Socket,
+        private pilot: Pilot,
+        status: StatusTracker,
+    ) {
+        socket.tap(this.onData);
+        status.subscribe(this.onStatus);
+    }
+
+    /**
+     * Arm the drone, allowing it to take off.
+     * Disarms again by itself if it doesn't take off in time.
+     */
+    arm(): void {
+        this.armed = true;
+        this.schedule(() => this.disarm(), ARM_TIMEOUT);
+        this.notify();
+    }
+
+    /**
+     * Disarm the drone. Refused while it is airborne, so control isn't lost mid-flight.
+     * @returns whether the drone was disarmed
+     */
+    disarm(): boolean {
+        if (this.airborne) {
+            return false;
+        }
+        this.armed = false;
+        this.schedule(null);
+        this.notify();
+        return true;
+    }
+
+    /**
+     * Send a takeoff command, if armed.
+     * @returns whether the command was sent
+     */
+    takeoff(): boolean {
+        if (!this.pilot.canControl) {
+            console.warn("refusing to take off, not in control");
+            return false;
+        }
+        if (!this.armed) {
+            console.warn("refusing to take off, not armed");
+            return false;
+        }
+        if (!this.canTakeoff()) {
+            console.warn(`refusing to take off, drone is in ${this.state}`);
+            return false;
+        }
+        this.socket.send("takeoff", {});
+        return true;
+    }
+
+    /**
+     * @returns whether the drone can take off (ignoring whether it is armed), i.e. is idle or in an unknown state
+     */
+    canTakeoff(): boolean {
+        return this.state === null || this.state === "IDLE";
+    }
+
+    /**
+     * @returns whether the drone can land, i.e. is not idle or in an unknown state
+     */
+    canLand(): boolean {
+        return this.state !== "IDLE";
+    }
+
+    /**
+     * Send a land command, if in control.
+     * @returns whether the command was sent
+     */
+    land(): boolean {
+        if (!this.pilot.canControl) {
+            console.warn("refusing to land, not in control");
+            return false;
+        }
+        this.socket.send("land", {});
+        return true;
+    }
+
+    /**
+     * Send a kill command, always allowed; observers take control first.
+     */
+    kill(): void {
+        if (!this.pilot.canControl) {
+            this.pilot.takeover();
+        }
+        this.socket.send("kill", {});
+    }
+
+    /**
+     * Send a shutdown command, unless the drone is airborne.
+     * @returns whether the command was sent
+     */
+    shutdown(): boolean {
+        if (!this.pilot.canControl) {
+            console.warn("refusing to shut down, not in control");
+            return false;
+        }
+        if (this.airborne) {
+            console.warn("refusing to shut down while airborne");
+            return false;
+        }
+        this.socket.send("shutdown", {});
+        return true;
+    }
+
+    /**
+     * Register a callback to be called when the safety state changes.
+     * @param callback callback to run
+     */
+    subscribe(callback: Callback): void {
+        this.subscribers.push(callback);
+    }
+
+    /**
+     * Unregister a state callback.
+     * @param callback callback to remove
+     */
+    unsubscribe(callback: Callback): void {
+        this.subscribers = this.subscribers.filter(cb => cb !== callback);
+    }
+
+    /**
+     * Status callback, tracks whether the drone is airborne from the state it reports.
+     */
+    private onStatus = (current: FlightStatus | null): void => {
+        // Replayed states were reported in the past, by a drone that may not even be this one
+        if (!this.socket.live) {
+            return;
+        }
+        const state = current?.state ?? null;
+        if (state === this.state) {
+            return;
+        }
+        this.state = state;
+        // An unknown state keeps the last known airborne state, as assuming the drone landed isn't safe
+        if (state !== null && state !== "IDLE" && !this.airborne) {
+            this.airborne = true;
+            this.schedule(null);
+        } else if (state === "IDLE" && this.airborne) {
+            this.landed();
+        }
+        this.notify();
+    };
+
+    /**
+     * Tap callback, infers whether the drone is airborne from the commands sent to it, unless it reports its state.
+     */
+    private onData = (direction: Direction, data: SocketData): void => {
+        // Replayed commands were sent in the past, to a drone that may not even be this one
+        if (direction !== "out" || !this.socket.live) {
+            return;
+        }
+        // Killing stops the backend, so it won't report landing
+        if (data.event === "kill") {
+            this.landed();
+            return;
+        }
+        if (this.state !== null) {
+            return;
+        }
+        switch (data.event) {
+            case "takeoff":
+            case "move":
+                if (this.armed && !this.airborne) {
+                    this.airborne = true;
+                    this.schedule(null);
+                    this.notify();
+                }
+                break;
+            case "land":
+                if (this.airborne) {
+                    this.schedule(() => this.landed(), LAND_TIME);
+                }
+                break;
+        }
+    };
+
+    /**
+     * Mark the drone as on the ground, and disarm it.
+     */
+    private landed(): void {
+        this.airborne = false;
+        this.disarm();
+    }
+
+    /**
+     * Schedule a state change, replacing any pending one.
+     * @param callback function to run, or null to only cancel the pending one
+     * @param delay delay before running it, in ms
+     */
+    private schedule(callback: (() => void) | null, delay = 0): void {
+        clearTimeout(this.timeout);
+        this.timeout = callback ? setTimeout(callback, delay) : undefined;
+    }
+
+    private notify(): void {
+        this.subscribers.forEach(callback => callback());
+    }
+}
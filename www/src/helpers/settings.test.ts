@@ -0,0 +1,40 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { describe, expect, test } from "@jest/globals";
+
+import { DEFAULT_SETTINGS, SettingsError, migrate } from "./settings";
+
+describe("migrate", () => {
+    test("keeps valid values", () => {
+        const settings = migrate({
+            version: 1,
+            control: { rate: 10 },
+            keyboard: { rate: 0.5 },
+        });
+        expect(settings.control.rate).toBe(10);
+        expect(settings.control.maxOutput).toBe(
+            DEFAULT_SETTINGS.control.maxOutput,
+        );
+        expect(settings.keyboard.rate).toBe(0.5);
+    });
+
+    test("falls back to the defaults for out of range values", () => {
+        const settings = migrate({
+            version: 1,
+            control: { rate: 0 },
+            keyboard: { rate: -2 },
+            joystick: { axes: { yaw: { scale: 5 } } },
+        });
+        expect(settings.control.rate).toBe(DEFAULT_SETTINGS.control.rate);
+        expect(settings.keyboard.rate).toBe(DEFAULT_SETTINGS.keyboard.rate);
+        expect(settings.joystick.axes.yaw.scale).toBe(
+            DEFAULT_SETTINGS.joystick.axes.yaw.scale,
+        );
+    });
+
+    test("refuses settings from a newer version", () => {
+        expect(() => migrate({ version: 2 })).toThrow(SettingsError);
+    });
+});
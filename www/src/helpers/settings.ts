@@ -0,0 +1,280 @@
+// Persistent user settings.
+// All settings live in a single versioned object in localStorage. Stored (or imported) settings are
+// migrated to the current version and merged over the defaults, so settings saved by an older
+// version of the app keep working and unknown, malformed or out of range values fall back to their defaults.
+
+import { Quality } from "./bayer";
+import { CaptureOptions, DEFAULT_CAPTURE_OPTIONS } from "./capture";
+import { ControlConfig, DEFAULT_CONTROL_CONFIG } from "./control";
+import { DEFAULT_GAMEPAD_CONFIG, GamepadConfig } from "./gamepad";
+import { DEFAULT_HUD_LAYERS, HudLayers } from "./hud";
+import {
+    AxisConfig,
+    DEFAULT_AXES,
+    JoystickLayout,
+    StickAxis,
+} from "./joystick";
+import { DEFAULT_KEYBOARD_CONFIG, KeyboardConfig } from "./keyboard";
+import { DEFAULT_LAYERS, OverlayLayers } from "./overlay";
+
+const STORAGE_KEY = "nwdrone.settings"; // localStorage key the settings are persisted under
+// Version of the shape of the settings. New fields are filled in from the defaults by `merge()`, only
+// renaming, moving or removing a field needs a bump (and a migration, see MIGRATIONS)
+export const SETTINGS_VERSION = 1;
+
+export class SettingsError extends Error {
+    name = "SettingsError";
+}
+
+export interface ConnectionSettings {
+    // URL of the websocket server, empty to use the server the app is served from
+    url: string;
+    // Name shown to other clients when asking for or holding control, see pilot.ts
+    name: string;
+}
+
+export interface CameraSettings {
+    // Format of the frames sent by the server
+    displayMode: "bayer" | "rgb";
+    displayFps: boolean;
+    quality: Quality;
+    blocks: OverlayLayers;
+    hud: HudLayers;
+}
+
+export interface JoystickSettings {
+    // Distance the touch joystick has to be dragged for a full deflection, in px
+    maxDistance: number;
+    // Layout of the touch sticks, see joystick.ts
+    layout: JoystickLayout;
+    // Scaling and self-centering of each axis of the sticks
+    axes: Record<StickAxis, AxisConfig>;
+}
+
+export interface Settings {
+    version: number;
+    connection: ConnectionSettings;
+    camera: CameraSettings;
+    joystick: JoystickSettings;
+    control: ControlConfig;
+    gamepad: GamepadConfig;
+    keyboard: KeyboardConfig;
+    capture: CaptureOptions;
+}
+
+// Sections of the settings, which are updated as a whole.
+export type SettingsSection = Exclude<keyof Settings, "version">;
+
+export const DEFAULT_SETTINGS: Settings = {
+    version: SETTINGS_VERSION,
+    connection: { url: "", name: "" },
+    camera: {
+        displayMode: "bayer",
+        displayFps: false,
+        quality: "bilinear",
+        blocks: DEFAULT_LAYERS,
+        hud: DEFAULT_HUD_LAYERS,
+    },
+    joystick: { maxDistance: 50, layout: "single", axes: DEFAULT_AXES },
+    control: DEFAULT_CONTROL_CONFIG,
+    gamepad: DEFAULT_GAMEPAD_CONFIG,
+    keyboard: DEFAULT_KEYBOARD_CONFIG,
+    capture: DEFAULT_CAPTURE_OPTIONS,
+};
+
+// Ranges of the numeric settings (those offered by the settings and controls pages), by path.
+// Values outside of them fall back to their defaults, as some would stall the control loop (e.g. a send rate of 0).
+const RANGES: { [path: string]: [min: number, max: number] } = {
+    "joystick.maxDistance": [20, 100],
+    ...Object.fromEntries(
+        Object.keys(DEFAULT_AXES).map(axis => [
+            `joystick.axes.${axis}.scale`,
+            [0.1, 1],
+        ]),
+    ),
+    "control.rate": [5, 50],
+    "control.maxOutput": [1, 15],
+    "control.maxClimb": [5, 50],
+    "control.maxYawRate": [10, 90],
+    "gamepad.deadzone": [0, 0.5],
+    "gamepad.expo": [0, 1],
+    "keyboard.rate": [0.5, 10],
+};
+
+type RawSettings = { [key: string]: unknown };
+
+// Migrations from each version to the next one, indexed by the version they migrate from (none yet).
+const MIGRATIONS: { [version: number]: (raw: RawSettings) => RawSettings } = {};
+
+/**
+ * @param value value to check
+ * @returns whether the value is a plain object (and not an array or null)
+ */
+function isObject(value: unknown): value is RawSettings {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge a value over defaults, keeping only the fields of the defaults whose types match (and that are
+ * within their range, see RANGES).
+ * @param defaults default value
+ * @param value value to merge, of unknown shape
+ * @param path path of the value in the settings
+ * @returns the merged value
+ */
+function merge<T>(defaults: T, value: unknown, path = ""): T {
+    if (isObject(defaults)) {
+        if (!isObject(value)) {
+            return defaults;
+        }
+        return Object.fromEntries(
+            Object.entries(defaults).map(([key, def]) => [
+                key,
+                merge(def, value[key], path ? `${path}.${key}` : key),
+            ]),
+        ) as T;
+    }
+    if (typeof value !== typeof defaults) {
+        return defaults;
+    }
+    const range = RANGES[path];
+    if (
+        range &&
+        typeof value === "number" &&
+        !(value >= range[0] && value <= range[1]) // Also refuses NaN
+    ) {
+        return defaults;
+    }
+    return value as T;
+}
+
+/**
+ * Bring settings of any known version up to the current version.
+ * @param raw parsed settings, of unknown shape
+ * @returns the migrated settings, merged over the defaults
+ * @throws {SettingsError} if the settings are not an object, or from a newer or unknown version
+ */
+export function migrate(raw: unknown): Settings {
+    if (!isObject(raw)) {
+        throw new SettingsError("settings must be an object");
+    }
+    let version =
+        typeof raw.version === "number" ? raw.version : SETTINGS_VERSION;
+    if (version > SETTINGS_VERSION) {
+        throw new SettingsError(
+            `settings are from a newer version (${version} > ${SETTINGS_VERSION})`,
+        );
+    }
+    while (version < SETTINGS_VERSION) {
+        const migration = MIGRATIONS[version];
+        if (!migration) {
+            throw new SettingsError(`unknown settings version ${version}`);
+        }
+        raw = migration(raw as RawSettings);
+        version++;
+    }
+    return { ...merge(DEFAULT_SETTINGS, raw), version: SETTINGS_VERSION };
+}
+
+// Callback type for subscribers to the settings.
+type Callback = (settings: Settings) => void;
+
+class SettingsStore {
+    public current: Settings; // Current settings, replaced (never mutated) on every change (read-only)
+    private subscribers: Callback[] = [];
+
+    constructor() {
+        this.current = this.load();
+    }
+
+    /**
+     * Update a section of the settings, persisting them.
+     * @param section section to update
+     * @param value new fields of the section, the others are kept
+     */
+    update<S extends SettingsSection>(
+        section: S,
+        value: Partial<Settings[S]>,
+    ): void {
+        this.apply({
+            ...this.current,
+            [section]: { ...this.current[section], ...value },
+        });
+    }
+
+    /**
+     * Reset all settings to their defaults.
+     */
+    reset(): void {
+        this.apply(DEFAULT_SETTINGS);
+    }
+
+    /**
+     * @returns the settings as pretty-printed JSON, suitable for `import()`
+     */
+    export(): string {
+        return JSON.stringify(this.current, null, 4);
+    }
+
+    /**
+     * Replace the settings with exported ones, migrating them if they are from an older version.
+     * @param json exported settings
+     * @throws {SettingsError} if the settings can't be imported
+     */
+    import(json: string): void {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(json);
+        } catch (err) {
+            throw new SettingsError(`invalid JSON: ${(err as Error).message}`);
+        }
+        this.apply(migrate(raw));
+    }
+
+    /**
+     * Register a callback to be called with the new settings whenever they change.
+     * @param callback callback to run
+     */
+    subscribe(callback: Callback): void {
+        this.subscribers.push(callback);
+    }
+
+    /**
+     * Unregister a settings callback.
+     * @param callback callback to remove
+     */
+    unsubscribe(callback: Callback): void {
+        this.subscribers = this.subscribers.filter(cb => cb !== callback);
+    }
+
+    /**
+     * @returns the persisted settings, or the defaults if there are none
+     */
+    private load(): Settings {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            if (stored) {
+                return migrate(JSON.parse(stored) as unknown);
+            }
+        } catch (err) {
+            console.warn("failed to load settings: ", err);
+        }
+        return DEFAULT_SETTINGS;
+    }
+
+    /**
+     * Replace, persist and announce the settings.
+     * @param settings new settings
+     */
+    private apply(settings: Settings): void {
+        this.current = settings;
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+        } catch (err) {
+            console.warn("failed to persist settings: ", err);
+        }
+        this.subscribers.forEach(callback => callback(settings));
+    }
+}
+
+export const settings = new SettingsStore();
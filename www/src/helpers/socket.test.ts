@@ -0,0 +1,298 @@
+import {
+    afterEach,
+    beforeEach,
+    describe,
+    expect,
+    jest,
+    test,
+} from "@jest/globals";
+
+import { buildFrame } from "./binary";
+import { Socket } from "./socket";
+import { Loopback } from "./transport";
+
+const WS_URL = "ws://drone.test/ws";
+
+let loopback: Loopback;
+let socket: Socket;
+
+/**
+ * Open the socket and accept its connection.
+ */
+function connect(): void {
+    socket.open(WS_URL, "token");
+    loopback.accept();
+}
+
+/**
+ * @returns the events sent by the socket so far
+ */
+function sentEvents(): string[] {
+    return loopback.sent.map(
+        data => (JSON.parse(data) as { event: string }).event,
+    );
+}
+
+beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, "random").mockReturnValue(1); // Always wait the full reconnection delay
+    loopback = new Loopback();
+    socket = new Socket(loopback.transport);
+});
+
+afterEach(() => {
+    socket.close();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+describe("subscriptions", () => {
+    test("subscribers get the decoded data of their event", () => {
+        connect();
+        const onOrient = jest.fn();
+        const onLog = jest.fn();
+        socket.subscribe("orient", onOrient);
+        socket.subscribe("log", onLog);
+
+        loopback.deliver({
+            event: "orient",
+            data: { roll: "1.50", pitch: "-2.00", yaw: "90.00" },
+        });
+        expect(onOrient).toHaveBeenCalledTimes(1);
+        expect(onOrient).toHaveBeenCalledWith({
+            event: "orient",
+            data: { roll: 1.5, pitch: -2, yaw: 90 },
+        });
+        expect(onLog).not.toHaveBeenCalled();
+    });
+
+    test("events outside the schema are passed raw", () => {
+        connect();
+        const callback = jest.fn();
+        socket.subscribe("custom", callback);
+        loopback.deliver({ event: "custom", data: { key: "value" } });
+        expect(callback).toHaveBeenCalledWith({
+            event: "custom",
+            data: { key: "value" },
+        });
+    });
+
+    test("unsubscribed callbacks aren't called anymore", () => {
+        connect();
+        const first = jest.fn();
+        const second = jest.fn();
+        socket.subscribe("orient", first);
+        socket.subscribe("orient", second);
+        socket.unsubscribe("orient", first);
+
+        loopback.deliver({
+            event: "orient",
+            data: { roll: "0", pitch: "0", yaw: "0" },
+        });
+        expect(first).not.toHaveBeenCalled();
+        expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    test("malformed data is rejected", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => {});
+        connect();
+        const callback = jest.fn();
+        socket.subscribe("orient", callback);
+
+        loopback.deliver("not json");
+        loopback.deliver({ event: "orient", data: { roll: "0" } });
+        loopback.deliver({
+            event: "orient",
+            data: { roll: "level", pitch: "0", yaw: "0" },
+        });
+        expect(callback).not.toHaveBeenCalled();
+        expect(error).toHaveBeenCalledTimes(3);
+    });
+
+    test("data without a payload is rejected", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => {});
+        connect();
+        const callback = jest.fn();
+        const tap = jest.fn();
+        socket.subscribe("orient", callback);
+        socket.tap(tap);
+
+        loopback.deliver('{"event":"orient","data":null}');
+        loopback.deliver('{"event":"orient"}');
+        expect(callback).not.toHaveBeenCalled();
+        expect(tap).not.toHaveBeenCalled();
+        expect(error).toHaveBeenCalledTimes(2);
+    });
+
+    test("wildcard subscribers get the raw data of matching events", () => {
+        connect();
+        const callback = jest.fn();
+        socket.subscribeMatching("pid*", callback);
+        const pid = {
+            event: "pid",
+            data: { name: "roll", kp: "1", ki: "0", kd: "0" },
+        };
+        loopback.deliver(pid);
+        loopback.deliver({ event: "pilot_x", data: {} });
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(callback).toHaveBeenCalledWith(pid);
+
+        socket.unsubscribeMatching("pid*", callback);
+        loopback.deliver(pid);
+        expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test("binary subscribers get the messages of their event", () => {
+        connect();
+        const callback = jest.fn();
+        socket.subscribeBinary("frame", callback);
+        const buffer = buildFrame({
+            header: {
+                event: "frame",
+                format: "rgb",
+                seq: 7,
+                ts: 0,
+                width: 1,
+                height: 1,
+                count: 0,
+            },
+            blocks: [],
+            raw: new Uint8Array(3),
+        });
+        loopback.deliver(buffer);
+        expect(callback).toHaveBeenCalledWith(
+            expect.objectContaining({
+                header: expect.objectContaining({ seq: 7, format: "rgb" }),
+            }),
+        );
+
+        socket.unsubscribeBinary("frame", callback);
+        loopback.deliver(buffer);
+        expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test("nothing is dispatched while not live", () => {
+        connect();
+        const callback = jest.fn();
+        socket.subscribe("custom", callback);
+        socket.live = false;
+        loopback.deliver({ event: "custom", data: {} });
+        expect(callback).not.toHaveBeenCalled();
+    });
+});
+
+describe("connection", () => {
+    test("connects with its session and token", () => {
+        const states: string[] = [];
+        socket.subscribeState(state => states.push(state));
+        connect();
+
+        const url = loopback.url;
+        expect(url.host).toBe("drone.test");
+        expect(url.searchParams.get("session")).toBe(socket.session);
+        expect(url.searchParams.get("token")).toBe("token");
+        expect(url.searchParams.get("binary")).toBe("1");
+        expect(states).toEqual(["connecting", "open"]);
+        expect(socket.isOpen).toBe(true);
+    });
+
+    test("reconnects after losing the connection", () => {
+        connect();
+        const callback = jest.fn();
+        socket.subscribe("custom", callback);
+
+        loopback.drop();
+        expect(socket.state).toBe("reconnecting");
+        expect(loopback.connected).toBe(false);
+        jest.advanceTimersByTime(500);
+        expect(loopback.connections).toBe(2);
+        loopback.accept();
+        expect(socket.state).toBe("open");
+
+        // Subscriptions are kept across reconnections
+        loopback.deliver({ event: "custom", data: {} });
+        expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test("backs off between failed attempts", () => {
+        connect();
+        loopback.drop();
+        // 500 ms before the first attempt, doubling with every failed one
+        for (const delay of [500, 1000, 2000, 4000, 8000]) {
+            const connections = loopback.connections;
+            jest.advanceTimersByTime(delay - 1);
+            expect(loopback.connections).toBe(connections);
+            jest.advanceTimersByTime(1);
+            expect(loopback.connections).toBe(connections + 1);
+            loopback.drop();
+        }
+        // Up to 10 s
+        jest.advanceTimersByTime(9999);
+        expect(loopback.connections).toBe(6);
+        jest.advanceTimersByTime(1);
+        expect(loopback.connections).toBe(7);
+
+        // An open connection resets the delay
+        loopback.accept();
+        loopback.drop();
+        jest.advanceTimersByTime(500);
+        expect(loopback.connections).toBe(8);
+    });
+
+    test("doesn't reconnect once closed", () => {
+        connect();
+        socket.close();
+        expect(socket.state).toBe("closed");
+        expect(loopback.connected).toBe(false);
+        jest.advanceTimersByTime(60000);
+        expect(loopback.connections).toBe(1);
+    });
+
+    test("queues or drops data sent while reconnecting", () => {
+        const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+        connect();
+        loopback.drop();
+
+        socket.send("land", {});
+        socket.send("move", {
+            roll: 0,
+            pitch: 0,
+            climb: 0,
+            yaw_rate: 0,
+            seq: 0,
+            ts: 0,
+        });
+        expect(warn).toHaveBeenCalledTimes(1); // The move
+        jest.advanceTimersByTime(500);
+        loopback.accept();
+        expect(sentEvents()).toEqual(["land"]);
+    });
+
+    test("drops queued data once stale", () => {
+        connect();
+        loopback.drop();
+        socket.send("kill", {});
+        // Let the next attempt fail, and the one after succeed more than 5 s later
+        jest.advanceTimersByTime(500);
+        loopback.drop();
+        jest.advanceTimersByTime(1000);
+        loopback.drop();
+        jest.advanceTimersByTime(2000);
+        loopback.drop();
+        jest.advanceTimersByTime(4000);
+        loopback.accept();
+        expect(loopback.sent).toEqual([]);
+    });
+
+    test("taps see sent and received data", () => {
+        connect();
+        const tap = jest.fn();
+        socket.tap(tap);
+        socket.send("pid_get", {});
+        loopback.deliver({ event: "custom", data: {} });
+        expect(tap.mock.calls).toEqual([
+            ["out", { event: "pid_get", data: {} }],
+            ["in", { event: "custom", data: {} }],
+        ]);
+    });
+});
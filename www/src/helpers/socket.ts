@@ -1,3 +1,14 @@
+import { BinaryEventName, BinaryMessage, parseHeader } from "./binary";
+import {
+    DecodeError,
+    EventMap,
+    EventName,
+    decode,
+    encode,
+    isEventName,
+} from "./events";
+import { Transport, TransportFactory, webSocketTransport } from "./transport";
+
 // The type for data sent/received over the websocket.
 // An equivalent type is defined in the server code (/src/remote/sockets.zig).
 export interface SocketData {
@@ -7,73 +18,213 @@ export interface SocketData {
     data: { [key: string]: string };
 }
 
+// State of the connection to the server.
+// `connecting` is only used for the very first connection attempt, any later attempts are `reconnecting`.
+export type ConnectionState = "connecting" | "open" | "reconnecting" | "closed";
+
+// What to do with data passed to `send()` while the socket is not open.
+// `queue` holds on to the data and sends it once the connection is back, `drop` discards it.
+export type SendPolicy = "queue" | "drop";
+
+// Payload of an event: typed according to the schema (see events.ts) if the event is part of it, raw otherwise.
+export type Payload<E extends string> = E extends EventName
+    ? EventMap[E]
+    : SocketData["data"];
+
+// Data received for a specific event, with its payload decoded.
+export interface EventData<E extends string> {
+    event: E;
+    data: Payload<E>;
+}
+
 // Callback type for subscribers to the websocket.
-type Callback = (event: SocketData) => void;
+type Callback<E extends string> = (event: EventData<E>) => void;
+// Callback type for subscribers to the connection state.
+type StateCallback = (state: ConnectionState) => void;
+
+// Direction of data relative to this client, `in` is received and `out` is sent.
+export type Direction = "in" | "out";
+
+// Callback type for taps, which see all raw data going through the websocket.
+type TapCallback = (direction: Direction, data: SocketData) => void;
+// Callback type for wildcard subscribers, which see the raw data of every received event matching a pattern.
+type WildcardCallback = (data: SocketData) => void;
+// Callback type for subscribers to binary messages (see binary.ts), and for taps on them.
+// Binary messages are only ever received, so there is no direction.
+type BinaryCallback = (message: BinaryMessage) => void;
 
-class Socket {
-    public isOpen = false; // Whether the socket is currently open
-    private socket: WebSocket | null = null; // Backing websocket instance
-    private subscribers: Map<string, Callback[]> = new Map(); // Map of event names to subscriber callbacks
+const RECONNECT_BASE_DELAY = 500; // Delay before the first reconnection attempt, in ms
+const RECONNECT_MAX_DELAY = 10000; // Upper bound of the reconnection delay, in ms
+const QUEUE_MAX_LENGTH = 32; // Maximum number of queued messages, the oldest are dropped first
+const QUEUE_MAX_AGE = 5000; // Queued messages older than this are not sent, in ms
+const SESSION_BYTES = 16; // Random bytes in a session, see `SESSION_LEN` in /src/remote/sockets.zig
+
+// Per-event send policies while offline, events not listed here are dropped.
+// Only events that still make sense after a (short) outage should be queued; for example,
+// replaying a stale `move` would make the drone jump to wherever the stick was seconds ago.
+const DEFAULT_SEND_POLICIES: { [event: string]: SendPolicy } = {
+    land: "queue",
+    kill: "queue",
+    // Observers take control before killing, see `Safety.kill()`
+    pilot_takeover: "queue",
+};
+
+/**
+ * @returns a new random session, as a hex string
+ */
+function createSession(): string {
+    // Not crypto.randomUUID(), which is only available over https
+    const bytes = crypto.getRandomValues(new Uint8Array(SESSION_BYTES));
+    return Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export class Socket {
+    // Identifies this client to the server for as long as the page is open, across reconnections
+    // The server only ever sends out its start, the rest must be kept secret (see /src/remote/pilot.zig)
+    public readonly session = createSession();
+    public state: ConnectionState = "closed"; // Current state of the connection (read-only)
+    public live = true; // Whether data received over the connection is dispatched, disabled during replays
+    private transport: TransportFactory; // Opens connections
+    private connection: Transport | null = null; // Current connection, if any
+    private url = ""; // URL of the current connection, reused when reconnecting
+    private token = ""; // Session token the connection is authenticated with, see auth.ts
+    private attempts = 0; // Number of failed connection attempts since the last successful open
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null; // Pending reconnection timer, if any
+    private queue: { data: SocketData; time: number }[] = []; // Data to send once the socket is open
+    private policies: Map<string, SendPolicy> = new Map(
+        Object.entries(DEFAULT_SEND_POLICIES),
+    ); // Map of event names to send policies
+    private subscribers: Map<string, Callback<any>[]> = new Map(); // Map of event names to subscriber callbacks
+    private stateSubscribers: StateCallback[] = []; // Subscribers to the connection state
+    private wildcards: {
+        pattern: string;
+        regex: RegExp;
+        callback: WildcardCallback;
+    }[] = []; // Wildcard subscribers, with their compiled patterns
+    private taps: TapCallback[] = []; // Taps on all data
+    private binarySubscribers: Map<string, BinaryCallback[]> = new Map(); // Map of event names to binary subscriber callbacks
+    private binaryTaps: BinaryCallback[] = []; // Taps on all binary messages
+
+    /**
+     * @param transport opens the connections of the socket, a browser websocket by default
+     */
+    constructor(transport: TransportFactory = webSocketTransport) {
+        this.transport = transport;
+    }
+
+    /**
+     * Whether the socket is currently open.
+     */
+    get isOpen(): boolean {
+        return this.state === "open";
+    }
 
     /**
      * Open a websocket connection.
+     * The connection will be automatically re-established if it is lost, until `close()` is called.
+     * The server is asked to send large streams as binary messages (see binary.ts), and keeps sending
+     * them as JSON to clients that don't ask for it. The client identifies itself with its `session`.
      * @param url url to connect to, defaults to the current host
+     * @param token session token to authenticate with, the server refuses connections without a valid one
      */
     open(
         url = `${window.location.protocol === "https:" ? "wss" : "ws"}://${window.location.host}/ws`,
+        token = "",
     ): void {
-        if (this.socket) {
+        if (this.connection || this.reconnectTimer !== null) {
             return;
         }
-        this.socket = new WebSocket(url);
-
-        this.socket.onopen = () => {
-            this.isOpen = true;
-        };
-
-        this.socket.onmessage = event => {
-            const data = JSON.parse(event.data as string) as SocketData;
-            this.notifySubscribers(data);
-        };
-
-        this.socket.onclose = () => {
-            this.isOpen = false;
-            this.socket = null;
-            this.subscribers.clear(); // Unsubscribe all subscribers
-        };
-
-        this.socket.onerror = error => {
-            console.error("socket error: ", error);
-        };
+        this.url = url;
+        this.token = token;
+        this.attempts = 0;
+        this.setState("connecting");
+        this.connect();
     }
 
     /**
      * Close the websocket connection.
+     * Subscribers are kept, so the socket can be opened again later.
      */
     close(): void {
-        if (this.socket) {
-            this.socket.close();
+        if (this.reconnectTimer !== null) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
         }
+        // Closed transports don't report anything, so this doesn't schedule a reconnection
+        this.connection?.close();
+        this.connection = null;
+        this.queue = [];
+        this.setState("closed");
     }
 
     /**
-     * Send data over the websocket connection.
-     * @param data `SocketData` to send
+     * Send an event over the websocket connection.
+     * If the socket is not open, the data is queued or dropped depending on the send policy of its event.
+     * @param event event name to send
+     * @param payload typed payload of the event, encoded according to the schema
+     */
+    send<E extends EventName>(event: E, payload: EventMap[E]): void;
+    /**
+     * Send raw data over the websocket connection.
+     * If the socket is not open, the data is queued or dropped depending on the send policy of its event.
+     * @param data `SocketData` to send, sent as-is
      */
-    send(data: SocketData): void {
-        if (this.socket && this.socket.readyState === WebSocket.OPEN) {
-            this.socket.send(JSON.stringify(data));
-        } else {
-            console.error("socket is not open");
+    send(data: SocketData): void;
+    send(
+        eventOrData: EventName | SocketData,
+        payload?: EventMap[EventName],
+    ): void {
+        const data =
+            typeof eventOrData === "string"
+                ? {
+                      event: eventOrData,
+                      data: encode(eventOrData, payload),
+                  }
+                : eventOrData;
+        if (this.connection && this.state === "open") {
+            this.connection.send(JSON.stringify(data));
+            this.notifyTaps("out", data);
+            return;
+        }
+        if (
+            this.state === "closed" ||
+            this.getSendPolicy(data.event) === "drop"
+        ) {
+            console.warn(`socket is not open, dropping '${data.event}'`);
+            return;
+        }
+        this.queue.push({ data, time: performance.now() });
+        if (this.queue.length > QUEUE_MAX_LENGTH) {
+            this.queue.shift();
         }
     }
 
+    /**
+     * Get the policy applied to data of a specific event sent while the socket is not open.
+     * @param event event name to get the policy of
+     * @returns the send policy of the event
+     */
+    getSendPolicy(event: string): SendPolicy {
+        return this.policies.get(event) ?? "drop";
+    }
+
+    /**
+     * Set the policy applied to data of a specific event sent while the socket is not open.
+     * @param event event name to set the policy of
+     * @param policy policy to apply
+     */
+    setSendPolicy(event: string, policy: SendPolicy): void {
+        this.policies.set(event, policy);
+    }
+
     /**
      * Register a callback to be called when data is received for a specific event.
+     * Subscriptions are kept across reconnections.
+     * Data of events in the schema is decoded before being passed to the callback, malformed data is rejected.
      * @param event event name to subscribe to
      * @param callback callback to run when data is received
      */
-    subscribe(event: string, callback: Callback): void {
+    subscribe<E extends string>(event: E, callback: Callback<E>): void {
         if (!this.subscribers.has(event)) {
             this.subscribers.set(event, []);
         }
@@ -85,7 +236,7 @@ class Socket {
      * @param event event name to unsubscribe from
      * @param callback callback to remove
      */
-    unsubscribe(event: string, callback: Callback): void {
+    unsubscribe<E extends string>(event: E, callback: Callback<E>): void {
         const callbacks = this.subscribers.get(event);
         if (callbacks) {
             this.subscribers.set(
@@ -95,17 +246,283 @@ class Socket {
         }
     }
 
+    /**
+     * Register a callback to be called when data is received for any event matching a pattern.
+     * Unlike `subscribe()`, the data is passed as-is, without being decoded or validated.
+     * @param pattern event name pattern, where `*` matches any sequence of characters (`*` alone matches every event)
+     * @param callback callback to run with the raw data
+     */
+    subscribeMatching(pattern: string, callback: WildcardCallback): void {
+        const regex = new RegExp(
+            `^${pattern
+                .split("*")
+                .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+                .join(".*")}$`,
+        );
+        this.wildcards.push({ pattern, regex, callback });
+    }
+
+    /**
+     * Unregister a wildcard callback.
+     * @param pattern pattern the callback was registered with
+     * @param callback callback to remove
+     */
+    unsubscribeMatching(pattern: string, callback: WildcardCallback): void {
+        this.wildcards = this.wildcards.filter(
+            w => w.pattern !== pattern || w.callback !== callback,
+        );
+    }
+
+    /**
+     * Register a callback to be called when a binary message is received for a specific event.
+     * Servers that don't support binary messages send the same data as a JSON event of the same name
+     * instead, so subscribers to binary messages usually also want to `subscribe()` to the event.
+     * @param event event name to subscribe to
+     * @param callback callback to run with the message
+     */
+    subscribeBinary(event: BinaryEventName, callback: BinaryCallback): void {
+        if (!this.binarySubscribers.has(event)) {
+            this.binarySubscribers.set(event, []);
+        }
+        this.binarySubscribers.get(event)?.push(callback);
+    }
+
+    /**
+     * Unregister a binary message callback.
+     * @param event event name to unsubscribe from
+     * @param callback callback to remove
+     */
+    unsubscribeBinary(event: BinaryEventName, callback: BinaryCallback): void {
+        const callbacks = this.binarySubscribers.get(event);
+        if (callbacks) {
+            this.binarySubscribers.set(
+                event,
+                callbacks.filter(cb => cb !== callback),
+            );
+        }
+    }
+
+    /**
+     * Register a callback to be called when the connection state changes.
+     * @param callback callback to run with the new state
+     */
+    subscribeState(callback: StateCallback): void {
+        this.stateSubscribers.push(callback);
+    }
+
+    /**
+     * Unregister a connection state callback.
+     * @param callback callback to remove
+     */
+    unsubscribeState(callback: StateCallback): void {
+        this.stateSubscribers = this.stateSubscribers.filter(
+            cb => cb !== callback,
+        );
+    }
+
+    /**
+     * Register a callback to be called with all raw data sent or received, regardless of its event.
+     * @param callback callback to run with the direction and data
+     */
+    tap(callback: TapCallback): void {
+        this.taps.push(callback);
+    }
+
+    /**
+     * Unregister a tap.
+     * @param callback callback to remove
+     */
+    untap(callback: TapCallback): void {
+        this.taps = this.taps.filter(cb => cb !== callback);
+    }
+
+    /**
+     * Register a callback to be called with all binary messages received, regardless of their event.
+     * Binary messages don't go through `tap()` callbacks.
+     * @param callback callback to run with the message
+     */
+    tapBinary(callback: BinaryCallback): void {
+        this.binaryTaps.push(callback);
+    }
+
+    /**
+     * Unregister a binary tap.
+     * @param callback callback to remove
+     */
+    untapBinary(callback: BinaryCallback): void {
+        this.binaryTaps = this.binaryTaps.filter(cb => cb !== callback);
+    }
+
+    /**
+     * Feed data through the socket as if it had been received or sent, without touching the connection.
+     * Received data is dispatched to taps and subscribers, sent data only to taps.
+     * @param direction direction to pretend the data went in
+     * @param data `SocketData` to feed
+     */
+    inject(direction: Direction, data: SocketData): void {
+        this.notifyTaps(direction, data);
+        if (direction === "in") {
+            this.notifySubscribers(data);
+        }
+    }
+
+    /**
+     * Open a new connection over the transport.
+     */
+    private connect(): void {
+        this.reconnectTimer = null;
+        // Relative URLs only make sense in a page
+        const url = new URL(this.url, globalThis.location?.href);
+        url.searchParams.set("binary", "1");
+        url.searchParams.set("session", this.session);
+        if (this.token) {
+            url.searchParams.set("token", this.token);
+        }
+        this.connection = this.transport(url, {
+            onopen: () => {
+                this.attempts = 0;
+                this.setState("open");
+                this.flushQueue();
+            },
+            onmessage: message => this.receive(message),
+            onclose: () => {
+                this.connection = null;
+                this.scheduleReconnect();
+            },
+            onerror: error => console.error("socket error: ", error),
+        });
+    }
+
+    /**
+     * Parse received data and notify taps and subscribers of it.
+     * @param message received data
+     */
+    private receive(message: string | ArrayBuffer): void {
+        if (!this.live) {
+            return;
+        }
+        if (message instanceof ArrayBuffer) {
+            this.receiveBinary(message);
+            return;
+        }
+        let data: SocketData;
+        try {
+            data = JSON.parse(message) as SocketData;
+        } catch {
+            console.error("socket received invalid JSON: ", message);
+            return;
+        }
+        if (
+            typeof data?.event !== "string" ||
+            typeof data.data !== "object" ||
+            data.data === null
+        ) {
+            console.error("socket received malformed data: ", data);
+            return;
+        }
+        this.notifyTaps("in", data);
+        this.notifySubscribers(data);
+    }
+
+    /**
+     * Parse a binary message and notify binary taps and subscribers of it.
+     * @param buffer received message
+     */
+    private receiveBinary(buffer: ArrayBuffer): void {
+        let message: BinaryMessage;
+        try {
+            message = { header: parseHeader(buffer), buffer };
+        } catch (err) {
+            if (!(err instanceof DecodeError)) {
+                throw err;
+            }
+            console.error(
+                `socket rejected malformed binary message: ${err.message}`,
+            );
+            return;
+        }
+        this.binaryTaps.forEach(callback => callback(message));
+        this.binarySubscribers
+            .get(message.header.event)
+            ?.forEach(callback => callback(message));
+    }
+
+    /**
+     * Schedule the next connection attempt using exponential backoff with full jitter.
+     */
+    private scheduleReconnect(): void {
+        const ceiling = Math.min(
+            RECONNECT_MAX_DELAY,
+            RECONNECT_BASE_DELAY * 2 ** this.attempts,
+        );
+        const delay = Math.random() * ceiling;
+        this.attempts++;
+        this.setState("reconnecting");
+        this.reconnectTimer = setTimeout(() => this.connect(), delay);
+    }
+
+    /**
+     * Send all queued data that isn't stale yet.
+     */
+    private flushQueue(): void {
+        const now = performance.now();
+        const queue = this.queue;
+        this.queue = [];
+        queue
+            .filter(item => now - item.time <= QUEUE_MAX_AGE)
+            .forEach(item => this.send(item.data));
+    }
+
+    /**
+     * Update the connection state and notify state subscribers if it changed.
+     * @param state new connection state
+     */
+    private setState(state: ConnectionState): void {
+        if (this.state === state) {
+            return;
+        }
+        this.state = state;
+        this.stateSubscribers.forEach(callback => callback(state));
+    }
+
+    /**
+     * Notify all taps of new data.
+     * @param direction direction the data went in
+     * @param data new data
+     */
+    private notifyTaps(direction: Direction, data: SocketData): void {
+        this.taps.forEach(callback => callback(direction, data));
+    }
+
     /**
      * Notify all relavent subscribers of new data.
      * @param data new data to send to subscribers
      */
     private notifySubscribers(data: SocketData): void {
+        this.wildcards
+            .filter(w => w.regex.test(data.event))
+            .forEach(w => w.callback(data));
         const callbacks = this.subscribers.get(data.event);
-        if (callbacks) {
-            callbacks.forEach(callback => callback(data));
+        if (!callbacks || callbacks.length === 0) {
+            return;
         }
+        let payload: unknown = data.data;
+        if (isEventName(data.event)) {
+            try {
+                payload = decode(data.event, data.data);
+            } catch (err) {
+                if (!(err instanceof DecodeError)) {
+                    throw err;
+                }
+                console.error(
+                    `socket rejected malformed '${data.event}' event: ${err.message}`,
+                    data.data,
+                );
+                return;
+            }
+        }
+        callbacks.forEach(callback =>
+            callback({ event: data.event, data: payload }),
+        );
     }
 }
-
-// Global socket instance
-export const socket = new Socket();
@@ -0,0 +1,71 @@
+// Flight status of the drone, as dispatched by the motion controller (/src/control/motion.zig).
+
+import { EventMap, MotionState } from "./events";
+import { EventData, Socket } from "./socket";
+
+const STATUS_TIMEOUT = 2000; // Time without a `status` after which the status is unknown, in ms (4 dispatches)
+
+export type FlightStatus = EventMap["status"];
+
+// How each state is shown, and what it means.
+export const STATE_INFO: {
+    [S in MotionState]: { color: string; description: string };
+} = {
+    IDLE: { color: "bg-gray-600", description: "On the ground, motors off" },
+    REV: { color: "bg-amber-600", description: "Revving the motors" },
+    TAKEOFF: { color: "bg-amber-500", description: "Climbing to hover" },
+    BLOCKLOCK: {
+        color: "bg-sky-600",
+        description: "Hovering, tracking the largest block",
+    },
+    TELEOP: { color: "bg-green-600", description: "Under manual control" },
+    LAND: { color: "bg-blue-600", description: "Descending to land" },
+};
+
+// Callback type for subscribers to the status.
+type Callback = (status: FlightStatus | null) => void;
+
+export class StatusTracker {
+    public current: FlightStatus | null = null; // Last received status, null if unknown (read-only)
+    private timeout: ReturnType<typeof setTimeout> | undefined;
+    private subscribers: Callback[] = [];
+
+    /**
+     * @param socket socket the drone reports its status over
+     */
+    constructor(socket: Socket) {
+        socket.subscribe("status", this.onStatus);
+    }
+
+    /**
+     * Register a callback to be called with the new status whenever one is received, or with null
+     * when it becomes unknown (the drone stopped sending it).
+     * @param callback callback to run
+     */
+    subscribe(callback: Callback): void {
+        this.subscribers.push(callback);
+    }
+
+    /**
+     * Unregister a status callback.
+     * @param callback callback to remove
+     */
+    unsubscribe(callback: Callback): void {
+        this.subscribers = this.subscribers.filter(cb => cb !== callback);
+    }
+
+    private onStatus = ({ data }: EventData<"status">): void => {
+        clearTimeout(this.timeout);
+        this.timeout = setTimeout(() => this.update(null), STATUS_TIMEOUT);
+        this.update(data);
+    };
+
+    /**
+     * Replace and announce the status.
+     * @param status new status
+     */
+    private update(status: FlightStatus | null): void {
+        this.current = status;
+        this.subscribers.forEach(callback => callback(status));
+    }
+}
@@ -0,0 +1,76 @@
+// Fixed-capacity ring buffer of timestamped samples, for plotting rolling telemetry.
+export class TimeSeries {
+    private times: Float64Array;
+    private values: Float64Array;
+    private start = 0; // Index of the oldest sample
+    public length = 0; // Number of samples currently stored (read-only)
+
+    /**
+     * @param capacity maximum number of samples to keep, the oldest are overwritten first
+     */
+    constructor(public readonly capacity: number) {
+        this.times = new Float64Array(capacity);
+        this.values = new Float64Array(capacity);
+    }
+
+    /**
+     * Add a sample. Samples must be pushed in chronological order.
+     * @param time time of the sample, in s
+     * @param value value of the sample
+     */
+    push(time: number, value: number): void {
+        const index = (this.start + this.length) % this.capacity;
+        this.times[index] = time;
+        this.values[index] = value;
+        if (this.length < this.capacity) {
+            this.length++;
+        } else {
+            this.start = (this.start + 1) % this.capacity;
+        }
+    }
+
+    /**
+     * Remove all samples.
+     */
+    clear(): void {
+        this.start = 0;
+        this.length = 0;
+    }
+
+    /**
+     * @param i index of the sample, 0 being the oldest
+     * @returns the time of the sample, in s
+     */
+    timeAt(i: number): number {
+        return this.times[(this.start + i) % this.capacity];
+    }
+
+    /**
+     * @param i index of the sample, 0 being the oldest
+     * @returns the value of the sample
+     */
+    valueAt(i: number): number {
+        return this.values[(this.start + i) % this.capacity];
+    }
+
+    /**
+     * Find the latest sample at or before a given time.
+     * @param time time to search for, in s
+     * @returns the index of the sample, or -1 if there is none
+     */
+    indexAt(time: number): number {
+        let lo = 0;
+        let hi = this.length - 1;
+        let found = -1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            if (this.timeAt(mid) <= time) {
+                found = mid;
+                lo = mid + 1;
+            } else {
+                hi = mid - 1;
+            }
+        }
+        return found;
+    }
+}
@@ -0,0 +1,67 @@
+// Transient notifications, shown on top of every page by the `Toasts` element.
+
+const TOAST_DURATION = 6000; // Time a toast is shown for, in ms
+const MAX_TOASTS = 4; // Toasts shown at once, the oldest are dismissed first
+
+export interface Toast {
+    id: number;
+    type: "success" | "info" | "warning" | "danger";
+    text: string;
+}
+
+// Callback type for subscribers to the toasts.
+type Callback = (toasts: Toast[]) => void;
+
+class Toasts {
+    public current: Toast[] = []; // Toasts being shown, oldest first (read-only)
+    private nextId = 0;
+    private subscribers: Callback[] = [];
+
+    /**
+     * Show a toast, which is dismissed by itself after a while.
+     * @param type kind of toast
+     * @param text text to show
+     */
+    show(type: Toast["type"], text: string): void {
+        const id = this.nextId++;
+        this.update([...this.current, { id, type, text }].slice(-MAX_TOASTS));
+        setTimeout(() => this.dismiss(id), TOAST_DURATION);
+    }
+
+    /**
+     * Dismiss a toast early.
+     * @param id id of the toast
+     */
+    dismiss(id: number): void {
+        if (this.current.some(toast => toast.id === id)) {
+            this.update(this.current.filter(toast => toast.id !== id));
+        }
+    }
+
+    /**
+     * Register a callback to be called with the toasts being shown whenever they change.
+     * @param callback callback to run
+     */
+    subscribe(callback: Callback): void {
+        this.subscribers.push(callback);
+    }
+
+    /**
+     * Unregister a toast callback.
+     * @param callback callback to remove
+     */
+    unsubscribe(callback: Callback): void {
+        this.subscribers = this.subscribers.filter(cb => cb !== callback);
+    }
+
+    /**
+     * Replace and announce the toasts being shown.
+     * @param toasts new toasts
+     */
+    private update(toasts: Toast[]): void {
+        this.current = toasts;
+        this.subscribers.forEach(callback => callback(toasts));
+    }
+}
+
+export const toasts = new Toasts();
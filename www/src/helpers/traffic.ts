@@ -0,0 +1,174 @@
+// Log of all traffic going through the websocket, for debugging.
+// Values too large to keep around (camera frames) are summarised as they are logged, so the log
+// stays small no matter how long it runs.
+
+import { BinaryMessage, parseFrame } from "./binary";
+import { DecodeError, decode, isEventName } from "./events";
+import { Direction, Socket, SocketData } from "./socket";
+
+const MAX_ENTRIES = 500; // Entries kept in the log, the oldest are dropped first
+const MAX_VALUE_LENGTH = 200; // Values longer than this are summarised, in characters
+
+// A single logged message.
+export interface TrafficEntry {
+    id: number;
+    time: number; // ms since the epoch
+    direction: Direction;
+    event: string;
+    size: number; // Size of the message as sent over the wire, in bytes
+    binary: boolean; // Whether the message was a binary one, see binary.ts
+    data: SocketData["data"]; // Payload, with long values summarised (header fields for binary messages)
+    error: string | null; // Why the payload doesn't match the schema, if it doesn't
+}
+
+/**
+ * @param data payload to summarise
+ * @returns the payload, with long values replaced by a summary of them
+ */
+function summarise(data: SocketData["data"]): SocketData["data"] {
+    return Object.fromEntries(
+        Object.entries(data).map(([key, value]) => [
+            key,
+            typeof value === "string" && value.length > MAX_VALUE_LENGTH
+                ? `<${value.length} chars: ${value.slice(0, 32)}...>`
+                : value,
+        ]),
+    );
+}
+
+/**
+ * @param data message to validate
+ * @returns why the message doesn't match the schema, or null if it does (or isn't part of it)
+ */
+function validate(data: SocketData): string | null {
+    if (!isEventName(data.event)) {
+        return null;
+    }
+    try {
+        decode(data.event, data.data);
+    } catch (err) {
+        if (!(err instanceof DecodeError)) {
+            throw err;
+        }
+        return err.message;
+    }
+    return null;
+}
+
+// Callback type for subscribers to the log.
+type Callback = () => void;
+
+export class TrafficLog {
+    public entries: TrafficEntry[] = []; // Logged messages, oldest first (read-only)
+    public paused = false; // Whether new messages are ignored (read-only)
+    private nextId = 0;
+    private subscribers: Callback[] = [];
+
+    /**
+     * @param socket socket to log the traffic of
+     */
+    constructor(socket: Socket) {
+        socket.tap(this.onData);
+        socket.tapBinary(this.onBinary);
+    }
+
+    /**
+     * Stop logging new messages, or resume logging them.
+     * @param paused whether to pause
+     */
+    setPaused(paused: boolean): void {
+        this.paused = paused;
+        this.notify();
+    }
+
+    /**
+     * Remove all logged messages.
+     */
+    clear(): void {
+        this.entries = [];
+        this.notify();
+    }
+
+    /**
+     * Register a callback to be called when the log changes.
+     * @param callback callback to run
+     */
+    subscribe(callback: Callback): void {
+        this.subscribers.push(callback);
+    }
+
+    /**
+     * Unregister a log callback.
+     * @param callback callback to remove
+     */
+    unsubscribe(callback: Callback): void {
+        this.subscribers = this.subscribers.filter(cb => cb !== callback);
+    }
+
+    /**
+     * Tap callback, logs a message.
+     */
+    private onData = (direction: Direction, data: SocketData): void => {
+        // Nobody is looking, don't bother
+        if (this.paused || this.subscribers.length === 0) {
+            return;
+        }
+        this.add({
+            time: Date.now(),
+            direction,
+            event: data.event,
+            size: JSON.stringify(data).length,
+            binary: false,
+            data: summarise(data.data),
+            error: validate(data),
+        });
+    };
+
+    /**
+     * Binary tap callback, logs a message.
+     */
+    private onBinary = (message: BinaryMessage): void => {
+        if (this.paused || this.subscribers.length === 0) {
+            return;
+        }
+        const { header, buffer } = message;
+        let error: string | null = null;
+        try {
+            parseFrame(message);
+        } catch (err) {
+            if (!(err instanceof DecodeError)) {
+                throw err;
+            }
+            error = err.message;
+        }
+        this.add({
+            time: Date.now(),
+            direction: "in",
+            event: header.event,
+            size: buffer.byteLength,
+            binary: true,
+            data: Object.fromEntries(
+                Object.entries(header)
+                    .filter(([key]) => key !== "event")
+                    .map(([key, value]) => [key, String(value)]),
+            ),
+            error,
+        });
+    };
+
+    /**
+     * Add an entry to the log, dropping the oldest if it is full.
+     * @param entry entry to add, without its id
+     */
+    private add(entry: Omit<TrafficEntry, "id">): void {
+        this.entries.push({ id: this.nextId++, ...entry });
+        if (this.entries.length > MAX_ENTRIES) {
+            this.entries.shift();
+        }
+        this.notify();
+    }
+
+    private notify(): void {
+        this.subscribers.forEach(callback => callback());
+    }
+}
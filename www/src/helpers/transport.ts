@@ -0,0 +1,146 @@
+// Transports, the connections the socket (see socket.ts) sends and receives data over.
+// The app talks to the drone over a websocket; the loopback transport keeps everything in memory instead,
+// for tests and for using components without a drone.
+
+import type { SocketData } from "./socket";
+
+// Handlers a transport reports to. None of them are called anymore once the transport is closed.
+export interface TransportHandlers {
+    // The connection is open, and data can be sent
+    onopen: () => void;
+    // Data was received, text for JSON data and a buffer for binary messages (see binary.ts)
+    onmessage: (data: string | ArrayBuffer) => void;
+    // The connection was closed or couldn't be opened
+    onclose: () => void;
+    // Something went wrong with the connection, it is closed right after
+    onerror: (error: unknown) => void;
+}
+
+// An open (or opening) connection.
+export interface Transport {
+    /**
+     * Send text data over the connection, which must be open.
+     * @param data data to send
+     */
+    send(data: string): void;
+    /**
+     * Close the connection, without calling any of its handlers.
+     */
+    close(): void;
+}
+
+// Function opening a connection to a URL.
+export type TransportFactory = (
+    url: URL,
+    handlers: TransportHandlers,
+) => Transport;
+
+/**
+ * Open a connection over a browser websocket.
+ * @param url URL to connect to
+ * @param handlers handlers to report to
+ * @returns the transport
+ */
+export const webSocketTransport: TransportFactory = (url, handlers) => {
+    const socket = new WebSocket(url);
+    socket.binaryType = "arraybuffer";
+    socket.onopen = () => handlers.onopen();
+    socket.onmessage = event =>
+        handlers.onmessage(event.data as string | ArrayBuffer);
+    socket.onclose = () => handlers.onclose();
+    socket.onerror = error => handlers.onerror(error);
+
+    return {
+        send: data => socket.send(data),
+        close: () => {
+            // Detach handlers first so closing doesn't look like losing the connection
+            socket.onopen = null;
+            socket.onmessage = null;
+            socket.onclose = null;
+            socket.onerror = null;
+            socket.close();
+        },
+    };
+};
+
+// In-memory server for loopback transports, playing the part of the drone.
+// Connections are only opened once `accept()`ed, and can be dropped to test losing the connection.
+export class Loopback {
+    public url: URL | null = null; // URL of the latest connection
+    public connections = 0; // Number of connections made so far
+    public sent: string[] = []; // Data sent by the client, over any connection
+    public onsend: ((data: string) => void) | null = null; // Called with data sent by the client, e.g. to answer it
+    private handlers: TransportHandlers | null = null; // Handlers of the current connection
+    private open = false; // Whether the current connection is open
+
+    /**
+     * Open a connection to the loopback, to be passed to a `Socket`.
+     * @param url URL to connect to
+     * @param handlers handlers to report to
+     * @returns the transport
+     */
+    readonly transport: TransportFactory = (url, handlers) => {
+        this.url = url;
+        this.connections++;
+        this.handlers = handlers;
+        this.open = false;
+        return {
+            send: data => {
+                if (this.handlers !== handlers || !this.open) {
+                    throw new Error("loopback connection is not open");
+                }
+                this.sent.push(data);
+                this.onsend?.(data);
+            },
+            close: () => {
+                if (this.handlers === handlers) {
+                    this.handlers = null;
+                    this.open = false;
+                }
+            },
+        };
+    };
+
+    /**
+     * Whether a client is connected (or connecting).
+     */
+    get connected(): boolean {
+        return this.handlers !== null;
+    }
+
+    /**
+     * Accept the pending connection, opening it.
+     */
+    accept(): void {
+        if (!this.handlers || this.open) {
+            throw new Error("no pending loopback connection");
+        }
+        this.open = true;
+        this.handlers.onopen();
+    }
+
+    /**
+     * Send data to the client.
+     * @param data `SocketData` to send as JSON, raw text, or a binary message
+     */
+    deliver(data: SocketData | string | ArrayBuffer): void {
+        if (!this.handlers || !this.open) {
+            throw new Error("loopback connection is not open");
+        }
+        this.handlers.onmessage(
+            typeof data === "string" || data instanceof ArrayBuffer
+                ? data
+                : JSON.stringify(data),
+        );
+    }
+
+    /**
+     * Close the connection from the server side, or refuse the pending one.
+     */
+    drop(): void {
+        const handlers = this.handlers;
+        this.handlers = null;
+        this.open = false;
+        handlers?.onclose();
+    }
+}
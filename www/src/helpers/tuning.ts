@@ -0,0 +1,210 @@
+// Live tuning of the backend's PID controllers (/src/control/tuning.zig), and tuning profiles.
+
+import { EventMap } from "./events";
+import { ConnectionState, EventData, Socket } from "./socket";
+
+const PROFILE_VERSION = 1; // Bump whenever the profile format changes
+
+// Parameters of a PID controller.
+export type PidParams = Omit<EventMap["pid"], "name">;
+
+// Tunable parameters, in the order they are shown.
+export const PARAMS: { key: keyof PidParams; label: string }[] = [
+    { key: "kp", label: "kP" },
+    { key: "ki", label: "kI" },
+    { key: "kd", label: "kD" },
+    { key: "tau", label: "Tau" },
+    { key: "lim_min", label: "Min" },
+    { key: "lim_max", label: "Max" },
+];
+
+// Known controllers and what they control, anything else the backend registers is shown as-is.
+export const CONTROLLERS: { [name: string]: string } = {
+    roll: "Roll (quad.zig)",
+    pitch: "Pitch (quad.zig)",
+    yaw: "Yaw (quad.zig)",
+    x: "X / roll guidance (motion.zig)",
+    y: "Y / pitch guidance (motion.zig)",
+    z: "Z / altitude (motion.zig)",
+};
+
+// A named set of parameters for some or all controllers, saved as a JSON file.
+export interface TuningProfile {
+    version: number;
+    name: string;
+    created: string; // ISO 8601
+    controllers: { [name: string]: PidParams };
+}
+
+// A parameter that differs from its compiled-in default.
+export interface ParamDiff {
+    controller: string;
+    param: keyof PidParams;
+    value: number;
+    default: number;
+}
+
+/**
+ * Parse and validate a tuning profile file.
+ * @param text contents of the profile file
+ * @returns the parsed profile
+ */
+export function parseProfile(text: string): TuningProfile {
+    const profile = JSON.parse(text) as Partial<TuningProfile>;
+    if (profile.version !== PROFILE_VERSION) {
+        throw new Error(
+            `unsupported profile version ${String(profile.version)}`,
+        );
+    }
+    if (
+        typeof profile.name !== "string" ||
+        typeof profile.controllers !== "object" ||
+        profile.controllers === null
+    ) {
+        throw new Error("profile file is malformed");
+    }
+    for (const [name, params] of Object.entries(profile.controllers)) {
+        for (const { key } of PARAMS) {
+            if (!Number.isFinite(params?.[key])) {
+                throw new Error(`controller '${name}' is missing '${key}'`);
+            }
+        }
+    }
+    return profile as TuningProfile;
+}
+
+/**
+ * @param a parameters to compare
+ * @param b parameters to compare
+ * @returns whether the parameters are equal
+ */
+export function paramsEqual(a: PidParams, b: PidParams): boolean {
+    return PARAMS.every(({ key }) => a[key] === b[key]);
+}
+
+// Callback type for subscribers to the tuner.
+type Callback = () => void;
+
+export class Tuner {
+    public current = new Map<string, PidParams>(); // Parameters last reported by the backend (read-only)
+    public defaults = new Map<string, PidParams>(); // Compiled-in parameters (read-only)
+    private subscribers: Callback[] = [];
+
+    /**
+     * @param socket socket to talk to the drone over
+     */
+    constructor(private socket: Socket) {
+        socket.subscribe("pid", this.onParams(this.current));
+        socket.subscribe("pid_default", this.onParams(this.defaults));
+        // Parameters may have changed while disconnected, e.g. the backend restarted
+        socket.subscribeState((state: ConnectionState) => {
+            if (state === "open" && this.subscribers.length > 0) {
+                this.refresh();
+            }
+        });
+    }
+
+    /**
+     * Ask the backend for the parameters of every controller.
+     */
+    refresh(): void {
+        this.socket.send("pid_get", {});
+    }
+
+    /**
+     * Change the parameters of a controller.
+     * The backend validates and applies them, then reports them back.
+     * @param name name of the controller
+     * @param params new parameters
+     */
+    set(name: string, params: PidParams): void {
+        this.socket.send("pid_set", { name, ...params });
+    }
+
+    /**
+     * Apply a profile, changing the parameters of every controller in it that differ.
+     * @param profile profile to apply
+     * @returns names of the controllers in the profile that the backend doesn't have
+     */
+    apply(profile: TuningProfile): string[] {
+        const unknown: string[] = [];
+        for (const [name, params] of Object.entries(profile.controllers)) {
+            const current = this.current.get(name);
+            if (!current) {
+                unknown.push(name);
+            } else if (!paramsEqual(current, params)) {
+                this.set(name, params);
+            }
+        }
+        return unknown;
+    }
+
+    /**
+     * @param name name to give the profile
+     * @returns a profile with the current parameters of every controller
+     */
+    profile(name: string): TuningProfile {
+        return {
+            version: PROFILE_VERSION,
+            name,
+            created: new Date().toISOString(),
+            controllers: Object.fromEntries(this.current),
+        };
+    }
+
+    /**
+     * @returns every parameter that differs from its compiled-in default
+     */
+    diff(): ParamDiff[] {
+        const diffs: ParamDiff[] = [];
+        this.current.forEach((params, controller) => {
+            const defaults = this.defaults.get(controller);
+            if (!defaults) {
+                return;
+            }
+            for (const { key } of PARAMS) {
+                if (params[key] !== defaults[key]) {
+                    diffs.push({
+                        controller,
+                        param: key,
+                        value: params[key],
+                        default: defaults[key],
+                    });
+                }
+            }
+        });
+        return diffs;
+    }
+
+    /**
+     * Register a callback to be called when any parameters change.
+     * @param callback callback to run
+     */
+    subscribe(callback: Callback): void {
+        this.subscribers.push(callback);
+    }
+
+    /**
+     * Unregister a callback.
+     * @param callback callback to remove
+     */
+    unsubscribe(callback: Callback): void {
+        this.subscribers = this.subscribers.filter(cb => cb !== callback);
+    }
+
+    /**
+     * @param into map to store reported parameters in
+     * @returns a handler for an event reporting the parameters of a controller
+     */
+    private onParams(into: Map<string, PidParams>) {
+        return ({ data }: EventData<"pid" | "pid_default">) => {
+            const { name, ...params } = data;
+            into.set(name, params);
+            this.notify();
+        };
+    }
+
+    private notify(): void {
+        this.subscribers.forEach(callback => callback());
+    }
+}
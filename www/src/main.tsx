@@ -2,11 +2,21 @@ import { render } from "preact";
 import { useEffect } from "preact/hooks";
 import { Link, Route, Switch } from "wouter-preact";
 
+import Toasts from "./elements/Toasts";
+
 import Actions from "./pages/Actions";
+import Controls from "./pages/Controls";
 import Dashboard from "./pages/Dashboard";
+import Debug from "./pages/Debug";
 import Index from "./pages/Index";
+import Logs from "./pages/Logs";
+import Settings from "./pages/Settings";
+import Telemetry from "./pages/Telemetry";
+import Tuning from "./pages/Tuning";
 
-import { socket } from "./helpers/socket";
+import { createDrone } from "./helpers/drone";
+import { DroneContext, useAuth, useDrone, useSettings } from "./helpers/hooks";
+import { Socket } from "./helpers/socket";
 
 import "./style.css";
 
@@ -31,11 +41,42 @@ function NoMatch() {
 }
 
 function App() {
+    const { socket, control, capture } = useDrone();
+    const {
+        connection,
+        control: controlConfig,
+        capture: captureOptions,
+    } = useSettings();
+    const { token } = useAuth();
+
     useEffect(() => {
-        // Open socket connection on page load, close on unload
-        socket.open();
+        // Open socket connection once logged in, close on unload or logout, and reconnect when the URL changes
+        if (!token) {
+            return;
+        }
+        socket.open(connection.url || undefined, token);
         return () => socket.close();
-    }, []);
+    }, [socket, connection.url, token]);
+
+    // Apply the settings of the helpers that live outside of any component
+    useEffect(() => control.configure(controlConfig), [control, controlConfig]);
+    useEffect(
+        () => capture.setOptions(captureOptions),
+        [capture, captureOptions],
+    );
+
+    if (!token) {
+        // Everything but the settings (to change the server) needs a session, Index asks for one
+        return (
+            <main class={"w-full h-full"}>
+                <Switch>
+                    <Route path="/settings">{() => <Settings />}</Route>
+                    <Route>{() => <Index />}</Route>
+                </Switch>
+                <Toasts />
+            </main>
+        );
+    }
 
     return (
         <main class={"w-full h-full"}>
@@ -43,10 +84,35 @@ function App() {
                 <Route path="/">{() => <Index />}</Route>
                 <Route path="/actions">{() => <Actions />}</Route>
                 <Route path="/dashboard">{() => <Dashboard />}</Route>
+                <Route path="/telemetry">{() => <Telemetry />}</Route>
+                <Route path="/controls">{() => <Controls />}</Route>
+                <Route path="/tuning">{() => <Tuning />}</Route>
+                <Route path="/settings">{() => <Settings />}</Route>
+                <Route path="/logs">{() => <Logs />}</Route>
+                <Route path="/debug">{() => <Debug />}</Route>
                 <Route>{() => <NoMatch />}</Route>
             </Switch>
+            <Toasts />
         </main>
     );
 }
 
-render(<App />, document.getElementById("root"));
+// Cache the app for offline use (see /www/pwa), only in builds so development servers stay live
+// Browsers only allow service workers over HTTPS or on localhost, the settings page tells why otherwise
+if (import.meta.env.PROD && "serviceWorker" in navigator) {
+    navigator.serviceWorker
+        .register("/sw.js")
+        .catch(err => console.warn("failed to register service worker: ", err));
+} else if (import.meta.env.PROD && !window.isSecureContext) {
+    console.warn(
+        "not a secure context, the app can't be installed or used offline",
+    );
+}
+
+// Components talk to the drone over a websocket, through the helpers built around it
+render(
+    <DroneContext.Provider value={createDrone(new Socket())}>
+        <App />
+    </DroneContext.Provider>,
+    document.getElementById("root"),
+);
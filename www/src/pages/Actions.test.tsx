@@ -0,0 +1,110 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import {
+    afterEach,
+    beforeEach,
+    describe,
+    expect,
+    jest,
+    test,
+} from "@jest/globals";
+import { render } from "preact";
+import { act } from "preact/test-utils";
+
+import Actions from "./Actions";
+
+import { Drone, createDrone } from "../helpers/drone";
+import { DroneContext } from "../helpers/hooks";
+import { Socket } from "../helpers/socket";
+import { Loopback } from "../helpers/transport";
+
+let loopback: Loopback;
+let drone: Drone;
+let root: HTMLElement;
+
+/**
+ * @param text text of the button
+ * @returns the button of the page with that text
+ */
+function button(text: string): HTMLButtonElement {
+    const found = [...root.querySelectorAll("button")].find(
+        b => b.textContent === text,
+    );
+    if (!found) {
+        throw new Error(`no '${text}' button`);
+    }
+    return found;
+}
+
+/**
+ * @returns the events sent to the drone so far
+ */
+function sentEvents(): string[] {
+    return loopback.sent.map(
+        data => (JSON.parse(data) as { event: string }).event,
+    );
+}
+
+beforeEach(() => {
+    jest.useFakeTimers();
+    // The simulated DOM can't draw, captures (see capture.ts) do without
+    jest.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+    loopback = new Loopback();
+    drone = createDrone(new Socket(loopback.transport));
+    drone.socket.open("ws://drone.test/ws", "token");
+    loopback.accept();
+    root = document.createElement("div");
+    document.body.appendChild(root);
+    // Synchronous callbacks are flushed before act() returns, nothing to await
+    void act(() => {
+        render(
+            <DroneContext.Provider value={drone}>
+                <Actions />
+            </DroneContext.Provider>,
+            root,
+        );
+    });
+});
+
+afterEach(() => {
+    void act(() => render(null, root));
+    root.remove();
+    drone.socket.close();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+describe("Actions", () => {
+    test("takes off once armed", () => {
+        expect(button("Takeoff").disabled).toBe(true);
+
+        void act(() => root.querySelector("input")?.click());
+        expect(button("Takeoff").disabled).toBe(false);
+
+        void act(() => button("Takeoff").click());
+        expect(sentEvents()).toEqual(["takeoff"]);
+    });
+
+    test("observers can't take off", () => {
+        void act(() => {
+            root.querySelector("input")?.click();
+            loopback.deliver({
+                event: "pilot",
+                data: {
+                    pilot: "0badf00d",
+                    pilot_name: "Ground station",
+                    requester: "",
+                    requester_name: "",
+                },
+            });
+        });
+        expect(root.textContent).toContain("Ground station is in control");
+        expect(button("Takeoff").disabled).toBe(true);
+        expect(button("Shutdown").disabled).toBe(true);
+
+        button("Takeoff").click();
+        expect(sentEvents()).toEqual([]);
+    });
+});
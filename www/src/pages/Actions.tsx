@@ -1,38 +1,86 @@
+import ArmSwitch from "../elements/ArmSwitch";
 import ContentBlock from "../elements/ContentBlock";
-import { socket } from "../helpers/socket";
+import HoldButton from "../elements/HoldButton";
+import PilotPanel from "../elements/PilotPanel";
+import StateBadge from "../elements/StateBadge";
+
+import { useDrone, usePilot, useSafety } from "../helpers/hooks";
+
+const OBSERVER_TITLE = "Only the client in control can do this";
 
 export default function Actions() {
+    const { safety } = useDrone();
+    const { armed, airborne, state } = useSafety();
+    const observer = usePilot().role === "observer";
+    const canTakeoff = !observer && armed && safety.canTakeoff();
+
     return (
         <ContentBlock title="Actions">
-            <div className="flex justify-center items-center m-4 h-screen space-x-2">
-                <button
-                    onClick={() => socket.send({ event: "kill", data: {} })}
-                    className="p-2 bg-red-500 text-white rounded"
-                    title="Kill the drone's backing process"
-                >
-                    Kill
-                </button>
-                <button
-                    onClick={() => socket.send({ event: "shutdown", data: {} })}
-                    className="p-2 bg-orange-500 text-white rounded"
-                    title="Shut down the drone"
-                >
-                    Shutdown
-                </button>
-                <button
-                    onClick={() => socket.send({ event: "takeoff", data: {} })}
-                    className="p-2 bg-green-600 text-white rounded"
-                    title="Take off the drone"
-                >
-                    Takeoff
-                </button>
-                <button
-                    onClick={() => socket.send({ event: "land", data: {} })}
-                    className="p-2 bg-blue-500 text-white rounded"
-                    title="Land the drone"
-                >
-                    Land
-                </button>
+            <div className="flex flex-col justify-center items-center gap-4 m-4 h-screen">
+                <StateBadge state={state} />
+                <PilotPanel />
+                <ArmSwitch />
+                <div className="flex space-x-2">
+                    <HoldButton
+                        onConfirm={() => safety.kill()}
+                        className="p-2 bg-red-500 text-white rounded"
+                        title={
+                            observer
+                                ? "Hold to take control and kill the drone's backing process"
+                                : "Hold to kill the drone's backing process"
+                        }
+                    >
+                        Kill
+                    </HoldButton>
+                    <HoldButton
+                        onConfirm={() => safety.shutdown()}
+                        disabled={observer || airborne}
+                        className="p-2 bg-orange-500 text-white rounded"
+                        title={
+                            observer
+                                ? OBSERVER_TITLE
+                                : airborne
+                                  ? "Can't shut down while airborne, land first"
+                                  : "Hold to shut down the drone"
+                        }
+                    >
+                        Shutdown
+                    </HoldButton>
+                    <button
+                        onClick={() => safety.takeoff()}
+                        disabled={!canTakeoff}
+                        className="p-2 bg-green-600 text-white rounded disabled:opacity-50"
+                        title={
+                            canTakeoff
+                                ? "Take off the drone"
+                                : observer
+                                  ? OBSERVER_TITLE
+                                  : armed
+                                    ? `Can't take off while in ${state}`
+                                    : "Arm the drone to take off"
+                        }
+                    >
+                        Takeoff
+                    </button>
+                    <button
+                        onClick={() => safety.land()}
+                        disabled={observer || !safety.canLand()}
+                        className="p-2 bg-blue-500 text-white rounded disabled:opacity-50"
+                        title={
+                            observer
+                                ? OBSERVER_TITLE
+                                : safety.canLand()
+                                  ? "Land the drone"
+                                  : "Already on the ground"
+                        }
+                    >
+                        Land
+                    </button>
+                </div>
+                <p className="text-sm text-gray-400">
+                    Hold Kill or Shutdown to confirm.
+                    {airborne && " Shutdown is unavailable while airborne."}
+                </p>
             </div>
         </ContentBlock>
     );
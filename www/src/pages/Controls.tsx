@@ -0,0 +1,377 @@
+import preact from "preact";
+import { useEffect, useRef, useState } from "preact/hooks";
+
+import ContentBlock from "../elements/ContentBlock";
+
+import classNames from "../helpers/classNames";
+import { DEFAULT_CONTROL_CONFIG } from "../helpers/control";
+import {
+    AxisConfig,
+    DEFAULT_GAMEPAD_CONFIG,
+    GamepadAction,
+    GamepadConfig,
+    GamepadState,
+    pollGamepad,
+} from "../helpers/gamepad";
+import { useSettings } from "../helpers/hooks";
+import { DEFAULT_KEYBOARD_CONFIG } from "../helpers/keyboard";
+import { settings } from "../helpers/settings";
+
+const ACTIONS: GamepadAction[] = ["takeoff", "land", "kill"];
+const STANDARD_AXES = 4; // Number of axes in the standard mapping, shown when no gamepad is connected
+
+interface AxisBarProps {
+    label: string;
+    value: number; // -1 to 1
+    detail?: string;
+}
+
+// Horizontal bar showing an axis value, growing from the center.
+const AxisBar: preact.FunctionComponent<AxisBarProps> = ({
+    label,
+    value,
+    detail,
+}) => {
+    const width = Math.min(Math.abs(value), 1) * 50;
+    return (
+        <div className="flex items-center gap-2 text-sm font-mono">
+            <span className="w-24 shrink-0">{label}</span>
+            <div className="relative h-3 flex-1 bg-gray-800 rounded">
+                <div className="absolute inset-y-0 left-1/2 w-px bg-gray-500" />
+                <div
+                    className="absolute inset-y-0 bg-blue-500 rounded"
+                    style={{
+                        left: value < 0 ? `${50 - width}%` : "50%",
+                        width: `${width}%`,
+                    }}
+                />
+            </div>
+            <span className="w-32 shrink-0 text-right">
+                {value.toFixed(3)}
+                {detail && ` ${detail}`}
+            </span>
+        </div>
+    );
+};
+
+interface AxisSelectProps {
+    label: string;
+    axis: AxisConfig;
+    count: number;
+    onChange: (axis: AxisConfig) => void;
+}
+
+// Selection of the gamepad axis used for a control, and whether it is inverted.
+const AxisSelect: preact.FunctionComponent<AxisSelectProps> = ({
+    label,
+    axis,
+    count,
+    onChange,
+}) => (
+    <div className="flex items-center gap-2 text-sm">
+        <span className="w-24">{label}</span>
+        <select
+            value={axis.index}
+            onChange={e =>
+                onChange({ ...axis, index: Number(e.currentTarget.value) })
+            }
+            className="p-1 bg-gray-800 rounded"
+        >
+            {Array.from({ length: Math.max(count, axis.index + 1) }, (_, i) => (
+                <option key={i} value={i}>
+                    Axis {i}
+                </option>
+            ))}
+        </select>
+        <label className="flex items-center gap-x-1">
+            <input
+                type="checkbox"
+                checked={axis.invert}
+                onChange={e =>
+                    onChange({ ...axis, invert: e.currentTarget.checked })
+                }
+            />
+            Invert
+        </label>
+    </div>
+);
+
+export default function Controls() {
+    const {
+        gamepad: config,
+        control: controlConfig,
+        keyboard: keyboardConfig,
+    } = useSettings();
+    const [state, setState] = useState<GamepadState | null>(null);
+    const [remapping, setRemapping] = useState<GamepadAction | null>(null);
+    const configRef = useRef(config);
+    configRef.current = config;
+    const remappingRef = useRef(remapping);
+    remappingRef.current = remapping;
+
+    /**
+     * Update and persist the gamepad configuration.
+     * @param newConfig new configuration
+     */
+    const updateConfig = (newConfig: GamepadConfig) =>
+        settings.update("gamepad", newConfig);
+
+    useEffect(() => {
+        let frame = 0;
+        let prevButtons: boolean[] = [];
+        const poll = () => {
+            frame = requestAnimationFrame(poll);
+            const current = pollGamepad(configRef.current);
+            setState(current);
+            // While remapping, the next pressed button is assigned to the action
+            const action = remappingRef.current;
+            if (current && action) {
+                const index = current.buttons.findIndex(
+                    (pressed, i) => pressed && !prevButtons[i],
+                );
+                if (index >= 0) {
+                    updateConfig({
+                        ...configRef.current,
+                        buttons: {
+                            ...configRef.current.buttons,
+                            [action]: index,
+                        },
+                    });
+                    setRemapping(null);
+                }
+            }
+            prevButtons = current?.buttons ?? [];
+        };
+        frame = requestAnimationFrame(poll);
+        return () => cancelAnimationFrame(frame);
+    }, []);
+
+    const axisCount = state?.axes.length ?? STANDARD_AXES;
+
+    return (
+        <ContentBlock title="Controls">
+            <div className="flex flex-col gap-6 m-4 text-gray-300 max-w-2xl">
+                <section className="flex flex-col gap-3">
+                    <h2 className="text-lg font-semibold text-white">
+                        Control stream
+                    </h2>
+                    <label className="flex items-center gap-2 text-sm">
+                        <span className="w-24">Send rate</span>
+                        <input
+                            type="range"
+                            min={5}
+                            max={50}
+                            step={5}
+                            value={controlConfig.rate}
+                            onInput={e =>
+                                settings.update("control", {
+                                    rate: Number(e.currentTarget.value),
+                                })
+                            }
+                            className="flex-1"
+                        />
+                        <span className="w-12 text-right font-mono">
+                            {controlConfig.rate}Hz
+                        </span>
+                    </label>
+                    <p className="text-sm text-gray-400">
+                        While any input is engaged, the current setpoint is sent
+                        at this rate. The drone levels out and hovers if it
+                        stops hearing from the controls mid-maneuver.
+                    </p>
+                    <div>
+                        <button
+                            onClick={() =>
+                                settings.update("control", {
+                                    rate: DEFAULT_CONTROL_CONFIG.rate,
+                                })
+                            }
+                            className="px-2 py-1 bg-gray-800 rounded text-sm"
+                        >
+                            Reset to defaults
+                        </button>
+                    </div>
+                </section>
+                <section className="flex flex-col gap-3">
+                    <h2 className="text-lg font-semibold text-white">
+                        Gamepad
+                    </h2>
+                    <p className="text-sm text-gray-400">
+                        {state
+                            ? `Connected: ${state.id}`
+                            : "No gamepad detected, connect one and press any button."}
+                    </p>
+                    <label className="flex items-center gap-2 text-sm">
+                        <span className="w-24">Deadzone</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={0.5}
+                            step={0.01}
+                            value={config.deadzone}
+                            onInput={e =>
+                                updateConfig({
+                                    ...config,
+                                    deadzone: Number(e.currentTarget.value),
+                                })
+                            }
+                            className="flex-1"
+                        />
+                        <span className="w-12 text-right font-mono">
+                            {config.deadzone.toFixed(2)}
+                        </span>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        <span className="w-24">Expo</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.01}
+                            value={config.expo}
+                            onInput={e =>
+                                updateConfig({
+                                    ...config,
+                                    expo: Number(e.currentTarget.value),
+                                })
+                            }
+                            className="flex-1"
+                        />
+                        <span className="w-12 text-right font-mono">
+                            {config.expo.toFixed(2)}
+                        </span>
+                    </label>
+                    <AxisSelect
+                        label="Roll"
+                        axis={config.roll}
+                        count={axisCount}
+                        onChange={roll => updateConfig({ ...config, roll })}
+                    />
+                    <AxisSelect
+                        label="Pitch"
+                        axis={config.pitch}
+                        count={axisCount}
+                        onChange={pitch => updateConfig({ ...config, pitch })}
+                    />
+                    {ACTIONS.map(action => (
+                        <div
+                            key={action}
+                            className="flex items-center gap-2 text-sm"
+                        >
+                            <span className="w-24 capitalize">{action}</span>
+                            <span className="w-24 font-mono">
+                                {remapping === action
+                                    ? "press..."
+                                    : `Button ${config.buttons[action]}`}
+                            </span>
+                            <button
+                                onClick={() =>
+                                    setRemapping(
+                                        remapping === action ? null : action,
+                                    )
+                                }
+                                className="px-2 py-1 bg-gray-800 rounded"
+                            >
+                                {remapping === action ? "Cancel" : "Remap"}
+                            </button>
+                        </div>
+                    ))}
+                    <div>
+                        <button
+                            onClick={() => updateConfig(DEFAULT_GAMEPAD_CONFIG)}
+                            className="px-2 py-1 bg-gray-800 rounded text-sm"
+                        >
+                            Reset to defaults
+                        </button>
+                    </div>
+                </section>
+                <section className="flex flex-col gap-3">
+                    <h2 className="text-lg font-semibold text-white">
+                        Keyboard
+                    </h2>
+                    <label className="flex items-center gap-2 text-sm">
+                        <span className="w-24">Ramp rate</span>
+                        <input
+                            type="range"
+                            min={0.5}
+                            max={10}
+                            step={0.5}
+                            value={keyboardConfig.rate}
+                            onInput={e =>
+                                settings.update("keyboard", {
+                                    rate: Number(e.currentTarget.value),
+                                })
+                            }
+                            className="flex-1"
+                        />
+                        <span className="w-12 text-right font-mono">
+                            {keyboardConfig.rate.toFixed(1)}/s
+                        </span>
+                    </label>
+                    <p className="text-sm text-gray-400">
+                        Full deflections per second the output moves toward the
+                        held keys at, higher is snappier.
+                    </p>
+                    <div>
+                        <button
+                            onClick={() =>
+                                settings.update(
+                                    "keyboard",
+                                    DEFAULT_KEYBOARD_CONFIG,
+                                )
+                            }
+                            className="px-2 py-1 bg-gray-800 rounded text-sm"
+                        >
+                            Reset to defaults
+                        </button>
+                    </div>
+                </section>
+                <section className="flex flex-col gap-2">
+                    <h2 className="text-lg font-semibold text-white">
+                        Input test
+                    </h2>
+                    {state ? (
+                        <>
+                            {state.axes.map((value, i) => (
+                                <AxisBar
+                                    key={i}
+                                    label={`Axis ${i}`}
+                                    value={value}
+                                />
+                            ))}
+                            <AxisBar
+                                label="Roll"
+                                value={state.roll}
+                                detail={`${(state.roll * controlConfig.maxOutput).toFixed(2)}°`}
+                            />
+                            <AxisBar
+                                label="Pitch"
+                                value={state.pitch}
+                                detail={`${(state.pitch * controlConfig.maxOutput).toFixed(2)}°`}
+                            />
+                            <div className="flex flex-wrap gap-1 mt-2">
+                                {state.buttons.map((pressed, i) => (
+                                    <span
+                                        key={i}
+                                        className={classNames(
+                                            "w-8 py-1 text-center text-xs font-mono rounded",
+                                            pressed
+                                                ? "bg-blue-500 text-white"
+                                                : "bg-gray-800",
+                                        )}
+                                    >
+                                        {i}
+                                    </span>
+                                ))}
+                            </div>
+                        </>
+                    ) : (
+                        <p className="text-sm text-gray-400">
+                            Waiting for a gamepad...
+                        </p>
+                    )}
+                </section>
+            </div>
+        </ContentBlock>
+    );
+}
@@ -1,14 +1,30 @@
+import ArmSwitch from "../elements/ArmSwitch";
+import CameraCapture from "../elements/CameraCapture";
 import CameraStream from "../elements/CameraStream";
 import ContentBlock from "../elements/ContentBlock";
+import FlightModeToggle from "../elements/FlightModeToggle";
+import FlightRecorder from "../elements/FlightRecorder";
+import GamepadControl from "../elements/GamepadControl";
+import KeyboardControl from "../elements/KeyboardControl";
 import Joystick from "../elements/Joystick";
+import StatusPanel from "../elements/StatusPanel";
 import Viewer3D from "../elements/Viewer3D";
 
 export default function Dashboard() {
     return (
         <ContentBlock title="Dashboard">
             <CameraStream />
+            <CameraCapture />
             <Viewer3D />
+            <StatusPanel />
+            <div className="flex flex-wrap items-center gap-2 m-4">
+                <ArmSwitch />
+                <FlightModeToggle />
+            </div>
             <Joystick />
+            <GamepadControl />
+            <KeyboardControl />
+            <FlightRecorder />
         </ContentBlock>
     );
 }
@@ -0,0 +1,256 @@
+import { useEffect, useRef, useState } from "preact/hooks";
+
+import ContentBlock from "../elements/ContentBlock";
+import MessageComposer from "../elements/MessageComposer";
+
+import classNames from "../helpers/classNames";
+import { useDrone } from "../helpers/hooks";
+import { Direction } from "../helpers/socket";
+import { TrafficEntry } from "../helpers/traffic";
+
+const MAX_SHOWN = 200; // Entries shown at once, the newest matching ones
+
+/**
+ * @param time ms since the epoch
+ * @returns the time formatted as hh:mm:ss.mmm
+ */
+function formatTime(time: number): string {
+    const date = new Date(time);
+    const ms = String(date.getMilliseconds()).padStart(3, "0");
+    return `${date.toLocaleTimeString([], { hour12: false })}.${ms}`;
+}
+
+/**
+ * @param bytes size in bytes
+ * @returns the size in B or kB
+ */
+function formatSize(bytes: number): string {
+    return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} kB`;
+}
+
+/**
+ * @param entry entry to check
+ * @param event event to show, or empty for all
+ * @param direction direction to show, or empty for both
+ * @param search text to look for in the event name and payload, case-insensitive
+ * @returns whether the entry matches the filters
+ */
+function matches(
+    entry: TrafficEntry,
+    event: string,
+    direction: Direction | "",
+    search: string,
+): boolean {
+    if (
+        (event && entry.event !== event) ||
+        (direction && entry.direction !== direction)
+    ) {
+        return false;
+    }
+    if (!search) {
+        return true;
+    }
+    const needle = search.toLowerCase();
+    return (
+        entry.event.toLowerCase().includes(needle) ||
+        JSON.stringify(entry.data).toLowerCase().includes(needle)
+    );
+}
+
+export default function Debug() {
+    const { traffic } = useDrone();
+    const [, setRevision] = useState(0); // Bumped to re-render when the log changes
+    const [event, setEvent] = useState("");
+    const [direction, setDirection] = useState<Direction | "">("");
+    const [search, setSearch] = useState("");
+    const [expanded, setExpanded] = useState<Set<number>>(new Set());
+    const frame = useRef<number | null>(null);
+
+    useEffect(() => {
+        // Messages can arrive much faster than the screen refreshes, re-render at most once per frame
+        const onChange = () => {
+            if (frame.current === null) {
+                frame.current = requestAnimationFrame(() => {
+                    frame.current = null;
+                    setRevision(r => r + 1);
+                });
+            }
+        };
+        traffic.subscribe(onChange);
+        return () => {
+            traffic.unsubscribe(onChange);
+            if (frame.current !== null) {
+                cancelAnimationFrame(frame.current);
+                frame.current = null;
+            }
+        };
+    }, [traffic]);
+
+    const toggle = (id: number) => {
+        const next = new Set(expanded);
+        if (!next.delete(id)) {
+            next.add(id);
+        }
+        setExpanded(next);
+    };
+
+    const events = [...new Set(traffic.entries.map(e => e.event))].sort();
+    const shown = traffic.entries
+        .filter(e => matches(e, event, direction, search))
+        .slice(-MAX_SHOWN)
+        .reverse();
+    const buttonClass = "px-2 py-1 bg-gray-800 rounded text-sm";
+    const headingClass = "text-lg font-semibold text-white";
+
+    return (
+        <ContentBlock title="Debug">
+            <div className="flex flex-col gap-6 m-4 text-gray-300">
+                <section className="flex flex-col gap-3">
+                    <h2 className={headingClass}>Traffic</h2>
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <button
+                            onClick={() => traffic.setPaused(!traffic.paused)}
+                            className={buttonClass}
+                        >
+                            {traffic.paused ? "Resume" : "Pause"}
+                        </button>
+                        <button
+                            onClick={() => {
+                                traffic.clear();
+                                setExpanded(new Set());
+                            }}
+                            className={buttonClass}
+                        >
+                            Clear
+                        </button>
+                        <select
+                            value={event}
+                            onChange={e => setEvent(e.currentTarget.value)}
+                            className="p-1 bg-gray-800 rounded"
+                        >
+                            <option value="">All events</option>
+                            {events.map(name => (
+                                <option key={name} value={name}>
+                                    {name}
+                                </option>
+                            ))}
+                        </select>
+                        <select
+                            value={direction}
+                            onChange={e =>
+                                setDirection(
+                                    e.currentTarget.value as Direction | "",
+                                )
+                            }
+                            className="p-1 bg-gray-800 rounded"
+                        >
+                            <option value="">Both directions</option>
+                            <option value="in">Received</option>
+                            <option value="out">Sent</option>
+                        </select>
+                        <input
+                            type="search"
+                            value={search}
+                            onInput={e => setSearch(e.currentTarget.value)}
+                            placeholder="Search"
+                            className="p-1 bg-gray-800 rounded"
+                        />
+                        <span className="text-gray-400">
+                            {shown.length} of {traffic.entries.length}
+                            {traffic.paused && " (paused)"}
+                        </span>
+                    </div>
+                    <p className="text-sm text-gray-400">
+                        Messages are only logged while this page is open. Click
+                        a message to see its payload, long values (such as
+                        camera frames) are summarised.
+                    </p>
+                    <table className="font-mono text-xs text-left">
+                        <thead>
+                            <tr>
+                                <th className="pr-4">Time</th>
+                                <th className="pr-4">Dir</th>
+                                <th className="pr-4">Event</th>
+                                <th className="pr-4">Size</th>
+                                <th className="pr-4">Payload</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {shown.map(entry => {
+                                const open = expanded.has(entry.id);
+                                return (
+                                    <tr
+                                        key={entry.id}
+                                        onClick={() => toggle(entry.id)}
+                                        className="align-top cursor-pointer hover:bg-gray-800"
+                                    >
+                                        <td className="pr-4 whitespace-nowrap">
+                                            {formatTime(entry.time)}
+                                        </td>
+                                        <td
+                                            className={classNames(
+                                                "pr-4",
+                                                entry.direction === "in"
+                                                    ? "text-green-400"
+                                                    : "text-sky-400",
+                                            )}
+                                        >
+                                            {entry.direction}
+                                        </td>
+                                        <td className="pr-4">
+                                            {entry.event}
+                                            {entry.binary && (
+                                                <span className="ml-1 text-gray-500">
+                                                    (binary)
+                                                </span>
+                                            )}
+                                            {entry.error && (
+                                                <span
+                                                    className="ml-1 text-red-400"
+                                                    title={entry.error}
+                                                >
+                                                    (invalid)
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="pr-4 whitespace-nowrap">
+                                            {formatSize(entry.size)}
+                                        </td>
+                                        <td className="pr-4 break-all">
+                                            {open ? (
+                                                <pre className="whitespace-pre-wrap">
+                                                    {JSON.stringify(
+                                                        entry.data,
+                                                        null,
+                                                        2,
+                                                    )}
+                                                    {entry.error &&
+                                                        `\n${entry.error}`}
+                                                </pre>
+                                            ) : (
+                                                <span className="text-gray-400">
+                                                    {JSON.stringify(
+                                                        entry.data,
+                                                    ).slice(0, 80)}
+                                                </span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </section>
+                <section className="flex flex-col gap-3 max-w-2xl">
+                    <h2 className={headingClass}>Composer</h2>
+                    <p className="text-sm text-gray-400">
+                        Send a hand-crafted message to the drone, or inject it
+                        into this app as if the drone had sent it. Values are
+                        sent as strings, like every value on the wire.
+                    </p>
+                    <MessageComposer />
+                </section>
+            </div>
+        </ContentBlock>
+    );
+}
@@ -1,31 +1,27 @@
-import { useEffect, useState } from "preact/hooks";
 import { Redirect } from "wouter-preact";
 
+import LoginForm from "../elements/LoginForm";
 import Spinner from "../elements/Spinner";
 
-import { socket } from "../helpers/socket";
+import { useAuth, useSocketState } from "../helpers/hooks";
 
 export default function Index() {
-    const [loading, setLoading] = useState(true);
-
-    // Continuously check if the socket is open
-    const checkSocketOpen = () => {
-        if (socket.isOpen) {
-            setLoading(false);
-        } else {
-            setTimeout(checkSocketOpen, 500);
-        }
-    };
-
-    useEffect(() => {
-        // Wait until socket successfully opens (the opening process is started in main.tsx)
-        // If successful, we will redirect to dashboard
-        checkSocketOpen();
-    }, []);
+    // Ask for the passphrase first if there is no session (or it ended)
+    // Otherwise, wait until socket successfully opens (the opening process is started in main.tsx)
+    // If successful, we will redirect to dashboard
+    const { token, error } = useAuth();
+    const state = useSocketState();
 
+    if (!token) {
+        return (
+            <div className="flex w-full h-full items-center justify-center p-4">
+                <LoginForm error={error} />
+            </div>
+        );
+    }
     return (
         <div className="w-full h-full items-center justify-center">
-            {loading ? <Spinner /> : <Redirect to="/dashboard" />}
+            {state !== "open" ? <Spinner /> : <Redirect to="/dashboard" />}
         </div>
     );
 }
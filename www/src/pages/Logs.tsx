@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from "preact/hooks";
+
+import ContentBlock from "../elements/ContentBlock";
+
+import classNames from "../helpers/classNames";
+import { LOG_LEVELS, LogLevel } from "../helpers/events";
+import { useDrone, useFileDownload, useSocketState } from "../helpers/hooks";
+import { atLeast } from "../helpers/logs";
+
+// Color of the messages of each level
+const LEVEL_COLORS: { [L in LogLevel]: string } = {
+    error: "text-red-400",
+    warning: "text-yellow-500",
+    info: "text-gray-300",
+    debug: "text-gray-500",
+};
+
+export default function Logs() {
+    const { log } = useDrone();
+    const [, setRevision] = useState(0); // Bumped to re-render when messages come in
+    const [level, setLevel] = useState<LogLevel>("info");
+    const [scope, setScope] = useState(""); // Scope to show, empty for all
+    const [autoScroll, setAutoScroll] = useState(true);
+    const list = useRef<HTMLDivElement>(null);
+    const connection = useSocketState();
+
+    useEffect(() => {
+        const onChange = () => setRevision(r => r + 1);
+        log.subscribe(onChange);
+        return () => log.unsubscribe(onChange);
+    }, [log]);
+
+    // Keep the newest message in view
+    useEffect(() => {
+        if (autoScroll && list.current) {
+            list.current.scrollTop = list.current.scrollHeight;
+        }
+    });
+
+    const { downloadFile } = useFileDownload({
+        filename: "nwdrone.log",
+        filetype: "text/plain",
+    });
+
+    const scopes = [...new Set(log.messages.map(m => m.scope))].sort();
+    const shown = log.messages.filter(
+        m => atLeast(m.level, level) && (!scope || m.scope === scope),
+    );
+    const buttonClass = "px-2 py-1 bg-gray-800 rounded text-sm";
+
+    return (
+        <ContentBlock title="Logs">
+            <div className="flex flex-col gap-3 m-4 text-gray-300">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <select
+                        value={level}
+                        onChange={e =>
+                            setLevel(e.currentTarget.value as LogLevel)
+                        }
+                        className="p-1 bg-gray-800 rounded"
+                    >
+                        {LOG_LEVELS.map(l => (
+                            <option key={l} value={l}>
+                                {l === "error" ? "Errors only" : `${l} and up`}
+                            </option>
+                        ))}
+                    </select>
+                    <select
+                        value={scope}
+                        onChange={e => setScope(e.currentTarget.value)}
+                        className="p-1 bg-gray-800 rounded"
+                    >
+                        <option value="">All scopes</option>
+                        {scopes.map(s => (
+                            <option key={s} value={s}>
+                                {s}
+                            </option>
+                        ))}
+                    </select>
+                    <label className="flex items-center gap-1">
+                        <input
+                            type="checkbox"
+                            checked={autoScroll}
+                            onChange={e =>
+                                setAutoScroll(e.currentTarget.checked)
+                            }
+                        />
+                        Auto-scroll
+                    </label>
+                    <button
+                        onClick={() =>
+                            downloadFile(
+                                log.export(shown),
+                                `nwdrone-${new Date().toISOString().replace(/[:.]/g, "-")}.log`,
+                            )
+                        }
+                        disabled={shown.length === 0}
+                        className={`${buttonClass} disabled:opacity-50`}
+                    >
+                        Export
+                    </button>
+                    <button onClick={() => log.clear()} className={buttonClass}>
+                        Clear
+                    </button>
+                    <span className="text-gray-400">
+                        {shown.length} of {log.messages.length}
+                    </span>
+                </div>
+                <div
+                    ref={list}
+                    onWheel={e => e.deltaY < 0 && setAutoScroll(false)}
+                    className="h-[70vh] overflow-y-auto p-2 bg-gray-900 rounded font-mono text-xs"
+                >
+                    {shown.length === 0 && (
+                        <p className="text-gray-500">
+                            {connection === "open"
+                                ? "No messages yet."
+                                : "Not connected to the drone."}
+                        </p>
+                    )}
+                    {shown.map((m, i) => (
+                        <div
+                            key={i}
+                            className={classNames(
+                                "whitespace-pre-wrap break-words",
+                                LEVEL_COLORS[m.level],
+                            )}
+                        >
+                            <span className="text-gray-500">
+                                {new Date(m.ts).toLocaleTimeString([], {
+                                    hour12: false,
+                                })}
+                            </span>{" "}
+                            {m.level}({m.scope}): {m.message}
+                        </div>
+                    ))}
+                </div>
+                <p className="text-sm text-gray-400">
+                    Messages logged by the drone since the app was opened.
+                    Warnings and errors also pop up on every page.
+                </p>
+            </div>
+        </ContentBlock>
+    );
+}
@@ -0,0 +1,445 @@
+import preact from "preact";
+import { useEffect, useState } from "preact/hooks";
+import { Link } from "wouter-preact";
+
+import Alert from "../elements/Alert";
+import ContentBlock from "../elements/ContentBlock";
+
+import {
+    useAuth,
+    useDrone,
+    useFileDownload,
+    useFileUpload,
+    useSettings,
+} from "../helpers/hooks";
+import type { StickAxis } from "../helpers/joystick";
+import { settings } from "../helpers/settings";
+
+// Touch stick axes, in the order they are listed.
+const STICK_AXES: { axis: StickAxis; label: string }[] = [
+    { axis: "roll", label: "Roll" },
+    { axis: "pitch", label: "Pitch" },
+    { axis: "climb", label: "Climb (Mode 2)" },
+    { axis: "yaw", label: "Yaw (Mode 2)" },
+];
+
+interface SliderProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+    onChange: (value: number) => void;
+}
+
+// Labelled range input showing its value.
+const Slider: preact.FunctionComponent<SliderProps> = ({
+    label,
+    value,
+    min,
+    max,
+    step,
+    unit,
+    onChange,
+}) => (
+    <label className="flex items-center gap-2 text-sm">
+        <span className="w-32 shrink-0">{label}</span>
+        <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onInput={e => onChange(Number(e.currentTarget.value))}
+            className="flex-1"
+        />
+        <span className="w-16 text-right font-mono">
+            {value}
+            {unit}
+        </span>
+    </label>
+);
+
+export default function Settings() {
+    const { auth } = useDrone();
+    const current = useSettings();
+    const { connection, camera, joystick, control, capture } = current;
+    const { token } = useAuth();
+    const [url, setUrl] = useState(connection.url); // URL being edited, applied on submit
+    const [message, setMessage] = useState<{
+        type: "success" | "danger";
+        text: string;
+    } | null>(null);
+
+    // Follow changes made elsewhere (e.g. an import or reset)
+    useEffect(() => setUrl(connection.url), [connection.url]);
+
+    const { downloadFile } = useFileDownload({
+        filename: "nwdrone-settings.json",
+        filetype: "application/json",
+    });
+    const { openFilePicker } = useFileUpload({
+        accept: ".json,application/json",
+        onFileChange: file => {
+            file.text()
+                .then(text => {
+                    settings.import(text);
+                    setMessage({ type: "success", text: "Settings imported" });
+                })
+                .catch((err: Error) =>
+                    setMessage({
+                        type: "danger",
+                        text: `Failed to import settings: ${err.message}`,
+                    }),
+                );
+        },
+    });
+
+    const reset = () => {
+        if (window.confirm("Reset all settings to their defaults?")) {
+            settings.reset();
+            setMessage({ type: "success", text: "Settings reset" });
+        }
+    };
+
+    const buttonClass = "px-2 py-1 bg-gray-800 rounded text-sm";
+    const headingClass = "text-lg font-semibold text-white";
+
+    return (
+        <ContentBlock title="Settings">
+            <div className="flex flex-col gap-6 m-4 text-gray-300 max-w-2xl">
+                <section className="flex flex-col gap-3">
+                    <h2 className={headingClass}>Connection</h2>
+                    <form
+                        className="flex items-center gap-2 text-sm"
+                        onSubmit={e => {
+                            e.preventDefault();
+                            settings.update("connection", { url: url.trim() });
+                        }}
+                    >
+                        <span className="w-32 shrink-0">Server URL</span>
+                        <input
+                            type="text"
+                            value={url}
+                            onInput={e => setUrl(e.currentTarget.value)}
+                            placeholder="Same server as this page"
+                            className="flex-1 p-1 bg-gray-800 rounded font-mono"
+                        />
+                        <button
+                            type="submit"
+                            className={buttonClass}
+                            disabled={url.trim() === connection.url}
+                        >
+                            Connect
+                        </button>
+                    </form>
+                    <p className="text-sm text-gray-400">
+                        Websocket URL of the drone, for example
+                        ws://nwdrone.local/ws. Leave empty to connect to the
+                        server this page was loaded from. Logins always go to
+                        that server, so another one only accepts the connection
+                        if it shares its sessions.
+                    </p>
+                    <label className="flex items-center gap-2 text-sm">
+                        <span className="w-32 shrink-0">Your name</span>
+                        <input
+                            type="text"
+                            value={connection.name}
+                            maxLength={32}
+                            onChange={e =>
+                                settings.update("connection", {
+                                    name: e.currentTarget.value.trim(),
+                                })
+                            }
+                            placeholder="Anonymous"
+                            className="flex-1 p-1 bg-gray-800 rounded"
+                        />
+                    </label>
+                    <p className="text-sm text-gray-400">
+                        Shown to the other clients when you ask for or hold
+                        control of the drone.
+                    </p>
+                    {token && (
+                        <div className="flex items-center gap-2 text-sm">
+                            <button
+                                onClick={() => auth.logout()}
+                                className={buttonClass}
+                            >
+                                Log out
+                            </button>
+                            <span className="text-gray-400">
+                                End your session, the passphrase is asked again
+                                to reconnect.
+                            </span>
+                        </div>
+                    )}
+                </section>
+                <section className="flex flex-col gap-3">
+                    <h2 className={headingClass}>Camera</h2>
+                    <label className="flex items-center gap-2 text-sm">
+                        <span className="w-32 shrink-0">Frame format</span>
+                        <select
+                            value={camera.displayMode}
+                            onChange={e =>
+                                settings.update("camera", {
+                                    displayMode: e.currentTarget
+                                        .value as typeof camera.displayMode,
+                                })
+                            }
+                            className="p-1 bg-gray-800 rounded"
+                        >
+                            <option value="bayer">Bayer (raw)</option>
+                            <option value="rgb">RGB</option>
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        <span className="w-32 shrink-0">Demosaicing</span>
+                        <select
+                            value={camera.quality}
+                            onChange={e =>
+                                settings.update("camera", {
+                                    quality: e.currentTarget
+                                        .value as typeof camera.quality,
+                                })
+                            }
+                            className="p-1 bg-gray-800 rounded"
+                        >
+                            <option value="bilinear">Bilinear (smooth)</option>
+                            <option value="nearest">Nearest (fast)</option>
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={camera.displayFps}
+                            onChange={e =>
+                                settings.update("camera", {
+                                    displayFps: e.currentTarget.checked,
+                                })
+                            }
+                        />
+                        Show frame rate
+                    </label>
+                    <p className="text-sm text-gray-400">
+                        The block overlay and HUD elements are toggled under the
+                        camera feed on the dashboard.
+                    </p>
+                </section>
+                <section className="flex flex-col gap-3">
+                    <h2 className={headingClass}>Flight</h2>
+                    <Slider
+                        label="Max angle"
+                        value={control.maxOutput}
+                        min={1}
+                        max={15}
+                        step={0.5}
+                        unit="°"
+                        onChange={maxOutput =>
+                            settings.update("control", { maxOutput })
+                        }
+                    />
+                    <Slider
+                        label="Max climb rate"
+                        value={control.maxClimb}
+                        min={5}
+                        max={50}
+                        step={5}
+                        unit="cm/s"
+                        onChange={maxClimb =>
+                            settings.update("control", { maxClimb })
+                        }
+                    />
+                    <Slider
+                        label="Max yaw rate"
+                        value={control.maxYawRate}
+                        min={10}
+                        max={90}
+                        step={5}
+                        unit="°/s"
+                        onChange={maxYawRate =>
+                            settings.update("control", { maxYawRate })
+                        }
+                    />
+                    <Slider
+                        label="Joystick range"
+                        value={joystick.maxDistance}
+                        min={20}
+                        max={100}
+                        step={5}
+                        unit="px"
+                        onChange={maxDistance =>
+                            settings.update("joystick", { maxDistance })
+                        }
+                    />
+                    <p className="text-sm text-gray-400">
+                        Max angle is the roll/pitch commanded by a full
+                        deflection of any input, and the max rates how fast it
+                        climbs (or descends) and turns; joystick range is how
+                        far the touch joystick is dragged for one. Gamepad and
+                        keyboard settings are on the{" "}
+                        <Link
+                            to="/controls"
+                            className="text-blue-600 hover:text-sky-500 hover:underline"
+                        >
+                            controls page
+                        </Link>
+                        .
+                    </p>
+                </section>
+                <section className="flex flex-col gap-3">
+                    <h2 className={headingClass}>Touch sticks</h2>
+                    <label className="flex items-center gap-2 text-sm">
+                        <span className="w-32 shrink-0">Layout</span>
+                        <select
+                            value={joystick.layout}
+                            onChange={e =>
+                                settings.update("joystick", {
+                                    layout: e.currentTarget
+                                        .value as typeof joystick.layout,
+                                })
+                            }
+                            className="p-1 bg-gray-800 rounded"
+                        >
+                            <option value="single">Single (roll/pitch)</option>
+                            <option value="mode2">Mode 2 (two sticks)</option>
+                        </select>
+                    </label>
+                    {STICK_AXES.map(({ axis, label }) => (
+                        <div key={axis} className="flex items-center gap-4">
+                            <div className="flex-1">
+                                <Slider
+                                    label={label}
+                                    value={Math.round(
+                                        joystick.axes[axis].scale * 100,
+                                    )}
+                                    min={10}
+                                    max={100}
+                                    step={5}
+                                    unit="%"
+                                    onChange={scale =>
+                                        settings.update("joystick", {
+                                            axes: {
+                                                ...joystick.axes,
+                                                [axis]: {
+                                                    ...joystick.axes[axis],
+                                                    scale: scale / 100,
+                                                },
+                                            },
+                                        })
+                                    }
+                                />
+                            </div>
+                            <label className="flex items-center gap-2 text-sm">
+                                <input
+                                    type="checkbox"
+                                    checked={joystick.axes[axis].centering}
+                                    onChange={e =>
+                                        settings.update("joystick", {
+                                            axes: {
+                                                ...joystick.axes,
+                                                [axis]: {
+                                                    ...joystick.axes[axis],
+                                                    centering:
+                                                        e.currentTarget.checked,
+                                                },
+                                            },
+                                        })
+                                    }
+                                />
+                                Centering
+                            </label>
+                        </div>
+                    ))}
+                    <p className="text-sm text-gray-400">
+                        Mode 2 adds a stick on the left to climb/descend
+                        (vertical) and turn (horizontal), the right one keeps
+                        roll/pitch. Each axis is scaled down from the max
+                        outputs above; axes without centering stay where they
+                        are let go, e.g. to hold a climb rate.
+                    </p>
+                </section>
+                <section className="flex flex-col gap-3">
+                    <h2 className={headingClass}>Captures</h2>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={capture.overlay}
+                            onChange={e =>
+                                settings.update("capture", {
+                                    overlay: e.currentTarget.checked,
+                                })
+                            }
+                        />
+                        Burn the block overlay into snapshots and videos
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={capture.watermark}
+                            onChange={e =>
+                                settings.update("capture", {
+                                    watermark: e.currentTarget.checked,
+                                })
+                            }
+                        />
+                        Burn a timestamp and attitude watermark into snapshots
+                        and videos
+                    </label>
+                </section>
+                <section className="flex flex-col gap-3">
+                    <h2 className={headingClass}>App</h2>
+                    {window.isSecureContext ? (
+                        <p className="text-sm text-gray-400">
+                            The app can be installed from the browser menu, and
+                            loads without a connection once it has been opened.
+                        </p>
+                    ) : (
+                        <Alert type="warning">
+                            Installing the app, using it offline and keeping the
+                            screen awake in flight mode need HTTPS, and the
+                            drone only serves plain HTTP. The app works while
+                            connected, and flight mode still goes fullscreen.
+                        </Alert>
+                    )}
+                </section>
+                <section className="flex flex-col gap-3">
+                    <h2 className={headingClass}>Backup</h2>
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={() => downloadFile(settings.export())}
+                            className={buttonClass}
+                        >
+                            Export
+                        </button>
+                        <button
+                            onClick={openFilePicker}
+                            className={buttonClass}
+                        >
+                            Import
+                        </button>
+                        <button
+                            onClick={reset}
+                            className={`${buttonClass} text-red-400`}
+                        >
+                            Reset to defaults
+                        </button>
+                    </div>
+                    <p className="text-sm text-gray-400">
+                        Settings are stored in this browser (version{" "}
+                        {current.version}). Exported settings can be imported on
+                        another device, or by a later version of the app.
+                    </p>
+                    {message && (
+                        <Alert
+                            type={message.type}
+                            onClose={() => setMessage(null)}
+                        >
+                            {message.text}
+                        </Alert>
+                    )}
+                </section>
+            </div>
+        </ContentBlock>
+    );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useState } from "preact/hooks";
+
+import ContentBlock from "../elements/ContentBlock";
+import TimeSeriesChart, {
+    CURSOR_COLORS,
+    ChartSeries,
+} from "../elements/TimeSeriesChart";
+
+import classNames from "../helpers/classNames";
+import { decodeLegacy } from "../helpers/events";
+import { useSocket } from "../helpers/hooks";
+import { Direction, EventData, SocketData } from "../helpers/socket";
+import { TimeSeries } from "../helpers/timeseries";
+
+const WINDOWS = [10, 30, 60, 120, 300]; // Available time windows, in s
+const CAPACITY = 20000; // Samples kept per series, enough for the largest window at a high move rate
+
+// Series plotted on the page, measured attitude comes from `orient` and commanded attitude from sent `move`s
+const SERIES = [
+    { key: "roll", name: "Roll", color: "#f87171" },
+    { key: "pitch", name: "Pitch", color: "#4ade80" },
+    { key: "yaw", name: "Yaw", color: "#60a5fa" },
+    { key: "rollCmd", name: "Roll (cmd)", color: "#fca5a5", step: true },
+    { key: "pitchCmd", name: "Pitch (cmd)", color: "#bbf7d0", step: true },
+] as const;
+
+type SeriesKey = (typeof SERIES)[number]["key"];
+
+export default function Telemetry() {
+    const socket = useSocket();
+    const data = useMemo(
+        () =>
+            Object.fromEntries(
+                SERIES.map(s => [s.key, new TimeSeries(CAPACITY)]),
+            ) as Record<SeriesKey, TimeSeries>,
+        [],
+    );
+    const [visible, setVisible] = useState<Record<SeriesKey, boolean>>({
+        roll: true,
+        pitch: true,
+        yaw: true,
+        rollCmd: true,
+        pitchCmd: true,
+    });
+    const [timeWindow, setTimeWindow] = useState(30);
+    const [frozenAt, setFrozenAt] = useState<number | null>(null);
+    const [cursors, setCursors] = useState<number[]>([]);
+
+    useEffect(() => {
+        const onOrient = (event: EventData<"orient">) => {
+            const now = performance.now() / 1000;
+            data.roll.push(now, event.data.roll);
+            data.pitch.push(now, event.data.pitch);
+            data.yaw.push(now, event.data.yaw);
+        };
+        const onData = (direction: Direction, raw: SocketData) => {
+            if (direction !== "out" || raw.event !== "move") {
+                return;
+            }
+            const move = decodeLegacy("move", raw.data);
+            if (!move) {
+                return; // e.g. replayed from a recording made before `move` had all its fields
+            }
+            const now = performance.now() / 1000;
+            data.rollCmd.push(now, move.roll);
+            data.pitchCmd.push(now, move.pitch);
+        };
+        socket.subscribe("orient", onOrient);
+        socket.tap(onData);
+        return () => {
+            socket.unsubscribe("orient", onOrient);
+            socket.untap(onData);
+        };
+    }, [socket, data]);
+
+    const series: ChartSeries[] = SERIES.map(s => ({
+        name: s.name,
+        color: s.color,
+        data: data[s.key],
+        visible: visible[s.key],
+        step: "step" in s,
+    }));
+
+    const toggleFreeze = () => {
+        if (frozenAt === null) {
+            setFrozenAt(performance.now() / 1000);
+        } else {
+            setFrozenAt(null);
+            setCursors([]);
+        }
+    };
+
+    // Clicking places up to two cursors, a third click starts over
+    const placeCursor = (time: number) => {
+        if (frozenAt === null) {
+            setFrozenAt(performance.now() / 1000);
+        }
+        setCursors(c => (c.length >= 2 ? [time] : [...c, time]));
+    };
+
+    /**
+     * @param s series to read
+     * @param time time to read at, in s
+     * @returns the value of the series at `time`, formatted
+     */
+    const valueAt = (s: TimeSeries, time: number) => {
+        const i = s.indexAt(time);
+        return i < 0 ? "-" : s.valueAt(i).toFixed(2);
+    };
+
+    const buttonClass = "p-2 rounded text-white text-sm";
+
+    return (
+        <ContentBlock title="Telemetry" ignoreSwipe>
+            <div className="flex flex-col gap-4 m-4 text-gray-300">
+                <div className="flex flex-wrap items-center gap-2">
+                    <select
+                        value={timeWindow}
+                        onChange={e =>
+                            setTimeWindow(Number(e.currentTarget.value))
+                        }
+                        className="p-2 bg-gray-800 rounded text-sm"
+                        title="Time window"
+                    >
+                        {WINDOWS.map(w => (
+                            <option key={w} value={w}>
+                                {w}s
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={toggleFreeze}
+                        className={classNames(
+                            buttonClass,
+                            frozenAt === null ? "bg-gray-800" : "bg-blue-600",
+                        )}
+                    >
+                        {frozenAt === null ? "Freeze" : "Resume"}
+                    </button>
+                    <button
+                        onClick={() => setCursors([])}
+                        disabled={cursors.length === 0}
+                        className={classNames(
+                            buttonClass,
+                            "bg-gray-800 disabled:opacity-50",
+                        )}
+                    >
+                        Clear cursors
+                    </button>
+                    {SERIES.map(s => (
+                        <label
+                            key={s.key}
+                            className="flex items-center gap-x-1 text-sm"
+                        >
+                            <input
+                                type="checkbox"
+                                checked={visible[s.key]}
+                                onChange={e =>
+                                    setVisible({
+                                        ...visible,
+                                        [s.key]: e.currentTarget.checked,
+                                    })
+                                }
+                            />
+                            <span style={{ color: s.color }}>{s.name}</span>
+                        </label>
+                    ))}
+                </div>
+                <TimeSeriesChart
+                    series={series}
+                    timeWindow={timeWindow}
+                    frozenAt={frozenAt}
+                    cursors={cursors}
+                    onClick={placeCursor}
+                />
+                {cursors.length > 0 && (
+                    <table className="text-sm font-mono">
+                        <thead>
+                            <tr className="text-left">
+                                <th className="pr-4">Cursor</th>
+                                <th className="pr-4">Time</th>
+                                {SERIES.filter(s => visible[s.key]).map(s => (
+                                    <th
+                                        key={s.key}
+                                        className="pr-4"
+                                        style={{ color: s.color }}
+                                    >
+                                        {s.name}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {cursors.map((t, i) => (
+                                <tr key={i}>
+                                    <td
+                                        className="pr-4"
+                                        style={{ color: CURSOR_COLORS[i] }}
+                                    >
+                                        {String.fromCharCode(65 + i)}
+                                    </td>
+                                    <td className="pr-4">
+                                        {(t - (frozenAt ?? t)).toFixed(2)}s
+                                    </td>
+                                    {SERIES.filter(s => visible[s.key]).map(
+                                        s => (
+                                            <td key={s.key} className="pr-4">
+                                                {valueAt(data[s.key], t)}
+                                            </td>
+                                        ),
+                                    )}
+                                </tr>
+                            ))}
+                            {cursors.length === 2 && (
+                                <tr className="text-gray-500">
+                                    <td className="pr-4">Δ</td>
+                                    <td className="pr-4">
+                                        {(cursors[1] - cursors[0]).toFixed(2)}s
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </ContentBlock>
+    );
+}
@@ -0,0 +1,322 @@
+import preact from "preact";
+import { useEffect, useState } from "preact/hooks";
+
+import Alert from "../elements/Alert";
+import ContentBlock from "../elements/ContentBlock";
+
+import classNames from "../helpers/classNames";
+import {
+    useDrone,
+    useFileDownload,
+    useFileUpload,
+    useSocketState,
+} from "../helpers/hooks";
+import {
+    CONTROLLERS,
+    PARAMS,
+    PidParams,
+    parseProfile,
+    paramsEqual,
+} from "../helpers/tuning";
+
+// Values being edited, as typed
+type Draft = Record<keyof PidParams, string>;
+
+/**
+ * @param params parameters to edit
+ * @returns a draft of the parameters
+ */
+function toDraft(params: PidParams): Draft {
+    return Object.fromEntries(
+        PARAMS.map(({ key }) => [key, String(params[key])]),
+    ) as Draft;
+}
+
+/**
+ * @param draft draft to parse
+ * @returns the parameters of the draft, or null if any of them isn't a number
+ */
+function fromDraft(draft: Draft): PidParams | null {
+    const params = {} as PidParams;
+    for (const { key } of PARAMS) {
+        const value = Number(draft[key]);
+        if (draft[key].trim() === "" || !Number.isFinite(value)) {
+            return null;
+        }
+        params[key] = value;
+    }
+    return params;
+}
+
+interface ControllerCardProps {
+    name: string;
+    params: PidParams;
+    defaults?: PidParams;
+}
+
+// Editor for the parameters of a single controller.
+const ControllerCard: preact.FunctionComponent<ControllerCardProps> = ({
+    name,
+    params,
+    defaults,
+}) => {
+    const { tuner } = useDrone();
+    const [draft, setDraft] = useState<Draft>(() => toDraft(params));
+
+    // Reported parameters replace the draft, e.g. once an edit has been applied
+    useEffect(() => setDraft(toDraft(params)), [params]);
+
+    const parsed = fromDraft(draft);
+    const edited = parsed === null || !paramsEqual(parsed, params);
+    const valid =
+        parsed !== null && parsed.tau > 0 && parsed.lim_min <= parsed.lim_max;
+
+    const buttonClass =
+        "px-2 py-1 bg-gray-800 rounded text-sm disabled:opacity-50";
+
+    return (
+        <div className="flex flex-col gap-2 p-3 bg-gray-900 rounded">
+            <h3 className="font-semibold text-white">
+                {CONTROLLERS[name] ?? name}
+            </h3>
+            <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+                {PARAMS.map(({ key, label }) => {
+                    const changed = parsed?.[key] !== params[key];
+                    const tuned = defaults && params[key] !== defaults[key];
+                    return (
+                        <label key={key} className="flex flex-col text-xs">
+                            {label}
+                            <input
+                                type="text"
+                                inputMode="decimal"
+                                value={draft[key]}
+                                onInput={e =>
+                                    setDraft({
+                                        ...draft,
+                                        [key]: e.currentTarget.value,
+                                    })
+                                }
+                                className={classNames(
+                                    "p-1 bg-gray-800 rounded font-mono text-sm",
+                                    changed ? "ring-1 ring-amber-400" : "",
+                                )}
+                            />
+                            <span
+                                className={classNames(
+                                    "font-mono",
+                                    tuned ? "text-sky-400" : "text-gray-500",
+                                )}
+                                title="Compiled-in default"
+                            >
+                                {defaults ? `def ${defaults[key]}` : " "}
+                            </span>
+                        </label>
+                    );
+                })}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+                <button
+                    onClick={() => parsed && tuner.set(name, parsed)}
+                    disabled={!edited || !valid}
+                    className={buttonClass}
+                >
+                    Apply
+                </button>
+                <button
+                    onClick={() => setDraft(toDraft(params))}
+                    disabled={!edited}
+                    className={buttonClass}
+                >
+                    Revert
+                </button>
+                <button
+                    onClick={() => defaults && tuner.set(name, defaults)}
+                    disabled={!defaults || paramsEqual(params, defaults)}
+                    className={buttonClass}
+                >
+                    Restore defaults
+                </button>
+                {edited && !valid && (
+                    <span className="text-xs text-red-400">
+                        Parameters must be numbers, with tau above 0 and min at
+                        most max
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default function Tuning() {
+    const { tuner } = useDrone();
+    const [, setRevision] = useState(0); // Bumped to re-render when the parameters change
+    const [profileName, setProfileName] = useState("default");
+    const [message, setMessage] = useState<{
+        type: "success" | "warning" | "danger";
+        text: string;
+    } | null>(null);
+    const connection = useSocketState();
+
+    useEffect(() => {
+        const onChange = () => setRevision(r => r + 1);
+        tuner.subscribe(onChange);
+        tuner.refresh();
+        return () => tuner.unsubscribe(onChange);
+    }, [tuner]);
+
+    const { downloadFile } = useFileDownload({
+        filename: "nwdrone-pid.json",
+        filetype: "application/json",
+    });
+    const { openFilePicker } = useFileUpload({
+        accept: ".json,application/json",
+        onFileChange: file => {
+            file.text()
+                .then(text => {
+                    const profile = parseProfile(text);
+                    setProfileName(profile.name);
+                    const unknown = tuner.apply(profile);
+                    setMessage(
+                        unknown.length > 0
+                            ? {
+                                  type: "warning",
+                                  text: `Loaded '${profile.name}', but the drone has no ${unknown.join(", ")} controller(s)`,
+                              }
+                            : {
+                                  type: "success",
+                                  text: `Loaded '${profile.name}'`,
+                              },
+                    );
+                })
+                .catch((err: Error) =>
+                    setMessage({
+                        type: "danger",
+                        text: `Failed to load profile: ${err.message}`,
+                    }),
+                );
+        },
+    });
+
+    const saveProfile = () => {
+        const name = profileName.trim() || "default";
+        downloadFile(
+            JSON.stringify(tuner.profile(name), null, 4),
+            `nwdrone-pid-${name.replace(/[^\w-]+/g, "_")}.json`,
+        );
+    };
+
+    const names = [...tuner.current.keys()];
+    const diffs = tuner.diff();
+    const buttonClass = "px-2 py-1 bg-gray-800 rounded text-sm";
+
+    return (
+        <ContentBlock title="Tuning">
+            <div className="flex flex-col gap-6 m-4 text-gray-300 max-w-3xl">
+                <section className="flex flex-col gap-3">
+                    <p className="text-sm text-gray-400">
+                        Changes apply to the running controllers immediately and
+                        last until the drone restarts. Save a profile to keep
+                        them, and copy them into the source once they are dialed
+                        in.
+                    </p>
+                    <div>
+                        <button
+                            onClick={() => tuner.refresh()}
+                            className={buttonClass}
+                        >
+                            Refresh
+                        </button>
+                    </div>
+                    {names.length === 0 && (
+                        <p className="text-sm text-gray-400">
+                            {connection === "open"
+                                ? "Waiting for the drone to report its controllers..."
+                                : "Not connected to the drone."}
+                        </p>
+                    )}
+                    {names.map(name => (
+                        <ControllerCard
+                            key={name}
+                            name={name}
+                            params={tuner.current.get(name)}
+                            defaults={tuner.defaults.get(name)}
+                        />
+                    ))}
+                </section>
+                <section className="flex flex-col gap-3">
+                    <h2 className="text-lg font-semibold text-white">
+                        Profiles
+                    </h2>
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <input
+                            type="text"
+                            value={profileName}
+                            onInput={e => setProfileName(e.currentTarget.value)}
+                            placeholder="Profile name"
+                            className="p-1 bg-gray-800 rounded"
+                        />
+                        <button
+                            onClick={saveProfile}
+                            disabled={names.length === 0}
+                            className={`${buttonClass} disabled:opacity-50`}
+                        >
+                            Save
+                        </button>
+                        <button
+                            onClick={openFilePicker}
+                            className={buttonClass}
+                        >
+                            Load
+                        </button>
+                    </div>
+                    {message && (
+                        <Alert
+                            type={message.type}
+                            onClose={() => setMessage(null)}
+                        >
+                            {message.text}
+                        </Alert>
+                    )}
+                </section>
+                <section className="flex flex-col gap-3">
+                    <h2 className="text-lg font-semibold text-white">
+                        Changes from defaults
+                    </h2>
+                    {diffs.length === 0 ? (
+                        <p className="text-sm text-gray-400">
+                            All controllers are at their compiled-in defaults.
+                        </p>
+                    ) : (
+                        <table className="font-mono text-sm text-left">
+                            <thead>
+                                <tr>
+                                    <th className="pr-4">Controller</th>
+                                    <th className="pr-4">Param</th>
+                                    <th className="pr-4">Default</th>
+                                    <th className="pr-4">Current</th>
+                                    <th className="pr-4">Change</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {diffs.map(d => (
+                                    <tr key={`${d.controller}.${d.param}`}>
+                                        <td className="pr-4">{d.controller}</td>
+                                        <td className="pr-4">{d.param}</td>
+                                        <td className="pr-4">{d.default}</td>
+                                        <td className="pr-4 text-sky-400">
+                                            {d.value}
+                                        </td>
+                                        <td className="pr-4">
+                                            {d.value > d.default ? "+" : ""}
+                                            {+(d.value - d.default).toFixed(6)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </section>
+            </div>
+        </ContentBlock>
+    );
+}
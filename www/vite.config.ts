@@ -1,11 +1,16 @@
 import { defineConfig } from "vite";
 import preact from "@preact/preset-vite";
 
+import pwa from "./pwa";
+import simulator from "./sim";
+
 // https://vitejs.dev/config/
-export default defineConfig({
-    plugins: [preact()],
+export default defineConfig(({ mode }) => ({
+    // In `sim` mode, a simulated drone is served on /ws (see sim/index.ts)
+    // Builds come with a service worker caching the app for offline use (see pwa/index.ts)
+    plugins: [preact(), pwa(), mode === "sim" && simulator()],
     build: {
         emptyOutDir: true,
         outDir: "../zig-out/bin/dist",
     },
-});
+}));